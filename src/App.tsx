@@ -2,27 +2,31 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { createBrowserRouter, RouterProvider } from "react-router-dom";
 import Dashboard from "./pages/Dashboard";
 import Preview from "./pages/Preview";
 import Orders from "./pages/Orders";
+import OrderPage from "./pages/OrderPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// A data router is required for blocking navigation while edits are unsaved.
+const router = createBrowserRouter([
+  { path: "/", element: <Dashboard /> },
+  { path: "/preview", element: <Preview /> },
+  { path: "/preview/:id", element: <Preview /> },
+  { path: "/orders", element: <Orders /> },
+  { path: "/p/:slug", element: <OrderPage /> },
+  { path: "*", element: <NotFound /> },
+]);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Dashboard />} />
-          <Route path="/preview" element={<Preview />} />
-          <Route path="/orders" element={<Orders />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <RouterProvider router={router} />
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,15 @@
+import { useImageSrc } from "@/hooks/use-image-src";
+
+interface AssetImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  src: string;
+  size?: number;
+}
+
+// Renders both local asset references and plain URLs.
+const AssetImage = ({ src, size, ...props }: AssetImageProps) => {
+  const resolved = useImageSrc(src, size);
+  if (!resolved) return <div className={`bg-muted animate-pulse ${props.className ?? ''}`} />;
+  return <img src={resolved} {...props} />;
+};
+
+export default AssetImage;
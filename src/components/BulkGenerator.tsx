@@ -0,0 +1,198 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Upload, Layers, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useBatch } from "@/hooks/use-batch";
+import { usePages } from "@/hooks/use-pages";
+import { parseBulkInput, MAX_BULK_ROWS, type BulkRow } from "@/lib/bulk";
+import { toCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+import { formatPrice } from "@/lib/format";
+import { clearBatch, startBatch } from "@/lib/jobs/batch";
+import { jobProgress } from "@/lib/jobs/pipeline";
+import type { CopyVoice } from "@/lib/copy/voice";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+const rowStatus = (page?: GeneratedPage) => {
+  if (!page) return 'محذوف';
+  if (page.status === 'generating') return page.job?.status === 'queued' ? 'في الانتظار' : 'جاري الإنشاء';
+  if (page.status === 'failed') return 'فشل';
+  if (page.status === 'cancelled') return 'ملغى';
+  return 'نجح';
+};
+
+// Per-unit margin at the price the page ended up selling for.
+const unitProfit = (row: BulkRow, page?: GeneratedPage) => {
+  const price = page?.content?.offer.price ?? row.price;
+  return row.cost !== undefined && price !== undefined ? price - row.cost : undefined;
+};
+
+interface BulkGeneratorProps {
+  voice: CopyVoice;
+}
+
+const BulkGenerator = ({ voice }: BulkGeneratorProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const pages = usePages();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [input, setInput] = useState("");
+  const { items, rejected } = useBatch();
+
+  const results = items.map((item) => ({ ...item, page: pages.find((p) => p.id === item.pageId) }));
+  const isRunning = results.some(({ page }) => page?.status === 'generating');
+  const succeeded = results.filter(({ page }) => page?.status === 'completed' || page?.status === 'published').length;
+  const failed = results.filter(({ page }) => page?.status === 'failed').length + rejected.length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    e.target.value = "";
+  };
+
+  const handleStart = () => {
+    const { rows, errors } = parseBulkInput(input);
+
+    if (rows.length === 0) {
+      toast({
+        title: "لا توجد روابط صالحة",
+        description: "أدخل رابطاً واحداً على الأقل في كل سطر",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    startBatch(rows, errors, voice);
+    toast({
+      title: "بدأ الإنشاء الجماعي",
+      description: `تمت إضافة ${rows.length} صفحة إلى قائمة الانتظار${errors.length ? ` وتم تجاهل ${errors.length} سطر` : ''}`,
+    });
+  };
+
+  const handleDownload = () => {
+    const csv = toCsv([
+      ['line', 'url', 'price', 'cost', 'profit', 'status', 'page_id', 'title', 'error'],
+      ...results.map(({ row, page }) => [
+        row.line, row.url, row.price, row.cost, unitProfit(row, page), rowStatus(page), page?.id, page?.title, page?.job?.error,
+      ]),
+      ...rejected.map((error) => [error.line, error.value, '', '', '', 'مرفوض', '', '', error.message]),
+    ]);
+    downloadFile(`bulk-results-${new Date().toISOString().slice(0, 10)}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        placeholder={"https://example.com/product-1\nhttps://example.com/product-2,199,80\n\nأو ملف CSV بالأعمدة: url,price,cost"}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        rows={6}
+        dir="ltr"
+        className="font-mono text-sm"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          السعر والتكلفة اختياريان لكل سطر. الحد الأقصى {MAX_BULK_ROWS} رابط.
+        </p>
+        <div className="flex gap-2">
+          <input ref={fileInput} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFile} />
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            رفع CSV
+          </Button>
+          <Button onClick={handleStart} disabled={isRunning} className="gradient-saas hover:opacity-90">
+            <Layers className="h-4 w-4 mr-2" />
+            إنشاء الصفحات
+          </Button>
+        </div>
+      </div>
+
+      {(results.length > 0 || rejected.length > 0) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm">
+              <span className="text-success font-medium">{succeeded} نجح</span>
+              {' · '}
+              <span className="text-destructive font-medium">{failed} فشل</span>
+              {' · '}
+              <span className="text-muted-foreground">{results.length + rejected.length} إجمالي</span>
+            </p>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-2" />
+                تحميل النتائج
+              </Button>
+              <Button variant="ghost" size="sm" onClick={clearBatch} disabled={isRunning}>
+                <X className="h-4 w-4 mr-2" />
+                مسح
+              </Button>
+            </div>
+          </div>
+          <div className="rounded-md border max-h-80 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>الرابط</TableHead>
+                  <TableHead>الحالة</TableHead>
+                  <TableHead>الربح للقطعة</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(({ row, page }) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell className="max-w-[16rem] truncate" dir="ltr">{row.url}</TableCell>
+                    <TableCell>
+                      {page?.status === 'generating' && page.job?.status === 'running' ? (
+                        <Progress value={jobProgress(page.job)} className="h-2 w-24" />
+                      ) : (
+                        <Badge variant={page?.status === 'failed' ? 'destructive' : 'secondary'}>
+                          {rowStatus(page)}
+                        </Badge>
+                      )}
+                      {page?.status === 'failed' && (
+                        <p className="mt-1 text-xs text-destructive">{page.job?.error}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatPrice(unitProfit(row, page), page?.content?.offer.currency)}
+                    </TableCell>
+                    <TableCell>
+                      {(page?.status === 'completed' || page?.status === 'published') && (
+                        <Button variant="ghost" size="sm" onClick={() => navigate(`/preview/${page.id}`)}>
+                          عرض
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {rejected.map((error) => (
+                  <TableRow key={`rejected-${error.line}`}>
+                    <TableCell>{error.line}</TableCell>
+                    <TableCell className="max-w-[16rem] truncate" dir="ltr">{error.value}</TableCell>
+                    <TableCell>
+                      <Badge variant="destructive">مرفوض</Badge>
+                      <p className="mt-1 text-xs text-destructive">{error.message}</p>
+                    </TableCell>
+                    <TableCell></TableCell>
+                    <TableCell></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkGenerator;
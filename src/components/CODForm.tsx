@@ -5,24 +5,60 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Phone, MapPin, User, ShoppingCart } from "lucide-react";
+import AssetImage from "@/components/AssetImage";
+import { useStaticRender } from "@/hooks/use-static-render";
 import { useToast } from "@/hooks/use-toast";
+import { formatPrice } from "@/lib/format";
+import {
+  DEFAULT_COD_TERMS,
+  findVariant,
+  hasVariants,
+  isInStock,
+  isValueAvailable,
+  variantPrice,
+  type Offer,
+  type VariantSelection,
+} from "@/lib/landing";
+import type { OrderInput } from "@/lib/orders/types";
 
-interface OrderData {
-  fullName: string;
-  phone: string;
-  address: string;
-  notes: string;
+type OrderData = Omit<OrderInput, 'variantId'>;
+
+const EMPTY_ORDER: OrderData = {
+  fullName: "",
+  phone: "",
+  address: "",
+  notes: ""
+};
+
+interface CODFormProps {
+  offer?: Offer;
+  // Without a handler the form only simulates submission.
+  onSubmit?: (order: OrderInput) => Promise<void>;
+  heading?: string;
+  subheading?: string;
+  terms?: string[];
+  submitLabel?: string;
+  buttonClassName?: string;
 }
 
-const CODForm = () => {
+const CODForm = ({
+  offer,
+  onSubmit,
+  heading = "اطلب الآن - الدفع عند الاستلام",
+  subheading = "اطلب منتجك بسهولة وادفع عند وصوله إليك",
+  terms = DEFAULT_COD_TERMS,
+  submitLabel = "تأكيد الطلب - الدفع عند الاستلام",
+  buttonClassName = "rounded-md bg-gradient-to-r from-primary to-primary-hover hover:opacity-90 text-primary-foreground",
+}: CODFormProps) => {
   const { toast } = useToast();
-  const [formData, setFormData] = useState<OrderData>({
-    fullName: "",
-    phone: "",
-    address: "",
-    notes: ""
-  });
+  const isStatic = useStaticRender();
+  const [formData, setFormData] = useState<OrderData>(EMPTY_ORDER);
+  const [selection, setSelection] = useState<VariantSelection>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const withVariants = offer ? hasVariants(offer) : false;
+  const variant = withVariants ? findVariant(offer, selection) : undefined;
+  const price = offer && variantPrice(offer, variant);
+  const soldOut = offer ? (withVariants ? !!variant && !isInStock(offer, variant) : !isInStock(offer)) : false;
 
   const handleInputChange = (field: keyof OrderData, value: string) => {
     setFormData(prev => ({
@@ -43,40 +79,96 @@ const CODForm = () => {
       return;
     }
 
-    setIsSubmitting(true);
+    if (withVariants && !variant) {
+      toast({
+        title: "اختر نوع المنتج",
+        description: offer.options.map((option) => option.name).join(' و'),
+        variant: "destructive",
+      });
+      return;
+    }
 
-    // Simulate API call
-    setTimeout(() => {
-      setIsSubmitting(false);
+    setIsSubmitting(true);
+    try {
+      if (onSubmit) {
+        await onSubmit({ ...formData, variantId: variant?.id });
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
       toast({
         title: "تم تأكيد الطلب بنجاح",
         description: "سيتم التواصل معك لتأكيد التفاصيل",
       });
-      
-      // Reset form
-      setFormData({
-        fullName: "",
-        phone: "",
-        address: "",
-        notes: ""
+      setFormData(EMPTY_ORDER);
+      setSelection({});
+    } catch (error) {
+      toast({
+        title: "تعذر إرسال الطلب",
+        description: error instanceof Error ? error.message : "حاول مرة أخرى",
+        variant: "destructive",
       });
-    }, 2000);
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
-    <Card className="bg-gradient-to-br from-blue-50 to-indigo-50 border-2 border-blue-200 shadow-lg">
-      <CardHeader className="text-center bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
+    <Card className="bg-accent border-2 border-primary/20 shadow-lg">
+      <CardHeader className="text-center bg-gradient-to-r from-primary to-primary-hover text-primary-foreground rounded-t-lg">
         <CardTitle className="text-2xl font-bold flex items-center justify-center gap-2">
           <ShoppingCart className="h-6 w-6" />
-          اطلب الآن - الدفع عند الاستلام
+          {heading}
         </CardTitle>
-        <p className="text-blue-100">اطلب منتجك بسهولة وادفع عند وصوله إليك</p>
+        <p className="text-primary-foreground/80">{subheading}</p>
       </CardHeader>
       
       <CardContent className="p-6">
-        <form onSubmit={handleSubmit} className="space-y-6">
+        {/* The data attributes are the hooks for the script in exported pages. */}
+        <form onSubmit={handleSubmit} className="space-y-6" data-cod-form="">
+          {withVariants && offer.options.map((option) => (
+            <div key={option.name} className="space-y-2">
+              <Label className="text-foreground font-medium">{option.name} *</Label>
+              <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={option.name} data-option={option.name}>
+                {option.values.map((value) => {
+                  const selected = selection[option.name] === value;
+                  const available = isValueAvailable(offer, selection, option.name, value);
+                  return (
+                    <button
+                      key={value}
+                      type="button"
+                      data-value={value}
+                      role="radio"
+                      aria-checked={selected}
+                      disabled={!available}
+                      onClick={() => setSelection((current) => ({ ...current, [option.name]: value }))}
+                      className="min-w-12 rounded-md border-2 border-border bg-background px-4 py-2 font-medium transition-colors hover:border-primary/50 disabled:opacity-40 disabled:line-through aria-checked:border-primary aria-checked:bg-primary/10 aria-checked:text-primary"
+                    >
+                      {value}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {offer && price !== undefined && (
+            <div className="flex items-center justify-between rounded-lg border bg-background p-4">
+              <div className="flex items-center gap-3">
+                {isStatic && withVariants ? (
+                  <img data-cod-image="" hidden alt="" className="h-12 w-12 rounded-md object-cover" />
+                ) : variant?.image && (
+                  <AssetImage src={variant.image} size={480} alt="" className="h-12 w-12 rounded-md object-cover" />
+                )}
+                <span className="text-foreground/80" data-cod-price-label="">
+                  {withVariants && !variant ? 'اختر النوع لعرض السعر' : 'المبلغ عند الاستلام'}
+                </span>
+              </div>
+              <span className="text-xl font-bold text-primary" data-cod-price="">{formatPrice(price, offer.currency)}</span>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="fullName" className="flex items-center gap-2 text-gray-700 font-medium">
+            <Label htmlFor="fullName" className="flex items-center gap-2 text-foreground font-medium">
               <User className="h-4 w-4" />
               الاسم الكامل *
             </Label>
@@ -86,13 +178,13 @@ const CODForm = () => {
               value={formData.fullName}
               onChange={(e) => handleInputChange('fullName', e.target.value)}
               placeholder="أدخل اسمك الكامل"
-              className="h-12 text-lg border-2 focus:border-blue-500"
+              className="h-12 text-lg border-2 focus:border-primary"
               required
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="phone" className="flex items-center gap-2 text-gray-700 font-medium">
+            <Label htmlFor="phone" className="flex items-center gap-2 text-foreground font-medium">
               <Phone className="h-4 w-4" />
               رقم الهاتف *
             </Label>
@@ -102,14 +194,14 @@ const CODForm = () => {
               value={formData.phone}
               onChange={(e) => handleInputChange('phone', e.target.value)}
               placeholder="05xxxxxxxx"
-              className="h-12 text-lg border-2 focus:border-blue-500"
+              className="h-12 text-lg border-2 focus:border-primary"
               dir="ltr"
               required
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="address" className="flex items-center gap-2 text-gray-700 font-medium">
+            <Label htmlFor="address" className="flex items-center gap-2 text-foreground font-medium">
               <MapPin className="h-4 w-4" />
               العنوان الكامل *
             </Label>
@@ -118,13 +210,13 @@ const CODForm = () => {
               value={formData.address}
               onChange={(e) => handleInputChange('address', e.target.value)}
               placeholder="أدخل عنوانك الكامل مع تفاصيل الحي والمدينة"
-              className="min-h-[100px] text-lg border-2 focus:border-blue-500 resize-none"
+              className="min-h-[100px] text-lg border-2 focus:border-primary resize-none"
               required
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="notes" className="text-gray-700 font-medium">
+            <Label htmlFor="notes" className="text-foreground font-medium">
               ملاحظات إضافية (اختياري)
             </Label>
             <Textarea
@@ -132,38 +224,52 @@ const CODForm = () => {
               value={formData.notes}
               onChange={(e) => handleInputChange('notes', e.target.value)}
               placeholder="أي ملاحظات خاصة بالطلب"
-              className="min-h-[80px] border-2 focus:border-blue-500 resize-none"
+              className="min-h-[80px] border-2 focus:border-primary resize-none"
             />
           </div>
 
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-            <h4 className="font-bold text-yellow-800 mb-2">شروط الدفع عند الاستلام:</h4>
-            <ul className="text-sm text-yellow-700 space-y-1">
-              <li>• سيتم التواصل معك لتأكيد الطلب خلال 24 ساعة</li>
-              <li>• الدفع نقداً عند استلام المنتج</li>
-              <li>• فحص المنتج قبل الدفع متاح</li>
-              <li>• رسوم الشحن: مجاني للطلبات أكثر من 500 ريال</li>
-            </ul>
-          </div>
+          {terms.length > 0 && (
+            <div className="bg-warning/10 border border-warning/30 rounded-lg p-4">
+              <h4 className="font-bold text-foreground mb-2">شروط الدفع عند الاستلام:</h4>
+              <ul className="text-sm text-foreground/80 space-y-1">
+                {terms.map((term, index) => (
+                  <li key={index}>• {term}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isStatic && (
+            <p data-cod-status="" role="status" hidden className="rounded-lg bg-destructive/10 p-4 text-center font-bold text-destructive" />
+          )}
 
           <Button
             type="submit"
-            disabled={isSubmitting}
-            className="w-full h-14 text-lg font-bold bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white shadow-lg transform transition-all duration-200 hover:scale-105"
+            data-cod-submit=""
+            disabled={isSubmitting || soldOut}
+            className={`w-full h-14 text-lg font-bold shadow-lg transform transition-all duration-200 hover:scale-105 ${buttonClassName}`}
           >
-            {isSubmitting ? (
+            {soldOut ? (
+              'نفدت الكمية'
+            ) : isSubmitting ? (
               <>
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-foreground mr-3"></div>
                 جاري إرسال الطلب...
               </>
             ) : (
               <>
                 <ShoppingCart className="h-5 w-5 mr-3" />
-                تأكيد الطلب - الدفع عند الاستلام
+                {submitLabel}
               </>
             )}
           </Button>
         </form>
+        {isStatic && (
+          <div data-cod-success="" hidden className="rounded-lg bg-primary/10 p-6 text-center space-y-2">
+            <p className="text-xl font-bold text-primary">تم تأكيد الطلب بنجاح</p>
+            <p className="text-foreground/80">سيتم التواصل معك لتأكيد التفاصيل</p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
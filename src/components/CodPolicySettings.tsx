@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { codPolicySchema, getCodPolicy, setCodPolicy, type CodPolicy } from "@/lib/cod-policy";
+import { refreshPolicyFaq } from "@/lib/pages/faq";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+interface CodPolicySettingsProps {
+  page: GeneratedPage;
+}
+
+const CodPolicySettings = ({ page }: CodPolicySettingsProps) => {
+  const [policy, setPolicy] = useState<CodPolicy>(getCodPolicy);
+  const { toast } = useToast();
+
+  const update = (patch: Partial<CodPolicy>) => setPolicy((current) => ({ ...current, ...patch }));
+  const parsed = codPolicySchema.safeParse(policy);
+  const isValid = parsed.success && policy.deliveryDaysMin <= policy.deliveryDaysMax;
+
+  const handleSave = () => {
+    if (!parsed.success) return;
+    setCodPolicy(parsed.data);
+    refreshPolicyFaq(page.id);
+    toast({ title: "تم حفظ سياسة المتجر", description: "تم تحديث أسئلة الدفع والتوصيل في هذه الصفحة" });
+  };
+
+  const numberField = (id: string, label: string, key: keyof CodPolicy, optional = false) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        dir="ltr"
+        value={(policy[key] as number | undefined) ?? ''}
+        placeholder={optional ? 'بدون' : undefined}
+        onChange={(e) => update({ [key]: optional ? toNumber(e.target.value) : Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>سياسة الدفع عند الاستلام</CardTitle>
+        <CardDescription>تُستخدم لكتابة إجابات الأسئلة الشائعة في كل صفحات المتجر</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {numberField('policy-days-min', 'أقل مدة توصيل (أيام)', 'deliveryDaysMin')}
+          {numberField('policy-days-max', 'أطول مدة توصيل (أيام)', 'deliveryDaysMax')}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="policy-coverage">مناطق التوصيل</Label>
+          <Input id="policy-coverage" value={policy.coverage} onChange={(e) => update({ coverage: e.target.value })} />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          {numberField('policy-fee', 'رسوم الشحن', 'shippingFee')}
+          {numberField('policy-free', 'شحن مجاني من', 'freeShippingThreshold', true)}
+        </div>
+        {numberField('policy-returns', 'مدة الإرجاع (أيام، 0 بدون إرجاع)', 'returnDays')}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="policy-inspect">فحص المنتج قبل الدفع</Label>
+          <Switch id="policy-inspect" checked={policy.inspectBeforePay} onCheckedChange={(inspectBeforePay) => update({ inspectBeforePay })} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="policy-call">اتصال لتأكيد الطلب</Label>
+          <Switch id="policy-call" checked={policy.confirmationCall} onCheckedChange={(confirmationCall) => update({ confirmationCall })} />
+        </div>
+        <Button className="w-full" disabled={!isValid} onClick={handleSave}>
+          حفظ وتحديث أسئلة الصفحة
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CodPolicySettings;
@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, Wand2 } from "lucide-react";
+import { applyAllLintFixes, applyLintFix, fieldLabel, lintLandingPage, type LintSeverity } from "@/lib/pages/lint";
+import { editContent } from "@/lib/pages/revisions";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+const SEVERITY_STYLES: Record<LintSeverity, { label: string; className: string }> = {
+  error: { label: 'خطأ', className: 'bg-red-100 text-red-800 border-red-200' },
+  warning: { label: 'تحذير', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  info: { label: 'ملاحظة', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+};
+
+interface CopyLintPanelProps {
+  page: GeneratedPage;
+}
+
+const CopyLintPanel = ({ page }: CopyLintPanelProps) => {
+  const brand = page.product?.attributes.brand;
+  const issues = lintLandingPage(page.content, { allowedTerms: brand ? [brand] : [] });
+  const fixable = issues.filter((issue) => issue.fix);
+
+  const applyFix = (index: number) =>
+    editContent(page.id, 'إصلاح النص', (content) => applyLintFix(content, issues[index]));
+
+  const applyAll = () =>
+    editContent(page.id, 'إصلاح النص', (content) => applyAllLintFixes(content, fixable));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>جودة النص</CardTitle>
+            <CardDescription>
+              {issues.length ? `${issues.length} ملاحظة على محتوى الصفحة` : 'لا توجد مشاكل في النص'}
+            </CardDescription>
+          </div>
+          {fixable.length > 1 && (
+            <Button variant="outline" size="sm" onClick={applyAll}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              إصلاح الكل
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-2 text-success">
+            <CheckCircle className="h-4 w-4" />
+            <span className="text-sm">النص جاهز للنشر</span>
+          </div>
+        ) : (
+          <ul className="space-y-3 max-h-96 overflow-auto">
+            {issues.map((issue, index) => (
+              <li key={issue.id} className="rounded-md border p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={SEVERITY_STYLES[issue.severity].className}>
+                      {SEVERITY_STYLES[issue.severity].label}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{fieldLabel(issue.field)}</span>
+                  </div>
+                  {issue.fix && (
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => applyFix(index)}>
+                      {issue.fix.label}
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm">{issue.message}</p>
+                <p className="text-xs text-muted-foreground bg-muted rounded px-2 py-1">{issue.excerpt}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CopyLintPanel;
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { SectionOf } from "@/lib/landing";
+
+type CountdownSection = SectionOf<'countdown'>;
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+const toLocalInput = (iso: string | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+interface CountdownEditorProps {
+  section: CountdownSection | null;
+  stock?: number;
+  onClose: () => void;
+  onSave: (section: CountdownSection) => void;
+}
+
+const CountdownEditor = ({ section, stock, onClose, onSave }: CountdownEditorProps) => {
+  const [draft, setDraft] = useState<CountdownSection | null>(section);
+
+  useEffect(() => setDraft(section), [section]);
+
+  const update = (patch: Partial<CountdownSection>) => setDraft((current) => ({ ...current, ...patch }));
+  const isValid = draft && (draft.mode === 'evergreen' ? draft.durationMinutes > 0 : !!draft.endsAt);
+
+  return (
+    <Dialog open={!!section} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>العداد التنازلي</DialogTitle>
+          <DialogDescription>مؤقت ثابت لكل الزوار أو مؤقت متجدد يبدأ مع أول زيارة</DialogDescription>
+        </DialogHeader>
+
+        {draft && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="countdown-heading">العنوان</Label>
+              <Input id="countdown-heading" value={draft.heading} onChange={(e) => update({ heading: e.target.value })} />
+            </div>
+
+            <ToggleGroup
+              type="single"
+              value={draft.mode}
+              onValueChange={(value) => value && update({ mode: value as CountdownSection['mode'] })}
+            >
+              <ToggleGroupItem value="evergreen" size="sm">متجدد لكل زائر</ToggleGroupItem>
+              <ToggleGroupItem value="fixed" size="sm">موعد ثابت</ToggleGroupItem>
+            </ToggleGroup>
+
+            {draft.mode === 'fixed' ? (
+              <div className="space-y-2">
+                <Label htmlFor="countdown-ends">ينتهي في</Label>
+                <Input
+                  id="countdown-ends"
+                  type="datetime-local"
+                  dir="ltr"
+                  value={toLocalInput(draft.endsAt)}
+                  onChange={(e) => update({ endsAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="countdown-duration">المدة (بالساعات)</Label>
+                <Input
+                  id="countdown-duration"
+                  type="number"
+                  min={1}
+                  dir="ltr"
+                  value={Math.round(draft.durationMinutes / 60)}
+                  onChange={(e) => update({ durationMinutes: Math.max(1, Number(e.target.value)) * 60 })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="countdown-expired">النص بعد انتهاء المؤقت</Label>
+              <Input id="countdown-expired" value={draft.expiredText} onChange={(e) => update({ expiredText: e.target.value })} />
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="countdown-stock">إظهار الكمية المتبقية</Label>
+                <p className="text-xs text-muted-foreground">
+                  {stock === undefined
+                    ? 'حدد المخزون في إعدادات الصفحة لتفعيل التنبيه'
+                    : `المخزون الحالي: ${stock} — يظهر التنبيه عند ${draft.stockThreshold} قطع أو أقل`}
+                </p>
+              </div>
+              <Switch id="countdown-stock" checked={draft.showStock} onCheckedChange={(showStock) => update({ showStock })} />
+            </div>
+
+            {draft.showStock && (
+              <div className="space-y-2">
+                <Label htmlFor="countdown-threshold">إظهار التنبيه عندما يصل المخزون إلى</Label>
+                <Input
+                  id="countdown-threshold"
+                  type="number"
+                  min={1}
+                  dir="ltr"
+                  value={draft.stockThreshold}
+                  onChange={(e) => update({ stockThreshold: Math.max(1, Math.round(Number(e.target.value))) })}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>إلغاء</Button>
+          <Button disabled={!isValid} onClick={() => draft && onSave(draft)}>حفظ</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CountdownEditor;
@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { createPortal } from "react-dom";
+import { FrameDocumentContext } from "@/hooks/use-frame-document";
+import { DEVICES, type DeviceId } from "@/lib/devices";
+import { landingDocument } from "@/lib/landing";
+
+const FRAME_STYLE_ATTRIBUTE = 'data-frame-style';
+
+// The frame gets the compiled stylesheets but none of the dashboard markup,
+// so media queries and layout resolve against the device viewport.
+const copyStylesheets = (target: Document) => {
+  target.head.querySelectorAll(`[${FRAME_STYLE_ATTRIBUTE}]`).forEach((node) => node.remove());
+  document.head.querySelectorAll('style, link[rel="stylesheet"]').forEach((node) => {
+    const clone = node.cloneNode(true) as HTMLElement;
+    clone.setAttribute(FRAME_STYLE_ATTRIBUTE, '');
+    target.head.appendChild(clone);
+  });
+};
+
+interface DeviceFrameProps {
+  device: DeviceId;
+  title: string;
+  children: ReactNode;
+}
+
+const DeviceFrame = ({ device, title, children }: DeviceFrameProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [frameDocument, setFrameDocument] = useState<Document | null>(null);
+  const [availableWidth, setAvailableWidth] = useState(0);
+  const { width, height } = DEVICES[device];
+  const scale = availableWidth ? Math.min(1, availableWidth / width) : 1;
+  const srcDoc = useMemo(() => landingDocument({ title: '' }), []);
+
+  const handleLoad = () => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc) return;
+    copyStylesheets(doc);
+    setFrameDocument(doc);
+  };
+
+  // Vite swaps style tags on hot reload; keep the frame in step.
+  useEffect(() => {
+    if (!frameDocument) return;
+    const observer = new MutationObserver(() => copyStylesheets(frameDocument));
+    observer.observe(document.head, { childList: true, subtree: true, characterData: true });
+    return () => observer.disconnect();
+  }, [frameDocument]);
+
+  useEffect(() => {
+    if (frameDocument) frameDocument.title = title;
+  }, [frameDocument, title]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setAvailableWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={containerRef} className="flex justify-center">
+      <div className="relative" style={{ width: width * scale, height: height * scale }}>
+        <iframe
+          ref={iframeRef}
+          title={title}
+          srcDoc={srcDoc}
+          onLoad={handleLoad}
+          className="absolute top-0 left-0 origin-top-left rounded-lg border bg-white shadow-saas-lg"
+          style={{ width, height, transform: `scale(${scale})` }}
+        />
+      </div>
+      {frameDocument && createPortal(
+        <FrameDocumentContext.Provider value={frameDocument}>{children}</FrameDocumentContext.Provider>,
+        frameDocument.body
+      )}
+    </div>
+  );
+};
+
+export default DeviceFrame;
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import {
+  exportSettingsSchema,
+  exportSiteBundle,
+  exportStandaloneHtml,
+  getExportSettings,
+  setExportSettings,
+  type ExportSource,
+} from "@/lib/export";
+
+type ExportFormat = 'html' | 'zip';
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string }> = {
+  html: { label: 'ملف HTML واحد', description: 'ملف واحد يتضمن التصميم والخط والصور، ويمكن رفعه على أي استضافة' },
+  zip: { label: 'حزمة ZIP', description: 'صفحة وصفحة شكر وملفات صور منفصلة، أخف للصفحات كثيرة الصور' },
+};
+
+interface ExportDialogProps {
+  source: ExportSource;
+  open: boolean;
+  onClose: () => void;
+}
+
+const ExportDialog = ({ source, open, onClose }: ExportDialogProps) => {
+  const [ordersEndpoint, setOrdersEndpoint] = useState(() => getExportSettings().ordersEndpoint);
+  const [format, setFormat] = useState<ExportFormat>('html');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const parsed = exportSettingsSchema.safeParse({ ordersEndpoint });
+
+  useEffect(() => {
+    if (open) setOrdersEndpoint(getExportSettings().ordersEndpoint);
+  }, [open]);
+
+  const handleExport = async () => {
+    if (!parsed.success) return;
+    setExportSettings(parsed.data);
+    setIsExporting(true);
+    try {
+      const filename = source.id ?? 'landing-page';
+      if (format === 'zip') {
+        downloadFile(`${filename}.zip`, await exportSiteBundle(source, parsed.data), 'application/zip');
+      } else {
+        downloadFile(`${filename}.html`, await exportStandaloneHtml(source, parsed.data), 'text/html;charset=utf-8');
+      }
+      toast({ title: "تم التحميل", description: `تم تحميل ${EXPORT_FORMATS[format].label} بنجاح` });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "تعذر تصدير الصفحة",
+        description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>تحميل الصفحة</DialogTitle>
+          <DialogDescription>{EXPORT_FORMATS[format].description}</DialogDescription>
+        </DialogHeader>
+
+        <ToggleGroup type="single" value={format} onValueChange={(value) => value && setFormat(value as ExportFormat)}>
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((id) => (
+            <ToggleGroupItem key={id} value={id} size="sm">
+              {EXPORT_FORMATS[id].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="export-endpoint">رابط استقبال الطلبات</Label>
+          <Input
+            id="export-endpoint"
+            type="url"
+            dir="ltr"
+            value={ordersEndpoint}
+            placeholder="https://example.com/api/orders"
+            onChange={(e) => setOrdersEndpoint(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">يُرسل نموذج الطلب بيانات العميل إلى هذا الرابط بصيغة JSON</p>
+          {!parsed.success && <p className="text-xs text-destructive">أدخل رابطاً صحيحاً يبدأ بـ https://</p>}
+          {parsed.success && !parsed.data.ordersEndpoint && (
+            <p className="flex items-center gap-2 text-xs text-warning">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              بدون رابط لن يستقبل النموذج أي طلبات
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            إلغاء
+          </Button>
+          <Button onClick={handleExport} disabled={!parsed.success || isExporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? 'جاري التصدير...' : 'تحميل'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
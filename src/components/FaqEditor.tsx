@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { FaqItem } from "@/lib/copy/schema";
+import type { SectionOf } from "@/lib/landing";
+import { storeFaq } from "@/lib/pages/faq";
+
+type FaqSection = SectionOf<'faq'>;
+
+interface FaqEditorProps {
+  section: FaqSection | null;
+  currency?: string;
+  onClose: () => void;
+  onSave: (section: FaqSection) => void;
+}
+
+const FaqEditor = ({ section, currency, onClose, onSave }: FaqEditorProps) => {
+  const [draft, setDraft] = useState<FaqSection | null>(section);
+
+  useEffect(() => setDraft(section), [section]);
+
+  const setItems = (update: (items: FaqItem[]) => FaqItem[]) =>
+    setDraft((current) => current && { ...current, items: update(current.items) });
+
+  const updateItem = (index: number, patch: Partial<FaqItem>) =>
+    setItems((items) => items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  const moveItem = (index: number, offset: number) =>
+    setItems((items) => {
+      const target = index + offset;
+      if (target < 0 || target >= items.length) return items;
+      const next = [...items];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const isValid = draft && draft.items.every((item) => item.question.trim() && item.answer.trim());
+
+  return (
+    <Dialog open={!!section} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>الأسئلة الشائعة</DialogTitle>
+          <DialogDescription>أسئلة الدفع والتوصيل والإرجاع تُكتب من سياسة المتجر</DialogDescription>
+        </DialogHeader>
+
+        {draft && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="faq-heading">العنوان</Label>
+              <Input
+                id="faq-heading"
+                value={draft.heading}
+                onChange={(e) => setDraft({ ...draft, heading: e.target.value })}
+              />
+            </div>
+
+            {draft.items.map((item, index) => (
+              <div key={index} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={item.question}
+                    placeholder="السؤال"
+                    aria-label={`السؤال ${index + 1}`}
+                    onChange={(e) => updateItem(index, { question: e.target.value })}
+                  />
+                  <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => moveItem(index, -1)} disabled={index === 0} title="نقل لأعلى">
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === draft.items.length - 1}
+                    title="نقل لأسفل"
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-destructive"
+                    onClick={() => setItems((items) => items.filter((_, i) => i !== index))}
+                    title="حذف"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <Textarea
+                  rows={2}
+                  value={item.answer}
+                  placeholder="الإجابة"
+                  aria-label={`الإجابة ${index + 1}`}
+                  onChange={(e) => updateItem(index, { answer: e.target.value })}
+                />
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setItems((items) => [...items, { question: '', answer: '' }])}>
+                <Plus className="h-4 w-4 mr-2" />
+                إضافة سؤال
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setItems((items) => storeFaq(items, currency))}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                تحديث من سياسة المتجر
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>إلغاء</Button>
+          <Button disabled={!isValid} onClick={() => draft && onSave(draft)}>حفظ</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FaqEditor;
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RotateCcw, RotateCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  assetIdFromRef,
+  assetRef,
+  centerCrop,
+  getAsset,
+  renderTransformPreview,
+  transformAsset,
+  type AssetRecord,
+  type ImageTransform,
+} from "@/lib/assets";
+
+const ASPECTS: Record<string, number | undefined> = {
+  original: undefined,
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '3:4': 3 / 4,
+  '16:9': 16 / 9,
+};
+
+interface ImageEditorProps {
+  imageRef: string | null;
+  onClose: () => void;
+  onSave: (ref: string) => void;
+}
+
+const ImageEditor = ({ imageRef, onClose, onSave }: ImageEditorProps) => {
+  const { toast } = useToast();
+  const [asset, setAsset] = useState<AssetRecord>();
+  const [rotate, setRotate] = useState<ImageTransform['rotate']>(0);
+  const [aspect, setAspect] = useState("original");
+  const [preview, setPreview] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setRotate(0);
+    setAspect("original");
+    setAsset(undefined);
+    if (imageRef) getAsset(assetIdFromRef(imageRef)).then(setAsset);
+  }, [imageRef]);
+
+  const transform: ImageTransform = {
+    rotate,
+    crop: asset && ASPECTS[aspect] ? centerCrop(asset, rotate, ASPECTS[aspect]) : undefined,
+  };
+  const transformKey = JSON.stringify(transform);
+
+  useEffect(() => {
+    if (!asset) return;
+    let cancelled = false;
+    renderTransformPreview(asset.id, JSON.parse(transformKey)).then((url) => {
+      if (!cancelled) setPreview(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [asset, transformKey]);
+
+  const turn = (delta: number) =>
+    setRotate((prev) => (((prev + delta + 360) % 360) as ImageTransform['rotate']));
+
+  const handleSave = async () => {
+    if (!asset) return;
+    setIsSaving(true);
+    try {
+      const result = await transformAsset(asset.id, transform);
+      onSave(assetRef(result.id));
+    } catch (error) {
+      toast({
+        title: "تعذر حفظ الصورة",
+        description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!imageRef} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>تعديل الصورة</DialogTitle>
+          <DialogDescription>قص الصورة أو تدويرها. تبقى النسخة الأصلية محفوظة.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex h-72 items-center justify-center rounded-md bg-muted">
+          {preview ? (
+            <img src={preview} alt="معاينة الصورة" className="max-h-full max-w-full object-contain" />
+          ) : (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-1">
+            <Button variant="outline" size="icon" onClick={() => turn(-90)} aria-label="تدوير لليسار">
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => turn(90)} aria-label="تدوير لليمين">
+              <RotateCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <ToggleGroup type="single" value={aspect} onValueChange={(value) => value && setAspect(value)}>
+            {Object.keys(ASPECTS).map((key) => (
+              <ToggleGroupItem key={key} value={key} size="sm">
+                {key === 'original' ? 'الأصلي' : key}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>إلغاء</Button>
+          <Button onClick={handleSave} disabled={!asset || isSaving}>
+            {isSaving ? 'جاري الحفظ...' : 'حفظ'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageEditor;
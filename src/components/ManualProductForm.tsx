@@ -0,0 +1,160 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, ImagePlus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { readImageFile } from "@/lib/images";
+import { parsePrice } from "@/lib/importer";
+import type { ManualProductInput } from "@/lib/pages/types";
+
+const MAX_IMAGES = 6;
+
+const CURRENCIES = [
+  { value: 'SAR', label: 'ريال سعودي' },
+  { value: 'AED', label: 'درهم إماراتي' },
+  { value: 'EGP', label: 'جنيه مصري' },
+  { value: 'MAD', label: 'درهم مغربي' },
+  { value: 'KWD', label: 'دينار كويتي' },
+];
+
+interface ManualProductFormProps {
+  isGenerating: boolean;
+  onSubmit: (input: ManualProductInput) => void;
+}
+
+const ManualProductForm = ({ isGenerating, onSubmit }: ManualProductFormProps) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [title, setTitle] = useState("");
+  const [price, setPrice] = useState("");
+  const [currency, setCurrency] = useState("SAR");
+  const [notes, setNotes] = useState("");
+  const [images, setImages] = useState<string[]>([]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_IMAGES - images.length);
+    e.target.value = "";
+    for (const file of files) {
+      try {
+        const image = await readImageFile(file);
+        setImages((prev) => [...prev, image]);
+      } catch (error) {
+        toast({
+          title: "تعذر رفع الصورة",
+          description: error instanceof Error ? error.message : file.name,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      toast({
+        title: "خطأ",
+        description: "يرجى إدخال اسم المنتج",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSubmit({
+      title: title.trim(),
+      price: parsePrice(price),
+      currency,
+      notes: notes.trim(),
+      images,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="manual-title">اسم المنتج *</Label>
+        <Input id="manual-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="مثال: ساعة ذكية رياضية" />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="manual-price">السعر</Label>
+          <Input id="manual-price" inputMode="decimal" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="199" dir="ltr" />
+        </div>
+        <div className="space-y-2">
+          <Label>العملة</Label>
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((c) => (
+                <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="manual-notes">ملاحظات عن المنتج</Label>
+        <Textarea
+          id="manual-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="المواصفات، المقاسات، ما يميز المنتج..."
+          rows={4}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>صور المنتج</Label>
+        <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+          {images.map((image, index) => (
+            <div key={index} className="relative aspect-square">
+              <img src={image} alt={`صورة ${index + 1}`} className="h-full w-full rounded-md object-cover" />
+              <button
+                type="button"
+                onClick={() => setImages((prev) => prev.filter((_, i) => i !== index))}
+                className="absolute top-1 left-1 rounded-full bg-black/60 p-0.5 text-white"
+                aria-label="حذف الصورة"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {images.length < MAX_IMAGES && (
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              className="flex aspect-square items-center justify-center rounded-md border-2 border-dashed text-muted-foreground hover:bg-muted/50"
+              aria-label="إضافة صور"
+            >
+              <ImagePlus className="h-6 w-6" />
+            </button>
+          )}
+        </div>
+        <input ref={fileInput} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+      </div>
+
+      <Button type="submit" disabled={isGenerating} className="w-full gradient-saas hover:opacity-90">
+        {isGenerating ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+            جاري الإنشاء...
+          </>
+        ) : (
+          <>
+            إنشاء الصفحة
+            <ArrowRight className="h-4 w-4 mr-2" />
+          </>
+        )}
+      </Button>
+    </form>
+  );
+};
+
+export default ManualProductForm;
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { ExternalLink, EyeOff, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { getExportSettings } from "@/lib/export";
+import { orderPagePath, publishHosted, setPageSlug, slugError, suggestSlug, unpublishHosted } from "@/lib/pages/hosting";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+interface OrderPageSettingsProps {
+  page: GeneratedPage;
+}
+
+const OrderPageSettings = ({ page }: OrderPageSettingsProps) => {
+  const [slug, setSlug] = useState(() => page.slug ?? suggestSlug(page));
+  const { toast } = useToast();
+  const isLive = !!page.hosted;
+  const url = page.slug ? `${window.location.origin}${orderPagePath(page.slug)}` : '';
+  const error = slug === page.slug ? null : slugError(slug, page.id);
+  const hasEndpoint = !!getExportSettings().ordersEndpoint;
+
+  useEffect(() => {
+    if (page.slug) setSlug(page.slug);
+  }, [page.slug]);
+
+  const handleSave = () => {
+    setPageSlug(page.id, slug);
+    toast({ title: "تم تغيير الرابط", description: "الروابط القديمة تُحوَّل تلقائياً إلى الرابط الجديد" });
+  };
+
+  const handlePublish = () => {
+    if (!page.slug) setPageSlug(page.id, slug);
+    publishHosted(page.id);
+    toast({ title: "تم تفعيل صفحة الطلب", description: "تفتح في هذا المتصفح فقط" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>صفحة الطلب على هذا الجهاز</CardTitle>
+        <CardDescription>
+          تفتح الصفحة في هذا المتصفح فقط لتسجيل الطلبات منه، مثل طلبات الهاتف، وتظهر في شاشة الطلبات. لنشرها للزوار صدّرها أو انشرها على ووردبريس أو Shopify
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="page-slug">الرابط</Label>
+          <div className="flex items-center gap-2" dir="ltr">
+            <span className="text-sm text-muted-foreground">/p/</span>
+            <Input id="page-slug" value={slug} onChange={(e) => setSlug(e.target.value.trim().toLowerCase())} />
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          {hasEndpoint && (
+            <p className="text-xs text-muted-foreground">تُرسل الطلبات أيضاً إلى رابط استقبال الطلبات</p>
+          )}
+          {page.slug && slug !== page.slug && (
+            <Button variant="outline" size="sm" className="w-full" disabled={!!error} onClick={handleSave}>
+              حفظ الرابط الجديد
+            </Button>
+          )}
+        </div>
+
+        {isLive && url && (
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <a href={url} target="_blank" rel="noreferrer">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              فتح صفحة الطلب
+            </a>
+          </Button>
+        )}
+
+        {isLive ? (
+          <Button variant="ghost" className="w-full" onClick={() => unpublishHosted(page.id)}>
+            <EyeOff className="h-4 w-4 mr-2" />
+            إيقاف صفحة الطلب
+          </Button>
+        ) : (
+          <Button className="w-full" disabled={!page.slug && !!error} onClick={handlePublish}>
+            <Smartphone className="h-4 w-4 mr-2" />
+            تفعيل صفحة الطلب
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderPageSettings;
@@ -0,0 +1,195 @@
+import { useEffect, useMemo } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { applySettings, pageSettingsSchema, settingsFromPage, type PageSettings } from "@/lib/landing";
+import { clearDraft, loadDraft, saveDraft } from "@/lib/pages/drafts";
+import { editPage } from "@/lib/pages/revisions";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+interface PageSettingsFormProps {
+  page: GeneratedPage;
+  // Receives the pending values while the form is dirty, and null once saved or discarded.
+  onDraftChange: (draft: PageSettings | null) => void;
+}
+
+const PageSettingsForm = ({ page, onDraftChange }: PageSettingsFormProps) => {
+  const { toast } = useToast();
+  const saved = useMemo(() => settingsFromPage(page.content), [page.content]);
+  const form = useForm<PageSettings>({
+    resolver: zodResolver(pageSettingsSchema),
+    defaultValues: saved,
+    mode: 'onChange',
+  });
+  const values = useWatch({ control: form.control });
+  const { isDirty, dirtyFields } = form.formState;
+  // Orders keep decrementing stock, so the field only counts when edited in this session.
+  const stockEdited = !!dirtyFields.stock;
+
+  // Changes made elsewhere (regeneration, lint fixes) flow in unless the user is mid-edit;
+  // stock follows orders unless it is the field being edited.
+  useEffect(() => {
+    if (!form.formState.isDirty) form.reset(saved);
+    else if (!form.getFieldState('stock').isDirty) form.resetField('stock', { defaultValue: saved.stock });
+  }, [form, saved]);
+
+  // Pending edits are autosaved as a draft and restored after a reload.
+  useEffect(() => {
+    const draft = loadDraft<PageSettings>(page.id);
+    if (!draft) return;
+    // Drafts from older versions of the form may lack newer fields, and may
+    // still carry a stock count that orders have since moved.
+    const { stock, ...restored } = draft.values;
+    form.reset({ ...form.getValues(), ...restored }, { keepDefaultValues: true });
+    toast({
+      title: "تمت استعادة مسودة",
+      description: "تعديلات لم تُحفظ من جلسة سابقة",
+    });
+  }, [form, page.id, toast]);
+
+  useEffect(() => {
+    const { stock, ...drafted } = values;
+    onDraftChange(isDirty ? { ...saved, ...drafted, ...(stockEdited && { stock }) } : null);
+    if (isDirty) saveDraft(page.id, drafted);
+    else clearDraft(page.id);
+  }, [isDirty, stockEdited, values, saved, page.id, onDraftChange]);
+
+  useEffect(() => () => onDraftChange(null), [onDraftChange]);
+
+  const handleSubmit = (settings: PageSettings) => {
+    editPage(page.id, 'تعديل الإعدادات', (current) => ({
+      ...current,
+      title: settings.headline,
+      content: applySettings(
+        current.content,
+        stockEdited ? settings : { ...settings, stock: settingsFromPage(current.content).stock }
+      ),
+    }));
+    form.reset(settings);
+    toast({
+      title: "تم حفظ الإعدادات",
+      description: "تم تحديث محتوى الصفحة",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>إعدادات الصفحة</CardTitle>
+            <CardDescription>تخصيص محتوى الصفحة</CardDescription>
+          </div>
+          {isDirty && (
+            <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">
+              تغييرات غير محفوظة
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="headline"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>عنوان المنتج</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="badge"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>شارة العرض</FormLabel>
+                  <FormControl>
+                    <Input placeholder="مثال: خصم حصري 30%" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>السعر</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" dir="ltr" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="originalPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>السعر قبل الخصم</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" dir="ltr" placeholder="اختياري" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="stock"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>المخزون المتوفر</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" dir="ltr" placeholder="اختياري" {...field} />
+                  </FormControl>
+                  <FormDescription>يُستخدم لتنبيه «الكمية المتبقية» في العداد التنازلي</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>الوصف</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={!isDirty}>
+                حفظ التغييرات
+              </Button>
+              <Button type="button" variant="outline" disabled={!isDirty} onClick={() => form.reset(saved)}>
+                تجاهل
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PageSettingsForm;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { ExternalLink, Globe } from "lucide-react";
+import type { z } from "zod";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { getExportSettings } from "@/lib/export";
+import { findPublication, publishPageToShopify, publishPageToWordPress } from "@/lib/pages/publish";
+import type { GeneratedPage } from "@/lib/pages/types";
+import {
+  getConnection,
+  PUBLISH_PLATFORM_LABELS,
+  setConnection,
+  shopifyConnectionSchema,
+  wordpressConnectionSchema,
+  type PublishPlatform,
+  type PublishResource,
+} from "@/lib/publish";
+
+interface ConnectionField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  type?: 'url' | 'password' | 'select';
+  // Choices for select fields; the first one is the default.
+  options?: { value: string; label: string }[];
+  hint?: string;
+}
+
+interface PlatformForm<T = unknown> {
+  description: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  fields: ConnectionField[];
+  // Identifies the remote item a connection publishes to; without a site, the
+  // server decides which one.
+  target: (connection: T) => { site?: string; resource?: PublishResource };
+  publish: (pageId: string, connection: T) => Promise<unknown>;
+}
+
+const platformForm = <T,>(form: PlatformForm<T>) => form as PlatformForm;
+
+const PLATFORM_FORMS: Record<PublishPlatform, PlatformForm> = {
+  wordpress: platformForm({
+    description: 'تُنشر الصفحة عبر REST API، وإعادة النشر تحدّث الصفحة نفسها',
+    schema: wordpressConnectionSchema,
+    fields: [
+      { key: 'siteUrl', label: 'رابط الموقع', placeholder: 'https://example.com', type: 'url' },
+      { key: 'username', label: 'اسم المستخدم' },
+      {
+        key: 'applicationPassword',
+        label: 'كلمة مرور التطبيق',
+        type: 'password',
+        hint: 'من لوحة ووردبريس: المستخدمون ← الملف الشخصي ← كلمات مرور التطبيقات. لا تُحفظ بعد إغلاق هذه النافذة',
+      },
+    ],
+    target: (connection) => ({ site: connection.siteUrl }),
+    publish: (pageId, connection) => publishPageToWordPress(pageId, connection),
+  }),
+  shopify: platformForm({
+    description: 'تُنشر عبر Admin API في المتجر المضبوط على الخادم، وإعادة النشر تحدّث نفس الصفحة أو المنتج',
+    schema: shopifyConnectionSchema,
+    fields: [
+      {
+        key: 'resource',
+        label: 'النشر كـ',
+        type: 'select',
+        options: [
+          { value: 'page', label: 'صفحة في المتجر' },
+          { value: 'product', label: 'منتج بقالب الصفحة' },
+        ],
+        hint: 'نطاق المتجر ومفتاح Admin API يُضبطان على الخادم ولا يُحفظان في المتصفح',
+      },
+    ],
+    target: (connection) => ({ resource: connection.resource }),
+    publish: (pageId, connection) => publishPageToShopify(pageId, connection),
+  }),
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('ar', { dateStyle: 'medium', timeStyle: 'short' });
+
+interface PublishDialogProps {
+  page: GeneratedPage;
+  platform: PublishPlatform | null;
+  onClose: () => void;
+}
+
+const PublishDialog = ({ page, platform, onClose }: PublishDialogProps) => {
+  const form = platform && PLATFORM_FORMS[platform];
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!platform) return;
+    setValues(getConnection(platform) as Record<string, string>);
+    setError(null);
+  }, [platform]);
+
+  const parsed = form?.schema.safeParse(values);
+  const target = parsed?.success && form.target(parsed.data);
+  const publication = target ? findPublication(page, platform, target.site, target.resource) : undefined;
+  const hasEndpoint = !!getExportSettings().ordersEndpoint;
+
+  const handlePublish = async () => {
+    if (!parsed?.success) return;
+    setConnection(platform, parsed.data);
+    setError(null);
+    setIsPublishing(true);
+    try {
+      await form.publish(page.id, parsed.data);
+      toast({ title: "تم النشر بنجاح", description: `تم نشر الصفحة على ${PUBLISH_PLATFORM_LABELS[platform]}` });
+      onClose();
+    } catch (publishError) {
+      const message = publishError instanceof Error ? publishError.message : 'حدث خطأ غير متوقع';
+      setError(message);
+      toast({ title: "تعذر النشر", description: message, variant: "destructive" });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!platform} onOpenChange={(open) => !open && !isPublishing && onClose()}>
+      {form && (
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>النشر على {PUBLISH_PLATFORM_LABELS[platform]}</DialogTitle>
+            <DialogDescription>{form.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {form.fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`publish-${field.key}`}>{field.label}</Label>
+                {field.type === 'select' ? (
+                  <Select
+                    value={values[field.key] ?? field.options[0].value}
+                    onValueChange={(value) => setValues((current) => ({ ...current, [field.key]: value }))}
+                  >
+                    <SelectTrigger id={`publish-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`publish-${field.key}`}
+                    type={field.type ?? 'text'}
+                    dir="ltr"
+                    autoComplete="off"
+                    value={values[field.key] ?? ''}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                  />
+                )}
+                {field.hint && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+              </div>
+            ))}
+
+            {publication && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                منشورة منذ {formatDate(publication.publishedAt)}
+                {publication.url && (
+                  <a href={publication.url} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 text-primary">
+                    <ExternalLink className="h-3.5 w-3.5" />
+                    عرض
+                  </a>
+                )}
+              </p>
+            )}
+
+            {!hasEndpoint && (
+              <p className="text-xs text-warning">لم يُضبط رابط استقبال الطلبات بعد، اضبطه من نافذة تحميل HTML</p>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={onClose} disabled={isPublishing}>
+              إلغاء
+            </Button>
+            <Button onClick={handlePublish} disabled={!parsed?.success || isPublishing}>
+              <Globe className="h-4 w-4 mr-2" />
+              {isPublishing ? 'جاري النشر...' : publication ? 'تحديث المنشور' : 'نشر'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+};
+
+export default PublishDialog;
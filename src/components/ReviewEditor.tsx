@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from "react";
+import { ImagePlus, Loader2, Star, X } from "lucide-react";
+import AssetImage from "@/components/AssetImage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { assetRef, importImage } from "@/lib/assets";
+import type { Review } from "@/lib/landing";
+
+const MAX_PHOTOS = 4;
+
+interface ReviewEditorProps {
+  review: Review | null;
+  onClose: () => void;
+  onSave: (review: Review) => void;
+}
+
+const ReviewEditor = ({ review, onClose, onSave }: ReviewEditorProps) => {
+  const [draft, setDraft] = useState<Review | null>(review);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => setDraft(review), [review]);
+
+  const update = (patch: Partial<Review>) => setDraft((current) => ({ ...current, ...patch }));
+  const isValid = draft && draft.author.trim() && draft.text.trim();
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS - (draft?.photos.length ?? 0));
+    e.target.value = '';
+    setUploading(true);
+    for (const file of files) {
+      try {
+        const ref = assetRef((await importImage(file)).id);
+        setDraft((current) => current && { ...current, photos: Array.from(new Set([...current.photos, ref])) });
+      } catch (error) {
+        toast({
+          title: "تعذر رفع الصورة",
+          description: error instanceof Error ? error.message : file.name,
+          variant: "destructive",
+        });
+      }
+    }
+    setUploading(false);
+  };
+
+  return (
+    <Dialog open={!!review} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{review?.source === 'imported' ? 'تعديل تقييم مستورد' : 'تقييم عميل'}</DialogTitle>
+          <DialogDescription>يظهر التقييم في الصفحة بعد قبوله</DialogDescription>
+        </DialogHeader>
+
+        {draft && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-author">اسم العميل</Label>
+                <Input id="review-author" value={draft.author} onChange={(e) => update({ author: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="review-city">المدينة</Label>
+                <Input
+                  id="review-city"
+                  value={draft.city ?? ''}
+                  placeholder="الرياض"
+                  onChange={(e) => update({ city: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>التقييم</Label>
+              <div className="flex gap-1" role="radiogroup">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={draft.rating === value}
+                    aria-label={`${value} من 5`}
+                    onClick={() => update({ rating: value })}
+                  >
+                    <Star className={`h-6 w-6 ${value <= draft.rating ? 'text-warning fill-warning' : 'text-muted-foreground/40'}`} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="review-text">نص التقييم</Label>
+              <Textarea id="review-text" rows={4} value={draft.text} onChange={(e) => update({ text: e.target.value })} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>صور العميل</Label>
+              <div className="flex flex-wrap gap-2">
+                {draft.photos.map((photo) => (
+                  <div key={photo} className="relative">
+                    <AssetImage src={photo} size={480} alt="" className="h-16 w-16 object-cover rounded-md" />
+                    <button
+                      type="button"
+                      className="absolute -top-2 -left-2 rounded-full bg-background border p-0.5"
+                      onClick={() => update({ photos: draft.photos.filter((p) => p !== photo) })}
+                      aria-label="حذف الصورة"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                {draft.photos.length < MAX_PHOTOS && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="h-16 w-16"
+                    disabled={uploading}
+                    onClick={() => fileInput.current?.click()}
+                    aria-label="إضافة صورة"
+                  >
+                    {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+              <input ref={fileInput} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>إلغاء</Button>
+          <Button disabled={!isValid || uploading} onClick={() => draft && onSave(draft)}>حفظ</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewEditor;
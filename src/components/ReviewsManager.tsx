@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Check, Download, EyeOff, Loader2, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import ReviewEditor from "@/components/ReviewEditor";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createReviewId,
+  findSection,
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUSES,
+  updateReviews,
+  type Review,
+  type ReviewStatus,
+} from "@/lib/landing";
+import { importReviews } from "@/lib/pages/reviews";
+import { editContent } from "@/lib/pages/revisions";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+const STATUS_ACTION_LABELS: Record<ReviewStatus, string> = {
+  pending: 'إعادة تقييم إلى المراجعة',
+  approved: 'قبول تقييم',
+  hidden: 'إخفاء تقييم',
+};
+
+const emptyReview = (): Review => ({
+  id: createReviewId(),
+  author: '',
+  rating: 5,
+  text: '',
+  photos: [],
+  source: 'manual',
+  status: 'approved',
+});
+
+interface ReviewsManagerProps {
+  page: GeneratedPage;
+}
+
+const ReviewsManager = ({ page }: ReviewsManagerProps) => {
+  const [editing, setEditing] = useState<Review | null>(null);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+  const reviews = findSection(page.content, 'reviews')?.items ?? [];
+  const pending = reviews.filter((review) => review.status === 'pending').length;
+
+  const edit = (label: string, update: (items: Review[]) => Review[]) =>
+    editContent(page.id, label, (content) => updateReviews(content, update));
+
+  const setStatus = (id: string, status: ReviewStatus) =>
+    edit(STATUS_ACTION_LABELS[status], (items) => items.map((review) => (review.id === id ? { ...review, status } : review)));
+
+  const handleSave = (review: Review) => {
+    const exists = reviews.some((r) => r.id === review.id);
+    edit(exists ? 'تعديل تقييم' : 'إضافة تقييم', (items) =>
+      exists ? items.map((r) => (r.id === review.id ? review : r)) : [...items, review]
+    );
+    setEditing(null);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const count = await importReviews(page.id);
+      toast({
+        title: count ? `تم استيراد ${count} تقييم` : "لا توجد تقييمات جديدة",
+        description: count ? "راجع التقييمات واقبلها قبل ظهورها في الصفحة" : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "تعذر استيراد التقييمات",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>تقييمات العملاء</CardTitle>
+        <CardDescription>
+          {pending ? `${pending} تقييم بانتظار المراجعة` : 'تظهر التقييمات في الصفحة بعد قبولها'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => setEditing(emptyReview())}>
+            <Plus className="h-4 w-4 mr-2" />
+            إضافة تقييم
+          </Button>
+          {page.source !== 'manual' && (
+            <Button variant="outline" size="sm" className="flex-1" disabled={importing} onClick={handleImport}>
+              {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              استيراد من المصدر
+            </Button>
+          )}
+        </div>
+
+        <Tabs defaultValue={pending ? 'pending' : 'approved'} dir="rtl">
+          <TabsList className="grid w-full grid-cols-3">
+            {REVIEW_STATUSES.map((status) => (
+              <TabsTrigger key={status} value={status} className="text-xs">
+                {REVIEW_STATUS_LABELS[status]} ({reviews.filter((review) => review.status === status).length})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {REVIEW_STATUSES.map((status) => {
+            const items = reviews.filter((review) => review.status === status);
+            return (
+              <TabsContent key={status} value={status} className="space-y-2">
+                {items.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">لا توجد تقييمات</p>
+                )}
+                {items.map((review) => (
+                  <div key={review.id} className="rounded-md border p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium truncate">
+                        {review.author}
+                        {review.city && <span className="text-muted-foreground"> — {review.city}</span>}
+                      </span>
+                      <span className="flex items-center text-xs text-muted-foreground shrink-0">
+                        {review.rating}
+                        <Star className="h-3 w-3 mr-1 text-warning fill-warning" />
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{review.text}</p>
+                    <div className="flex items-center gap-1">
+                      {review.source === 'imported' && <Badge variant="secondary" className="text-[10px]">مستورد</Badge>}
+                      {review.photos.length > 0 && (
+                        <Badge variant="outline" className="text-[10px]">{review.photos.length} صور</Badge>
+                      )}
+                      <div className="flex-1" />
+                      {status !== 'approved' && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setStatus(review.id, 'approved')} title="قبول">
+                          <Check className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {status !== 'hidden' && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setStatus(review.id, 'hidden')} title="إخفاء">
+                          <EyeOff className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setEditing(review)} title="تعديل">
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-destructive"
+                        onClick={() => edit('حذف تقييم', (all) => all.filter((r) => r.id !== review.id))}
+                        title="حذف"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </CardContent>
+
+      <ReviewEditor review={editing} onClose={() => setEditing(null)} onSave={handleSave} />
+    </Card>
+  );
+};
+
+export default ReviewsManager;
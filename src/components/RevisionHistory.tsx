@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitCompare, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getEditorName, setEditorName } from "@/lib/editor";
+import { diffLandingPages } from "@/lib/landing";
+import { restoreRevision } from "@/lib/pages/revisions";
+import type { GeneratedPage, PageRevision } from "@/lib/pages/types";
+
+const CURRENT = 'current';
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('ar', { dateStyle: 'medium', timeStyle: 'short' });
+
+interface RevisionHistoryProps {
+  page: GeneratedPage;
+}
+
+const RevisionHistory = ({ page }: RevisionHistoryProps) => {
+  const { toast } = useToast();
+  const [editorName, setEditorNameDraft] = useState(getEditorName);
+  const [selected, setSelected] = useState<PageRevision | null>(null);
+  const [baseId, setBaseId] = useState(CURRENT);
+  const revisions = page.revisions ?? [];
+  const newestFirst = [...revisions].reverse();
+
+  const openDiff = (revision: PageRevision) => {
+    setSelected(revision);
+    setBaseId(CURRENT);
+  };
+
+  const handleRestore = (revision: PageRevision) => {
+    restoreRevision(page.id, revision.id);
+    setSelected(null);
+    toast({
+      title: "تمت استعادة النسخة",
+      description: `${revision.label} — ${formatTime(revision.createdAt)}`,
+    });
+  };
+
+  const earlier = selected ? revisions.slice(0, revisions.indexOf(selected)) : [];
+  const base = baseId === CURRENT ? page.content : revisions.find((r) => r.id === baseId)?.content;
+  const changes = selected && base ? diffLandingPages(base, selected.content) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>سجل التعديلات</CardTitle>
+        <CardDescription>
+          {revisions.length ? `${revisions.length} نسخة محفوظة` : 'تُحفظ التعديلات تلقائياً هنا'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="editor-name">اسم المحرر</Label>
+          <Input
+            id="editor-name"
+            value={editorName}
+            onChange={(e) => setEditorNameDraft(e.target.value)}
+            onBlur={() => setEditorName(editorName)}
+          />
+        </div>
+
+        {newestFirst.length > 0 && (
+          <ul className="space-y-2 max-h-80 overflow-auto">
+            {newestFirst.map((revision, index) => (
+              <li key={revision.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{revision.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.author} · {formatTime(revision.createdAt)}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => openDiff(revision)} title="عرض الفروقات">
+                    <GitCompare className="h-3.5 w-3.5" />
+                  </Button>
+                  {index > 0 && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleRestore(revision)} title="استعادة">
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.label}</DialogTitle>
+            <DialogDescription>
+              {selected && `${selected.author} · ${formatTime(selected.createdAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>مقارنة مع</Label>
+            <Select value={baseId} onValueChange={setBaseId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT}>النسخة الحالية</SelectItem>
+                {[...earlier].reverse().map((revision) => (
+                  <SelectItem key={revision.id} value={revision.id}>
+                    {revision.label} — {revision.author} · {formatTime(revision.createdAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">لا توجد فروقات</p>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-auto">
+              {changes.map((change) => (
+                <li key={change.key} className="rounded-md border p-3 text-sm space-y-1">
+                  <p className="font-medium">{change.label}</p>
+                  {change.before !== undefined && (
+                    <p className="rounded bg-red-50 px-2 py-1 text-red-800 line-through">{change.before}</p>
+                  )}
+                  {change.after !== undefined && (
+                    <p className="rounded bg-green-50 px-2 py-1 text-green-800">{change.after}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button onClick={() => selected && handleRestore(selected)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              استعادة هذه النسخة
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RevisionHistory;
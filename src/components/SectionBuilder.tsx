@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Copy, Eye, EyeOff, GripVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import CountdownEditor from "@/components/CountdownEditor";
+import FaqEditor from "@/components/FaqEditor";
+import {
+  createSection,
+  duplicateSection,
+  insertSection,
+  moveSection,
+  removeSection,
+  replaceSection,
+  SECTION_TYPE_DESCRIPTIONS,
+  SECTION_TYPE_LABELS,
+  toggleSectionHidden,
+  totalStock,
+  type LandingPage,
+  type SectionType,
+} from "@/lib/landing";
+import { editContent } from "@/lib/pages/revisions";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+interface SectionBuilderProps {
+  page: GeneratedPage;
+}
+
+const SectionBuilder = ({ page }: SectionBuilderProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const sections = page.content.sections;
+  const editing = sections.find((section) => section.id === editingId);
+
+  const edit = (label: string, update: (content: LandingPage) => LandingPage) => editContent(page.id, label, update);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) edit('إعادة ترتيب الأقسام', (content) => moveSection(content, dragIndex, index));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Keyboard users reorder with the arrow keys on the drag handle.
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const offset = event.key === 'ArrowUp' ? -1 : event.key === 'ArrowDown' ? 1 : 0;
+    if (!offset) return;
+    event.preventDefault();
+    edit('إعادة ترتيب الأقسام', (content) => moveSection(content, index, index + offset));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>أقسام الصفحة</CardTitle>
+            <CardDescription>اسحب الأقسام لإعادة ترتيبها</CardDescription>
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                إضافة قسم
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64">
+              <DropdownMenuLabel>مكتبة الأقسام</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {(Object.keys(SECTION_TYPE_LABELS) as SectionType[]).map((type) => (
+                <DropdownMenuItem
+                  key={type}
+                  className="flex-col items-start"
+                  onSelect={() => edit('إضافة قسم', (content) => insertSection(content, createSection(type)))}
+                >
+                  <span className="font-medium">{SECTION_TYPE_LABELS[type]}</span>
+                  <span className="text-xs text-muted-foreground">{SECTION_TYPE_DESCRIPTIONS[type]}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {sections.map((section, index) => (
+            <li
+              key={section.id}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={() => handleDrop(index)}
+              className={`flex items-center gap-2 rounded-md border p-2 transition-colors ${
+                dropIndex === index && dragIndex !== index ? 'border-primary bg-accent' : ''
+              } ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <button
+                type="button"
+                draggable
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                onKeyDown={(event) => handleKeyDown(event, index)}
+                className="cursor-grab text-muted-foreground"
+                aria-label={`نقل ${SECTION_TYPE_LABELS[section.type]}`}
+              >
+                <GripVertical className="h-4 w-4" />
+              </button>
+              <span className={`flex-1 text-sm ${section.hidden ? 'text-muted-foreground line-through' : ''}`}>
+                {SECTION_TYPE_LABELS[section.type]}
+              </span>
+              {(section.type === 'countdown' || section.type === 'faq') && (
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setEditingId(section.id)} title="تعديل">
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => edit('إظهار أو إخفاء قسم', (content) => toggleSectionHidden(content, section.id))}
+                title={section.hidden ? 'إظهار' : 'إخفاء'}
+              >
+                {section.hidden ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => edit('تكرار قسم', (content) => duplicateSection(content, section.id))}
+                title="تكرار"
+              >
+                <Copy className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-destructive"
+                onClick={() => edit('حذف قسم', (content) => removeSection(content, section.id))}
+                title="حذف"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+
+      <CountdownEditor
+        section={editing?.type === 'countdown' ? editing : null}
+        stock={totalStock(page.content.offer)}
+        onClose={() => setEditingId(null)}
+        onSave={(section) => {
+          edit('تعديل العداد التنازلي', (content) => replaceSection(content, section));
+          setEditingId(null);
+        }}
+      />
+
+      <FaqEditor
+        section={editing?.type === 'faq' ? editing : null}
+        currency={page.content.offer.currency}
+        onClose={() => setEditingId(null)}
+        onSave={(section) => {
+          edit('تعديل الأسئلة الشائعة', (content) => replaceSection(content, section));
+          setEditingId(null);
+        }}
+      />
+    </Card>
+  );
+};
+
+export default SectionBuilder;
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { History, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFrameDocument } from "@/hooks/use-frame-document";
+import type { CopySection } from "@/lib/copy/prompts";
+import { regenerateSection, SECTION_LABELS, selectSectionVariant } from "@/lib/pages/copy";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+interface SectionControlsProps {
+  page: GeneratedPage;
+  section: CopySection;
+}
+
+const variantPreview = (value: unknown) => {
+  const text = typeof value === 'string'
+    ? value
+    : Array.isArray(value)
+      ? value.map((item) => (typeof item === 'string' ? item : item.question)).join('، ')
+      : '';
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+const SectionControls = ({ page, section }: SectionControlsProps) => {
+  const { toast } = useToast();
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const frameDocument = useFrameDocument();
+  const history = page.history?.[section];
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      await regenerateSection(page.id, section);
+    } catch (error) {
+      toast({
+        title: `تعذر إعادة توليد ${SECTION_LABELS[section]}`,
+        description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  if (!page.product || !page.content) return null;
+
+  return (
+    <div className="absolute top-0 left-0 z-10 flex gap-1 rounded-md bg-white/90 p-1 shadow-sm opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2"
+        onClick={handleRegenerate}
+        disabled={isRegenerating}
+        title={`إعادة توليد ${SECTION_LABELS[section]}`}
+      >
+        <RefreshCw className={`h-3.5 w-3.5 ${isRegenerating ? 'animate-spin' : ''}`} />
+      </Button>
+      {history && history.variants.length > 1 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs">
+              <History className="h-3.5 w-3.5" />
+              {history.active + 1}/{history.variants.length}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-72" container={frameDocument?.body}>
+            <DropdownMenuLabel>نسخ {SECTION_LABELS[section]}</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={String(history.active)}
+              onValueChange={(value) => selectSectionVariant(page.id, section, Number(value))}
+            >
+              {history.variants.map((variant, index) => (
+                <DropdownMenuRadioItem key={index} value={String(index)} className="flex-col items-start">
+                  <span className="text-xs text-muted-foreground">
+                    النسخة {index + 1} · {new Date(variant.createdAt).toLocaleString('ar')}
+                  </span>
+                  <span className="text-sm">{variantPreview(variant.value)}</span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+};
+
+export default SectionControls;
@@ -0,0 +1,58 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check } from "lucide-react";
+import { getTemplate, LANDING_TEMPLATES } from "@/lib/landing";
+import { editContent } from "@/lib/pages/revisions";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+interface TemplatePickerProps {
+  page: GeneratedPage;
+}
+
+const swatch = (value: string | undefined, fallback: string) => `hsl(${value ?? fallback})`;
+
+const TemplatePicker = ({ page }: TemplatePickerProps) => {
+  const current = getTemplate(page.content.template);
+
+  const selectTemplate = (id: string) =>
+    editContent(page.id, 'تغيير القالب', (content) => ({ ...content, template: id }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>قالب الصفحة</CardTitle>
+        <CardDescription>يغيّر الألوان والخطوط والتخطيط دون المساس بالمحتوى</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-3">
+          {LANDING_TEMPLATES.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => selectTemplate(template.id)}
+              className={`relative rounded-lg border p-3 text-start transition-colors hover:bg-accent ${
+                current.id === template.id ? 'border-primary ring-1 ring-primary' : ''
+              }`}
+            >
+              {current.id === template.id && <Check className="absolute top-2 left-2 h-4 w-4 text-primary" />}
+              <div className="flex gap-1 mb-2">
+                {[
+                  swatch(template.palette.primary, '217 91% 60%'),
+                  swatch(template.palette.success, '142 76% 36%'),
+                  swatch(template.palette.background, '0 0% 100%'),
+                ].map((color, index) => (
+                  <span key={index} className="h-5 w-5 rounded-full border" style={{ background: color }} />
+                ))}
+              </div>
+              <p className="text-sm font-medium" style={{ fontFamily: template.typography.fontFamily }}>
+                {template.label}
+              </p>
+              <p className="text-xs text-muted-foreground">{template.description}</p>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TemplatePicker;
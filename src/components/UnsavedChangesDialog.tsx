@@ -0,0 +1,34 @@
+import type { Blocker } from "react-router-dom";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface UnsavedChangesDialogProps {
+  blocker: Blocker;
+}
+
+const UnsavedChangesDialog = ({ blocker }: UnsavedChangesDialogProps) => (
+  <AlertDialog open={blocker.state === 'blocked'} onOpenChange={(open) => !open && blocker.reset?.()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>تغييرات غير محفوظة</AlertDialogTitle>
+        <AlertDialogDescription>
+          لديك تعديلات لم يتم حفظها بعد. ستبقى محفوظة كمسودة ويمكنك متابعتها عند العودة.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={() => blocker.reset?.()}>البقاء في الصفحة</AlertDialogCancel>
+        <AlertDialogAction onClick={() => blocker.proceed?.()}>مغادرة الصفحة</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default UnsavedChangesDialog;
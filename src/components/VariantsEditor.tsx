@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import AssetImage from "@/components/AssetImage";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatPrice } from "@/lib/format";
+import { buildVariants, pageImages, variantLabel, type Variant, type VariantOption } from "@/lib/landing";
+import { editContent } from "@/lib/pages/revisions";
+import type { GeneratedPage } from "@/lib/pages/types";
+
+const MAX_OPTIONS = 3;
+const NO_IMAGE = 'none';
+
+interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+const parseOptions = (drafts: OptionDraft[]): VariantOption[] =>
+  drafts.map((draft) => ({
+    name: draft.name.trim(),
+    values: Array.from(new Set(draft.values.split(/[,،]/).map((value) => value.trim()).filter(Boolean))),
+  }));
+
+const toDrafts = (options: VariantOption[]): OptionDraft[] =>
+  options.map((option) => ({ name: option.name, values: option.values.join('، ') }));
+
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)));
+
+interface VariantsEditorProps {
+  page: GeneratedPage;
+}
+
+const VariantsEditor = ({ page }: VariantsEditorProps) => {
+  const { offer } = page.content;
+  const [options, setOptions] = useState<OptionDraft[]>(() => toDrafts(offer.options));
+  const [variants, setVariants] = useState<Variant[]>(offer.variants);
+  const images = pageImages(page.content);
+
+  // Undo, redo and restores replace the offer underneath the draft.
+  useEffect(() => {
+    setOptions(toDrafts(offer.options));
+    setVariants(offer.variants);
+  }, [offer.options, offer.variants]);
+
+  const updateOptions = (next: OptionDraft[]) => {
+    setOptions(next);
+    setVariants((current) => buildVariants(parseOptions(next), current));
+  };
+
+  const updateVariant = (id: string, patch: Partial<Variant>) =>
+    setVariants((current) => current.map((variant) => (variant.id === id ? { ...variant, ...patch } : variant)));
+
+  const parsed = parseOptions(options);
+  const names = parsed.map((option) => option.name);
+  const isValid = parsed.every((option) => option.name && option.values.length) && new Set(names).size === names.length;
+  const isDirty = JSON.stringify({ options: parsed, variants }) !== JSON.stringify({ options: offer.options, variants: offer.variants });
+
+  const handleSave = () =>
+    editContent(page.id, 'تعديل خيارات المنتج', (content) => ({
+      ...content,
+      offer: { ...content.offer, options: parsed, variants },
+    }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>خيارات المنتج</CardTitle>
+        <CardDescription>مقاسات أو ألوان لكل منها سعر ومخزون وصورة</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {options.map((option, index) => (
+          <div key={index} className="flex items-end gap-2">
+            <div className="w-24 space-y-1">
+              <Label htmlFor={`option-name-${index}`} className="text-xs">الخيار</Label>
+              <Input
+                id={`option-name-${index}`}
+                value={option.name}
+                placeholder="المقاس"
+                onChange={(e) => updateOptions(options.map((o, i) => (i === index ? { ...o, name: e.target.value } : o)))}
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label htmlFor={`option-values-${index}`} className="text-xs">القيم (مفصولة بفاصلة)</Label>
+              <Input
+                id={`option-values-${index}`}
+                value={option.values}
+                placeholder="S، M، L"
+                onChange={(e) => updateOptions(options.map((o, i) => (i === index ? { ...o, values: e.target.value } : o)))}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-10 px-2 text-destructive"
+              onClick={() => updateOptions(options.filter((_, i) => i !== index))}
+              title="حذف"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {options.length < MAX_OPTIONS && (
+          <Button variant="outline" size="sm" onClick={() => updateOptions([...options, { name: '', values: '' }])}>
+            <Plus className="h-4 w-4 mr-2" />
+            إضافة خيار
+          </Button>
+        )}
+
+        {variants.length > 0 && (
+          <div className="space-y-2">
+            {variants.map((variant) => (
+              <div key={variant.id} className="rounded-md border p-2 space-y-2">
+                <p className="text-sm font-medium">{variantLabel(variant, parsed)}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    dir="ltr"
+                    aria-label="السعر"
+                    placeholder={offer.price === undefined ? 'السعر' : formatPrice(offer.price, offer.currency)}
+                    value={variant.price ?? ''}
+                    onChange={(e) => updateVariant(variant.id, { price: toNumber(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    dir="ltr"
+                    aria-label="المخزون"
+                    placeholder={offer.stock === undefined ? 'المخزون' : String(offer.stock)}
+                    value={variant.stock ?? ''}
+                    onChange={(e) => updateVariant(variant.id, { stock: toNumber(e.target.value) })}
+                  />
+                  <Select
+                    value={variant.image ?? NO_IMAGE}
+                    onValueChange={(value) => updateVariant(variant.id, { image: value === NO_IMAGE ? undefined : value })}
+                  >
+                    <SelectTrigger aria-label="الصورة">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_IMAGE}>بدون صورة</SelectItem>
+                      {images.map((image, index) => (
+                        <SelectItem key={image} value={image}>
+                          <span className="flex items-center gap-2">
+                            <AssetImage src={image} size={480} alt="" className="h-6 w-6 rounded object-cover" />
+                            صورة {index + 1}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">اترك السعر أو المخزون فارغاً لاستخدام قيم العرض الأساسية</p>
+          </div>
+        )}
+
+        <Button className="w-full" disabled={!isValid || !isDirty} onClick={handleSave}>
+          حفظ الخيارات
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VariantsEditor;
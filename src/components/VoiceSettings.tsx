@@ -0,0 +1,41 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DIALECT_LABELS, TONE_LABELS, type CopyVoice, type Dialect, type Tone } from "@/lib/copy/voice";
+
+interface VoiceSettingsProps {
+  value: CopyVoice;
+  onChange: (voice: CopyVoice) => void;
+}
+
+const VoiceSettings = ({ value, onChange }: VoiceSettingsProps) => (
+  <div className="grid grid-cols-2 gap-2">
+    <div className="space-y-2">
+      <Label>اللهجة</Label>
+      <Select value={value.dialect} onValueChange={(dialect: Dialect) => onChange({ ...value, dialect })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(DIALECT_LABELS) as Dialect[]).map((dialect) => (
+            <SelectItem key={dialect} value={dialect}>{DIALECT_LABELS[dialect]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="space-y-2">
+      <Label>النبرة</Label>
+      <Select value={value.tone} onValueChange={(tone: Tone) => onChange({ ...value, tone })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(TONE_LABELS) as Tone[]).map((tone) => (
+            <SelectItem key={tone} value={tone}>{TONE_LABELS[tone]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+export default VoiceSettings;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Flame } from "lucide-react";
+import { useStaticRender } from "@/hooks/use-static-render";
+import {
+  countdownDeadline,
+  countdownParts,
+  scarcityMessage,
+  totalStock,
+  type Offer,
+  type SectionOf,
+  type TemplateClasses,
+} from "@/lib/landing";
+
+const UNITS = [
+  { key: 'days', label: 'يوم' },
+  { key: 'hours', label: 'ساعة' },
+  { key: 'minutes', label: 'دقيقة' },
+  { key: 'seconds', label: 'ثانية' },
+] as const;
+
+interface CountdownSectionProps {
+  section: SectionOf<'countdown'>;
+  offer: Offer;
+  theme: TemplateClasses;
+}
+
+const CountdownSection = ({ section, offer, theme }: CountdownSectionProps) => {
+  const isStatic = useStaticRender();
+  const [now, setNow] = useState(() => Date.now());
+  // Static exports must not depend on the render time or pin an evergreen
+  // deadline in the exporter's storage; the page script fills the timer in.
+  const [deadline, setDeadline] = useState(() => (isStatic ? undefined : countdownDeadline(section)));
+
+  useEffect(() => {
+    setDeadline(countdownDeadline(section));
+  }, [section]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const remaining = deadline === undefined ? 0 : deadline - now;
+  const parts = countdownParts(isStatic ? 0 : remaining);
+  const hasDeadline = isStatic ? section.mode === 'evergreen' || !!section.endsAt : deadline !== undefined;
+  const scarcity = section.showStock ? scarcityMessage(totalStock(offer), section.stockThreshold) : undefined;
+
+  // Exported pages render both states and let the page script pick one, with
+  // the same evergreen storage key as countdownDeadline.
+  const timer = (
+    <div data-countdown-timer="">
+      <h2 className={`text-xl mb-4 ${theme.heading}`}>{section.heading}</h2>
+      <div className="flex justify-center gap-2 sm:gap-4" dir="ltr">
+        {UNITS.map(({ key, label }) => (
+          <div key={key} className="min-w-16 rounded-lg bg-primary text-primary-foreground px-3 py-2">
+            <div className="text-2xl font-bold tabular-nums" data-unit={key}>{String(parts[key]).padStart(2, '0')}</div>
+            <div className="text-xs opacity-80">{label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+  const expired = (
+    <p className={`text-xl ${theme.heading}`} data-countdown-expired="" hidden={isStatic}>{section.expiredText}</p>
+  );
+
+  return (
+    <div
+      className={`p-4 sm:p-6 text-center ${theme.card}`}
+      data-countdown={section.mode}
+      data-countdown-key={`${section.id}.${section.durationMinutes}`}
+      data-ends-at={section.mode === 'fixed' ? section.endsAt : undefined}
+      data-duration={section.durationMinutes}
+    >
+      {hasDeadline && (
+        isStatic ? (
+          <>
+            {timer}
+            {expired}
+          </>
+        ) : remaining > 0 ? timer : expired
+      )}
+      {scarcity && (
+        <p className="mt-4 inline-flex items-center gap-2 rounded-full bg-destructive/10 px-4 py-1 text-sm font-bold text-destructive">
+          <Flame className="h-4 w-4" />
+          {scarcity}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CountdownSection;
@@ -0,0 +1,48 @@
+import type { ReactNode } from "react";
+import { ChevronDown } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { useStaticRender } from "@/hooks/use-static-render";
+import type { SectionOf, TemplateClasses } from "@/lib/landing";
+
+interface FaqSectionProps {
+  section: SectionOf<'faq'>;
+  theme: TemplateClasses;
+  controls?: ReactNode;
+}
+
+const FaqSection = ({ section, theme, controls }: FaqSectionProps) => {
+  const isStatic = useStaticRender();
+
+  return (
+    <div className="relative group">
+      {controls}
+      <h2 className={`text-2xl mb-4 ${theme.heading}`}>{section.heading}</h2>
+      {isStatic ? (
+        // Closed Radix items render no answer at all; <details> keeps every
+        // answer in the exported markup and needs no script.
+        <div className="space-y-2">
+          {section.items.map((item, index) => (
+            <details key={index} className={`group/faq px-4 ${theme.card}`}>
+              <summary className="flex cursor-pointer list-none items-center [&::-webkit-details-marker]:hidden justify-between py-4 font-bold">
+                {item.question}
+                <ChevronDown className="h-4 w-4 shrink-0 transition-transform group-open/faq:rotate-180" />
+              </summary>
+              <p className="pb-4 text-base text-foreground/80">{item.answer}</p>
+            </details>
+          ))}
+        </div>
+      ) : (
+        <Accordion type="single" collapsible dir="rtl" className="space-y-2">
+          {section.items.map((item, index) => (
+            <AccordionItem key={index} value={`item-${index}`} className={`px-4 border-b-0 ${theme.card}`}>
+              <AccordionTrigger className="text-start font-bold hover:no-underline">{item.question}</AccordionTrigger>
+              <AccordionContent className="text-base text-foreground/80">{item.answer}</AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </div>
+  );
+};
+
+export default FaqSection;
@@ -0,0 +1,41 @@
+import type { ReactNode } from "react";
+import { Star } from "lucide-react";
+import type { SectionOf, TemplateClasses } from "@/lib/landing";
+
+interface FeaturesSectionProps {
+  section: SectionOf<'features'>;
+  theme: TemplateClasses;
+  descriptionControls?: ReactNode;
+  itemsControls?: ReactNode;
+}
+
+const FeaturesSection = ({ section, theme, descriptionControls, itemsControls }: FeaturesSectionProps) => (
+  <div>
+    {section.description && (
+      <div className="relative group">
+        {descriptionControls}
+        <h2 className={`text-2xl mb-4 ${theme.heading}`}>{section.heading}</h2>
+        <p className="text-foreground/80 leading-relaxed mb-6">
+          {section.description}
+        </p>
+      </div>
+    )}
+
+    {section.items.length > 0 && (
+      <div className="relative group">
+        {itemsControls}
+        <h3 className={`text-xl mb-4 ${theme.heading}`}>{section.itemsHeading}</h3>
+        <ul className="space-y-2">
+          {section.items.map((feature, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <Star className="h-5 w-5 text-warning" />
+              <span>{feature}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+export default FeaturesSection;
@@ -0,0 +1,39 @@
+import AssetImage from "@/components/AssetImage";
+import { isAssetRef } from "@/lib/assets";
+import type { SectionOf } from "@/lib/landing";
+
+interface GallerySectionProps {
+  section: SectionOf<'gallery'>;
+  // "featured" shows the first image full width above the others.
+  layout: 'grid' | 'featured';
+  onEditImage?: (index: number) => void;
+}
+
+const GallerySection = ({ section, layout, onEditImage }: GallerySectionProps) => (
+  <div className={layout === 'featured' ? 'grid grid-cols-3 gap-2 sm:gap-4' : 'grid grid-cols-2 gap-4'}>
+    {section.images.map((image, index) => {
+      const featured = layout === 'featured' && index === 0;
+      return (
+        <button
+          key={index}
+          type="button"
+          disabled={!onEditImage || !isAssetRef(image)}
+          onClick={() => onEditImage?.(index)}
+          className={`enabled:hover:opacity-90 ${featured ? 'col-span-3' : ''}`}
+          title={onEditImage && isAssetRef(image) ? "تعديل الصورة" : undefined}
+        >
+          <AssetImage
+            src={image}
+            size={featured ? 1600 : 960}
+            alt={`صورة المنتج ${index + 1}`}
+            className={`w-full object-cover rounded-lg shadow-md ${
+              featured ? 'h-64 sm:h-96' : layout === 'featured' ? 'h-24 sm:h-32' : 'h-40 sm:h-48'
+            }`}
+          />
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default GallerySection;
@@ -0,0 +1,39 @@
+import type { ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { formatPrice } from "@/lib/format";
+import type { Offer, SectionOf, TemplateClasses } from "@/lib/landing";
+
+interface HeroSectionProps {
+  section: SectionOf<'hero'>;
+  offer: Offer;
+  theme: TemplateClasses;
+  controls?: ReactNode;
+}
+
+const HeroSection = ({ section, offer, theme, controls }: HeroSectionProps) => (
+  <div className={theme.align}>
+    {section.badge && (
+      <Badge className="mb-4 bg-destructive text-destructive-foreground hover:bg-destructive">
+        {section.badge}
+      </Badge>
+    )}
+    <div className="relative group">
+      {controls}
+      <h1 className={`text-2xl sm:text-3xl mb-4 text-foreground ${theme.heading}`}>
+        {section.headline}
+      </h1>
+    </div>
+    <div className={`flex items-center gap-4 ${theme.align === 'text-center' ? 'justify-center' : ''}`}>
+      <span className={`text-2xl sm:text-3xl text-success ${theme.heading}`}>
+        {formatPrice(offer.price, offer.currency)}
+      </span>
+      {offer.originalPrice !== undefined && (
+        <span className="text-lg sm:text-xl text-muted-foreground line-through">
+          {formatPrice(offer.originalPrice, offer.currency)}
+        </span>
+      )}
+    </div>
+  </div>
+);
+
+export default HeroSection;
@@ -0,0 +1,129 @@
+import type { ReactNode } from "react";
+import CODForm from "@/components/CODForm";
+import type { CopySection } from "@/lib/copy/prompts";
+import type { OrderInput } from "@/lib/orders/types";
+import {
+  approvedReviews,
+  faqPageJsonLd,
+  getTemplate,
+  jsonLdScript,
+  productJsonLd,
+  SECTION_TYPE_LABELS,
+  templateClasses,
+  templateStyle,
+  type LandingPage,
+  type LandingSection,
+} from "@/lib/landing";
+import HeroSection from "./HeroSection";
+import GallerySection from "./GallerySection";
+import FeaturesSection from "./FeaturesSection";
+import TrustSection from "./TrustSection";
+import ReviewsSection from "./ReviewsSection";
+import FaqSection from "./FaqSection";
+import CountdownSection from "./CountdownSection";
+
+interface LandingPageViewProps {
+  page: LandingPage;
+  // Editor affordances; omitted when rendering the page for visitors.
+  controls?: (section: CopySection) => ReactNode;
+  onEditImage?: (sectionId: string, index: number) => void;
+  onOrder?: (order: OrderInput) => Promise<void>;
+  showEmpty?: boolean;
+}
+
+// Sections without content are skipped rather than rendered as empty headings.
+const isEmpty = (section: LandingSection) => {
+  if (section.type === 'gallery') return section.images.length === 0;
+  if (section.type === 'reviews') return approvedReviews(section).length === 0;
+  if (section.type === 'trust' || section.type === 'faq') {
+    return section.items.length === 0;
+  }
+  if (section.type === 'countdown') return section.mode === 'fixed' && !section.endsAt && !section.showStock;
+  return false;
+};
+
+const LandingPageView = ({ page, controls, onEditImage, onOrder, showEmpty }: LandingPageViewProps) => {
+  // Copy controls act on the first section of each type, which holds the page copy.
+  const primary = (section: LandingSection) => page.sections.find((s) => s.type === section.type) === section;
+  const template = getTemplate(page.template);
+  const theme = templateClasses(template);
+  const structuredData = [productJsonLd(page), faqPageJsonLd(page)].filter(Boolean);
+
+  const renderSection = (section: LandingSection) => {
+    const sectionControls = (copy: CopySection) => (primary(section) ? controls?.(copy) : undefined);
+    switch (section.type) {
+      case 'hero':
+        return <HeroSection section={section} offer={page.offer} theme={theme} controls={sectionControls('headline')} />;
+      case 'gallery':
+        return (
+          <GallerySection
+            section={section}
+            layout={template.layout.gallery}
+            onEditImage={onEditImage && ((index) => onEditImage(section.id, index))}
+          />
+        );
+      case 'features':
+        return (
+          <FeaturesSection
+            section={section}
+            theme={theme}
+            descriptionControls={sectionControls('description')}
+            itemsControls={sectionControls('features')}
+          />
+        );
+      case 'trust':
+        return <TrustSection section={section} theme={theme} />;
+      case 'reviews':
+        return <ReviewsSection section={section} theme={theme} />;
+      case 'faq':
+        return <FaqSection section={section} theme={theme} controls={sectionControls('faq')} />;
+      case 'countdown':
+        return <CountdownSection section={section} offer={page.offer} theme={theme} />;
+      case 'cod-form':
+        return (
+          <CODForm
+            offer={page.offer}
+            onSubmit={onOrder}
+            heading={section.heading}
+            subheading={section.subheading}
+            terms={section.terms}
+            submitLabel={section.submitLabel}
+            buttonClassName={theme.button}
+          />
+        );
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen bg-background text-foreground p-4 sm:p-8 rtl font-arabic"
+      dir="rtl"
+      data-landing-page=""
+      style={templateStyle(template)}
+    >
+      {structuredData.map((data, index) => (
+        <script key={index} type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLdScript(data) }} />
+      ))}
+      <div className="max-w-3xl mx-auto">
+        {page.sections
+          .filter((section) => !section.hidden)
+          .map((section) => {
+            if (isEmpty(section)) {
+              return showEmpty ? (
+                <div key={section.id} className={`${theme.section} rounded-lg border-2 border-dashed p-6 text-center text-sm text-muted-foreground`}>
+                  {SECTION_TYPE_LABELS[section.type]} — لا يوجد محتوى بعد
+                </div>
+              ) : null;
+            }
+            return (
+              <section key={section.id} data-section={section.type} className={theme.section}>
+                {renderSection(section)}
+              </section>
+            );
+          })}
+      </div>
+    </div>
+  );
+};
+
+export default LandingPageView;
@@ -0,0 +1,72 @@
+import { MapPin, Star } from "lucide-react";
+import AssetImage from "@/components/AssetImage";
+import { aggregateRating, approvedReviews, type SectionOf, type TemplateClasses } from "@/lib/landing";
+
+interface ReviewsSectionProps {
+  section: SectionOf<'reviews'>;
+  theme: TemplateClasses;
+}
+
+const Stars = ({ rating, className = 'h-4 w-4' }: { rating: number; className?: string }) => (
+  <div className="flex" aria-label={`${rating} من 5`}>
+    {Array.from({ length: 5 }, (_, index) => (
+      <Star
+        key={index}
+        className={`${className} ${index < Math.round(rating) ? 'text-warning fill-warning' : 'text-muted-foreground/40'}`}
+      />
+    ))}
+  </div>
+);
+
+// Only approved reviews reach visitors; the rest wait in the moderation queue.
+const ReviewsSection = ({ section, theme }: ReviewsSectionProps) => {
+  const reviews = approvedReviews(section);
+  const rating = aggregateRating(reviews);
+
+  return (
+    <div>
+      <h2 className={`text-2xl mb-2 ${theme.heading}`}>{section.heading}</h2>
+      {rating && (
+        <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+          <Stars rating={rating.value} />
+          <span className="font-bold text-foreground">{rating.value}</span>
+          <span>من 5 — {rating.count} تقييم</span>
+        </div>
+      )}
+      <div className="space-y-4">
+        {reviews.map((review) => (
+          <div key={review.id} className={`p-4 ${theme.card}`}>
+            <div className="flex items-center justify-between mb-2">
+              <div>
+                <span className="font-bold">{review.author}</span>
+                {review.city && (
+                  <span className="inline-flex items-center text-xs text-muted-foreground mr-2">
+                    <MapPin className="h-3 w-3 ml-1" />
+                    {review.city}
+                  </span>
+                )}
+              </div>
+              <Stars rating={review.rating} />
+            </div>
+            <p className="text-foreground/80">{review.text}</p>
+            {review.photos.length > 0 && (
+              <div className="flex gap-2 mt-3">
+                {review.photos.map((photo) => (
+                  <AssetImage
+                    key={photo}
+                    src={photo}
+                    size={480}
+                    alt={`صورة من ${review.author}`}
+                    className="h-20 w-20 object-cover rounded-md"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewsSection;
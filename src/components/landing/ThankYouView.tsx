@@ -0,0 +1,32 @@
+import { CheckCircle2 } from "lucide-react";
+import { getTemplate, templateClasses, templateStyle, type LandingPage } from "@/lib/landing";
+
+interface ThankYouViewProps {
+  page: LandingPage;
+  backHref: string;
+}
+
+// The page exported bundles redirect to after an order is sent.
+const ThankYouView = ({ page, backHref }: ThankYouViewProps) => {
+  const template = getTemplate(page.template);
+  const theme = templateClasses(template);
+
+  return (
+    <div
+      className="min-h-screen bg-background text-foreground p-4 sm:p-8 rtl font-arabic"
+      dir="rtl"
+      style={templateStyle(template)}
+    >
+      <div className={`max-w-xl mx-auto p-8 text-center space-y-4 ${theme.card}`}>
+        <CheckCircle2 className="h-12 w-12 mx-auto text-primary" />
+        <h1 className={`text-2xl ${theme.heading}`}>تم تأكيد طلبك بنجاح</h1>
+        <p className="text-foreground/80">سنتصل بك قريباً لتأكيد التفاصيل وموعد التوصيل، والدفع عند الاستلام</p>
+        <a href={backHref} className={`inline-flex h-11 items-center px-6 font-bold ${theme.button}`}>
+          العودة إلى الصفحة
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default ThankYouView;
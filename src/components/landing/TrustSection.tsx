@@ -0,0 +1,32 @@
+import { Award, Lock, Phone, RefreshCw, Shield, Truck, type LucideIcon } from "lucide-react";
+import type { SectionOf, TemplateClasses, TrustIcon } from "@/lib/landing";
+
+const TRUST_ICONS: Record<TrustIcon, LucideIcon> = {
+  shield: Shield,
+  truck: Truck,
+  phone: Phone,
+  refresh: RefreshCw,
+  award: Award,
+  lock: Lock,
+};
+
+interface TrustSectionProps {
+  section: SectionOf<'trust'>;
+  theme: TemplateClasses;
+}
+
+const TrustSection = ({ section, theme }: TrustSectionProps) => (
+  <div className="grid grid-cols-3 gap-2 sm:gap-4">
+    {section.items.map((item, index) => {
+      const Icon = TRUST_ICONS[item.icon];
+      return (
+        <div key={index} className={`text-center p-3 sm:p-4 ${theme.card}`}>
+          <Icon className="h-8 w-8 mx-auto mb-2 text-primary" />
+          <p className="text-sm font-medium">{item.label}</p>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default TrustSection;
@@ -0,0 +1,11 @@
+import * as React from "react";
+
+import { getBatchState, subscribe, type BatchState } from "@/lib/jobs/batch";
+
+export function useBatch() {
+  const [state, setState] = React.useState<BatchState>(getBatchState);
+
+  React.useEffect(() => subscribe(setState), []);
+
+  return state;
+}
@@ -0,0 +1,9 @@
+import * as React from "react";
+
+// Set when components render inside a DeviceFrame, so popovers can portal
+// into the frame instead of the dashboard document.
+export const FrameDocumentContext = React.createContext<Document | null>(null);
+
+export function useFrameDocument() {
+  return React.useContext(FrameDocumentContext);
+}
@@ -0,0 +1,20 @@
+import * as React from "react";
+
+import { isAssetRef, resolveImageSrc } from "@/lib/assets";
+
+export function useImageSrc(src: string | undefined, width?: number) {
+  const [resolved, setResolved] = React.useState(() => (src && !isAssetRef(src) ? src : ''));
+
+  React.useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    resolveImageSrc(src, width).then((url) => {
+      if (!cancelled) setResolved(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src, width]);
+
+  return resolved;
+}
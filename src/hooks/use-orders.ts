@@ -0,0 +1,11 @@
+import * as React from "react";
+
+import { getOrdersState, subscribe, type OrdersState } from "@/lib/orders/store";
+
+export function useOrders() {
+  const [state, setState] = React.useState<OrdersState>(getOrdersState);
+
+  React.useEffect(() => subscribe(setState), []);
+
+  return state.orders;
+}
@@ -0,0 +1,20 @@
+import * as React from "react";
+
+import { getPagesState, subscribe, type PagesState } from "@/lib/pages/store";
+
+export function usePagesState() {
+  const [state, setState] = React.useState<PagesState>(getPagesState);
+
+  React.useEffect(() => subscribe(setState), []);
+
+  return state;
+}
+
+export function usePages() {
+  return usePagesState().pages;
+}
+
+export function usePage(id: string | undefined) {
+  const pages = usePages();
+  return id ? pages.find((page) => page.id === id) : pages[0];
+}
@@ -0,0 +1,7 @@
+import * as React from "react";
+
+// True while a landing page is rendered to static HTML for export. Sections
+// then emit markup that works with the small exported script instead of React.
+export const StaticRenderContext = React.createContext(false);
+
+export const useStaticRender = () => React.useContext(StaticRenderContext);
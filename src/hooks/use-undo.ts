@@ -0,0 +1,15 @@
+import * as React from "react";
+
+import { getUndoState, subscribeUndo, type UndoState } from "@/lib/pages/revisions";
+
+export function useUndo(pageId: string | undefined): UndoState {
+  const [state, setState] = React.useState(() => (pageId ? getUndoState(pageId) : { canUndo: false, canRedo: false }));
+
+  React.useEffect(() => {
+    if (!pageId) return;
+    setState(getUndoState(pageId));
+    return subscribeUndo(() => setState(getUndoState(pageId)));
+  }, [pageId]);
+
+  return state;
+}
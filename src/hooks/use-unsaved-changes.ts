@@ -0,0 +1,23 @@
+import * as React from "react";
+
+import { useBlocker } from "react-router-dom";
+
+// Blocks in-app navigation and asks the browser to confirm reloads or closing
+// the tab while `when` is true. The returned blocker drives the confirm dialog.
+export function useUnsavedChanges(when: boolean) {
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) => when && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  React.useEffect(() => {
+    if (!when) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [when]);
+
+  return blocker;
+}
@@ -0,0 +1,26 @@
+import type { AssetRecord } from "../index";
+
+// Stands in for the IndexedDB asset store in tests: vi.mock("@/lib/assets").
+// Every asset has one rendition whose bytes are set per id in `assetImages`,
+// or are the id itself.
+export * from "../index";
+
+export const assetImages: Record<string, string> = {};
+
+const imageBytes = (id: string) => new TextEncoder().encode(assetImages[id] ?? id);
+
+export const getAsset = async (id: string): Promise<AssetRecord> => ({
+  id,
+  width: 960,
+  height: 960,
+  renditions: [{ width: 960, height: 960, key: id, bytes: imageBytes(id).length }],
+  createdAt: '',
+});
+
+// jsdom's Blob has no arrayBuffer(), which the upload hashing reads.
+export const getRenditionBlob = async (asset: AssetRecord) => ({
+  rendition: asset.renditions[0],
+  blob: Object.assign(new Blob([imageBytes(asset.id)], { type: 'image/webp' }), {
+    arrayBuffer: async () => imageBytes(asset.id).buffer,
+  }),
+});
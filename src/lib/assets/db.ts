@@ -0,0 +1,33 @@
+const DB_NAME = 'arabiflow-assets';
+const DB_VERSION = 1;
+
+export type StoreName = 'assets' | 'blobs';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDb = () =>
+  (dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('assets', { keyPath: 'id' });
+      request.result.createObjectStore('blobs');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const dbGet = async <T,>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify<T>(db.transaction(store).objectStore(store).get(key));
+};
+
+export const dbPut = async (store: StoreName, value: unknown, key?: string) => {
+  const db = await openDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
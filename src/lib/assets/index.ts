@@ -0,0 +1,218 @@
+import { proxiedUrl } from "@/lib/importer/fetch-page";
+import { dbGet, dbPut } from "./db";
+
+export const ASSET_PREFIX = 'asset:';
+
+export const RENDITION_WIDTHS = [480, 960, 1600];
+
+const WEBP_QUALITY = 0.82;
+
+export interface Rendition {
+  width: number;
+  height: number;
+  key: string;
+  bytes: number;
+}
+
+export interface AssetRecord {
+  id: string;
+  sourceUrl?: string;
+  width: number;
+  height: number;
+  renditions: Rendition[];
+  createdAt: string;
+}
+
+export interface ImageTransform {
+  rotate?: 0 | 90 | 180 | 270;
+  // Fractions of the (rotated) image, so crops survive re-encoding at other sizes.
+  crop?: { x: number; y: number; width: number; height: number };
+}
+
+export const isAssetRef = (src: string) => src.startsWith(ASSET_PREFIX);
+
+export const assetRef = (id: string) => `${ASSET_PREFIX}${id}`;
+
+export const assetIdFromRef = (ref: string) => ref.slice(ASSET_PREFIX.length);
+
+export const sha256 = async (data: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('تعذر ترميز الصورة'))), type, quality)
+  );
+
+const drawTransformed = (bitmap: ImageBitmap, { rotate = 0, crop }: ImageTransform) => {
+  const turned = rotate === 90 || rotate === 270;
+  const rotated = document.createElement('canvas');
+  rotated.width = turned ? bitmap.height : bitmap.width;
+  rotated.height = turned ? bitmap.width : bitmap.height;
+  const ctx = rotated.getContext('2d');
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((rotate * Math.PI) / 180);
+  ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  if (!crop) return rotated;
+
+  const sx = Math.round(crop.x * rotated.width);
+  const sy = Math.round(crop.y * rotated.height);
+  const sw = Math.max(1, Math.round(crop.width * rotated.width));
+  const sh = Math.max(1, Math.round(crop.height * rotated.height));
+  const cropped = document.createElement('canvas');
+  cropped.width = sw;
+  cropped.height = sh;
+  cropped.getContext('2d').drawImage(rotated, sx, sy, sw, sh, 0, 0, sw, sh);
+  return cropped;
+};
+
+const encodeRenditions = async (id: string, source: HTMLCanvasElement) => {
+  const widths = RENDITION_WIDTHS.filter((w) => w < source.width).concat(
+    Math.min(source.width, RENDITION_WIDTHS[RENDITION_WIDTHS.length - 1])
+  );
+  const renditions: Rendition[] = [];
+  for (const width of Array.from(new Set(widths))) {
+    const height = Math.round((source.height * width) / source.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+    const blob = await canvasToBlob(canvas, 'image/webp', WEBP_QUALITY);
+    const key = `${id}-${width}.webp`;
+    await dbPut('blobs', blob, key);
+    renditions.push({ width, height, key, bytes: blob.size });
+  }
+  return renditions;
+};
+
+const storeCanvas = async (id: string, canvas: HTMLCanvasElement, sourceUrl?: string) => {
+  const existing = await dbGet<AssetRecord>('assets', id);
+  if (existing) return existing;
+
+  const record: AssetRecord = {
+    id,
+    sourceUrl,
+    width: canvas.width,
+    height: canvas.height,
+    renditions: await encodeRenditions(id, canvas),
+    createdAt: new Date().toISOString(),
+  };
+  await dbPut('assets', record);
+  return record;
+};
+
+// Identical source bytes hash to the same id, so re-imports and duplicate
+// gallery images collapse into one asset.
+export const importImage = async (source: string | Blob, signal?: AbortSignal): Promise<AssetRecord> => {
+  let blob: Blob;
+  if (typeof source === 'string') {
+    const response = await fetch(proxiedUrl(source), { signal });
+    if (!response.ok) throw new Error(`تعذر تنزيل الصورة (${response.status})`);
+    blob = await response.blob();
+  } else {
+    blob = source;
+  }
+
+  const id = await sha256(await blob.arrayBuffer());
+  const existing = await dbGet<AssetRecord>('assets', id);
+  if (existing) return existing;
+
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return await storeCanvas(id, drawTransformed(bitmap, {}), typeof source === 'string' ? source : undefined);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const getAsset = (id: string) => dbGet<AssetRecord>('assets', id);
+
+export const getRenditionBlob = async (asset: AssetRecord, width = Infinity) => {
+  const sorted = [...asset.renditions].sort((a, b) => a.width - b.width);
+  const rendition = sorted.find((r) => r.width >= width) ?? sorted[sorted.length - 1];
+  return { rendition, blob: await dbGet<Blob>('blobs', rendition.key) };
+};
+
+// Transforms always start from the largest stored rendition and produce a new
+// asset, so the original stays available for undo.
+export const transformAsset = async (id: string, transform: ImageTransform): Promise<AssetRecord> => {
+  const asset = await getAsset(id);
+  if (!asset) throw new Error('الصورة غير موجودة');
+  const { blob } = await getRenditionBlob(asset);
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = drawTransformed(bitmap, transform);
+    const transformedId = await sha256(
+      new TextEncoder().encode(`${id}:${JSON.stringify(transform)}`).buffer as ArrayBuffer
+    );
+    return await storeCanvas(transformedId, canvas, asset.sourceUrl);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const renderTransformPreview = async (id: string, transform: ImageTransform, width = 480) => {
+  const asset = await getAsset(id);
+  if (!asset) return '';
+  const { blob } = await getRenditionBlob(asset, width);
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return drawTransformed(bitmap, transform).toDataURL('image/webp', WEBP_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Centered crop fractions for a target aspect ratio on a (possibly rotated) asset.
+export const centerCrop = (asset: AssetRecord, rotate: ImageTransform['rotate'], aspect: number): ImageTransform['crop'] => {
+  const turned = rotate === 90 || rotate === 270;
+  const width = turned ? asset.height : asset.width;
+  const height = turned ? asset.width : asset.height;
+  if (width / height > aspect) {
+    const fraction = (height * aspect) / width;
+    return { x: (1 - fraction) / 2, y: 0, width: fraction, height: 1 };
+  }
+  const fraction = width / aspect / height;
+  return { x: 0, y: (1 - fraction) / 2, width: 1, height: fraction };
+};
+
+// Most recently used last. Evicted URLs are revoked; images already showing
+// them keep their decoded pixels.
+const MAX_OBJECT_URLS = 200;
+const objectUrls = new Map<string, Promise<string>>();
+
+const revoke = (url: Promise<string>) =>
+  url.then((value) => value && URL.revokeObjectURL(value), () => undefined);
+
+export const resolveImageSrc = (src: string, width?: number): Promise<string> => {
+  if (!isAssetRef(src)) return Promise.resolve(src);
+  const cacheKey = `${src}@${width ?? 'max'}`;
+  const cached = objectUrls.get(cacheKey);
+  if (cached) {
+    objectUrls.delete(cacheKey);
+    objectUrls.set(cacheKey, cached);
+    return cached;
+  }
+
+  const url = (async () => {
+    const asset = await getAsset(assetIdFromRef(src));
+    const blob = asset && (await getRenditionBlob(asset, width)).blob;
+    return blob ? URL.createObjectURL(blob) : '';
+  })();
+  objectUrls.set(cacheKey, url);
+  // Assets still being written resolve to '' now and to a URL on a later call.
+  const forget = () => {
+    if (objectUrls.get(cacheKey) === url) objectUrls.delete(cacheKey);
+  };
+  url.then((value) => value || forget(), forget);
+
+  for (const [key, oldest] of objectUrls) {
+    if (objectUrls.size <= MAX_OBJECT_URLS) break;
+    objectUrls.delete(key);
+    revoke(oldest);
+  }
+  return url;
+};
@@ -0,0 +1,84 @@
+import { parseCsv } from "./csv";
+import { normalizeProductUrl, parsePrice } from "./importer";
+
+export interface BulkRow {
+  line: number;
+  url: string;
+  price?: number;
+  cost?: number;
+}
+
+export interface BulkRowError {
+  line: number;
+  value: string;
+  message: string;
+}
+
+export const MAX_BULK_ROWS = 200;
+
+const HEADER_ALIASES: Record<string, keyof Omit<BulkRow, 'line'>> = {
+  url: 'url',
+  link: 'url',
+  'الرابط': 'url',
+  price: 'price',
+  'السعر': 'price',
+  cost: 'cost',
+  'التكلفة': 'cost',
+};
+
+// Accepts a plain list of URLs (one per line) or a CSV whose optional header
+// names the url, price and cost columns.
+export const parseBulkInput = (text: string) => {
+  const table = parseCsv(text);
+  const rows: BulkRow[] = [];
+  const errors: BulkRowError[] = [];
+  if (table.length === 0) return { rows, errors };
+
+  const header = table[0].map((cell) => HEADER_ALIASES[cell.toLowerCase()]);
+  const hasHeader = header.includes('url');
+  const columns = hasHeader ? header : (['url', 'price', 'cost'] as const);
+  const seen = new Set<string>();
+
+  table.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const record: Partial<Record<'url' | 'price' | 'cost', string>> = {};
+    cells.forEach((cell, i) => {
+      const key = columns[i];
+      if (key && cell) record[key] = cell;
+    });
+
+    if (!record.url) {
+      errors.push({ line, value: cells.join(','), message: 'لا يوجد رابط' });
+      return;
+    }
+
+    let url: string;
+    try {
+      url = normalizeProductUrl(record.url).toString();
+    } catch {
+      errors.push({ line, value: record.url, message: 'رابط غير صالح' });
+      return;
+    }
+    if (seen.has(url)) {
+      errors.push({ line, value: record.url, message: 'رابط مكرر' });
+      return;
+    }
+
+    const price = record.price ? parsePrice(record.price) : undefined;
+    const cost = record.cost ? parsePrice(record.cost) : undefined;
+    if ((record.price && price === undefined) || (record.cost && cost === undefined)) {
+      errors.push({ line, value: record.url, message: 'سعر أو تكلفة غير صالحة' });
+      return;
+    }
+
+    seen.add(url);
+    rows.push({ line, url, price, cost });
+  });
+
+  if (rows.length > MAX_BULK_ROWS) {
+    rows.splice(MAX_BULK_ROWS).forEach((row) =>
+      errors.push({ line: row.line, value: row.url, message: `الحد الأقصى ${MAX_BULK_ROWS} رابط في الدفعة` })
+    );
+  }
+  return { rows, errors };
+};
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { readJson, writeJson } from "@/lib/storage";
+
+const STORAGE_KEY = "arabiflow.cod-policy";
+
+export const codPolicySchema = z.object({
+  deliveryDaysMin: z.number().int().min(0).default(2),
+  deliveryDaysMax: z.number().int().min(0).default(5),
+  coverage: z.string().trim().default('جميع مدن المملكة'),
+  shippingFee: z.number().min(0).default(0),
+  // Orders at or above this amount ship for free; unset means the fee always applies.
+  freeShippingThreshold: z.number().min(0).optional(),
+  inspectBeforePay: z.boolean().default(true),
+  // Zero disables returns.
+  returnDays: z.number().int().min(0).default(7),
+  confirmationCall: z.boolean().default(true),
+});
+
+export type CodPolicy = z.infer<typeof codPolicySchema>;
+
+export const DEFAULT_COD_POLICY: CodPolicy = codPolicySchema.parse({});
+
+// The store's cash-on-delivery terms, shared by every page's FAQ.
+export const getCodPolicy = (): CodPolicy => {
+  const parsed = codPolicySchema.safeParse(readJson(STORAGE_KEY) ?? {});
+  return parsed.success ? parsed.data : DEFAULT_COD_POLICY;
+};
+
+export const setCodPolicy = (policy: CodPolicy) => writeJson(STORAGE_KEY, policy);
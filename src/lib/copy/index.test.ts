@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ImportedProduct } from "@/lib/importer";
+import {
+  CopyGenerationError,
+  generateLandingCopy,
+  generateSectionCopy,
+  landingCopySchema,
+  mockProvider,
+  setCopyProvider,
+  type CompletionRequest,
+} from ".";
+
+const product: ImportedProduct = {
+  sourceUrl: 'https://shop.example.com/watch',
+  title: 'ساعة ذكية',
+  description: 'ساعة ذكية بشاشة AMOLED ومقاومة للماء.',
+  price: 199,
+  currency: 'SAR',
+  images: [],
+  attributes: { 'البطارية': '7 أيام', 'الشاشة': '1.4 بوصة' },
+};
+
+const VALID_COPY = {
+  headline: 'ساعة ذكية لكل يوم',
+  description: 'ساعة خفيفة تتابع نشاطك وتدوم بطاريتها أسبوعاً كاملاً.',
+  features: ['شاشة واضحة', 'بطارية تدوم', 'مقاومة للماء'],
+  faq: [
+    { question: 'هل هي أصلية؟', answer: 'نعم.' },
+    { question: 'هل تناسب الرياضة؟', answer: 'نعم، ومقاومة للماء.' },
+  ],
+};
+
+// A provider that answers with the given raw responses in order.
+const scripted = (...responses: string[]) => {
+  const requests: CompletionRequest[] = [];
+  setCopyProvider({
+    id: 'scripted',
+    complete: vi.fn(async (request: CompletionRequest) => {
+      requests.push(request);
+      return responses[requests.length - 1];
+    }),
+  });
+  return requests;
+};
+
+afterEach(() => {
+  setCopyProvider(mockProvider);
+});
+
+describe("mockProvider", () => {
+  it("returns the same landing copy for the same product, valid against the schema", async () => {
+    const first = await generateLandingCopy(product);
+
+    expect(await generateLandingCopy(product)).toEqual(first);
+    expect(landingCopySchema.safeParse(first).success).toBe(true);
+    expect(first.headline).toContain('ساعة ذكية');
+    expect(first.features).toContain('البطارية: 7 أيام');
+  });
+
+  it("varies regenerated sections by variant and repeats each variant", async () => {
+    const current = (await generateLandingCopy(product)).headline;
+
+    const first = await generateSectionCopy(product, 'headline', current, 1);
+    const second = await generateSectionCopy(product, 'headline', current, 2);
+
+    expect(first).not.toBe(second);
+    expect(await generateSectionCopy(product, 'headline', current, 1)).toBe(first);
+  });
+
+  it("rejects templates it has no response for", async () => {
+    await expect(
+      mockProvider.complete({ templateId: 'unknown', templateVersion: 1, system: '', prompt: '', variables: { product } })
+    ).rejects.toThrow('unknown');
+  });
+});
+
+describe("provider output validation", () => {
+  it("accepts JSON wrapped in a Markdown code fence", async () => {
+    scripted(`\`\`\`json\n${JSON.stringify(VALID_COPY)}\n\`\`\``);
+
+    await expect(generateLandingCopy(product)).resolves.toEqual(VALID_COPY);
+  });
+
+  it("retries with the schema issues when the output breaks the schema", async () => {
+    const requests = scripted(JSON.stringify({ ...VALID_COPY, features: ['واحدة'] }), JSON.stringify(VALID_COPY));
+
+    await expect(generateLandingCopy(product)).resolves.toEqual(VALID_COPY);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].prompt).toContain('features:');
+  });
+
+  it("fails with the issues after repeated invalid output", async () => {
+    scripted('ليس JSON', JSON.stringify({ headline: '' }));
+
+    const error = await generateLandingCopy(product).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CopyGenerationError);
+    expect(error).toMatchObject({ templateId: 'landing-copy' });
+    expect((error as CopyGenerationError).issues).toEqual(expect.arrayContaining([expect.stringMatching(/^headline:/)]));
+  });
+});
@@ -0,0 +1,108 @@
+import type { ImportedProduct } from "@/lib/importer";
+import {
+  landingCopyTemplate,
+  sectionCopyTemplate,
+  templateTag,
+  translateProductTemplate,
+  type CopySection,
+  type PromptTemplate,
+  type SectionCopy,
+} from "./prompts";
+import type { LandingCopy } from "./schema";
+import { createHttpProvider } from "./providers/http";
+import { mockProvider } from "./providers/mock";
+import { CopyGenerationError, type CopyProvider } from "./types";
+import { DEFAULT_VOICE, type CopyVoice } from "./voice";
+
+export * from "./types";
+export * from "./schema";
+export * from "./voice";
+export { landingCopyTemplate, sectionCopyTemplate, translateProductTemplate, templateTag } from "./prompts";
+export type { CopySection, SectionCopy } from "./prompts";
+export { mockProvider } from "./providers/mock";
+
+let provider: CopyProvider | undefined;
+
+// '/api/ai' is served by the proxy in vite.config.ts, which a static deploy
+// does not have. Production builds therefore only use the HTTP provider when
+// VITE_AI_ENDPOINT is set, and otherwise fall back to the mock.
+const providerFromEnv = (): CopyProvider => {
+  const env = import.meta.env;
+  if (env.VITE_AI_PROVIDER === 'http' && (env.VITE_AI_ENDPOINT || !env.PROD)) {
+    return createHttpProvider({
+      endpoint: env.VITE_AI_ENDPOINT || '/api/ai',
+      model: env.VITE_AI_MODEL || 'gpt-4o-mini',
+    });
+  }
+  return mockProvider;
+};
+
+export const getCopyProvider = () => (provider ??= providerFromEnv());
+
+export const setCopyProvider = (next: CopyProvider) => {
+  provider = next;
+};
+
+const parseJson = (raw: string) => {
+  const body = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  return JSON.parse(body) as unknown;
+};
+
+const MAX_ATTEMPTS = 2;
+
+export const runTemplate = async <TVars extends Record<string, unknown>, TOutput>(
+  template: PromptTemplate<TVars, TOutput>,
+  variables: TVars,
+  signal?: AbortSignal
+): Promise<TOutput> => {
+  let prompt = template.render(variables);
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = await getCopyProvider().complete({
+      templateId: template.id,
+      templateVersion: template.version,
+      system: template.system,
+      prompt,
+      variables,
+      signal,
+    });
+
+    let data: unknown;
+    try {
+      data = parseJson(raw);
+    } catch {
+      issues = ['الاستجابة ليست JSON صالحاً'];
+      prompt = `${template.render(variables)}\n\nالرد السابق لم يكن JSON صالحاً. أعد المحاولة.`;
+      continue;
+    }
+
+    const result = template.schema.safeParse(data);
+    if (result.success) return result.data;
+
+    issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    prompt = `${template.render(variables)}\n\nالرد السابق خالف الشكل المطلوب:\n${issues.join('\n')}`;
+  }
+
+  throw new CopyGenerationError(template.id, `تعذر توليد محتوى صالح (${templateTag(template)})`, issues);
+};
+
+export const translateProduct = async (product: ImportedProduct, signal?: AbortSignal): Promise<ImportedProduct> => {
+  const translation = await runTemplate(translateProductTemplate, { product }, signal);
+  return { ...product, ...translation };
+};
+
+export const generateLandingCopy = (product: ImportedProduct, voice: CopyVoice = DEFAULT_VOICE, signal?: AbortSignal) =>
+  runTemplate(landingCopyTemplate, { product, voice }, signal);
+
+export const generateSectionCopy = async <S extends CopySection>(
+  product: ImportedProduct,
+  section: S,
+  current: LandingCopy[S],
+  variant: number,
+  voice: CopyVoice = DEFAULT_VOICE,
+  signal?: AbortSignal
+): Promise<SectionCopy<S>> => {
+  const { value } = await runTemplate(sectionCopyTemplate(section), { product, voice, section, current, variant }, signal);
+  return value;
+};
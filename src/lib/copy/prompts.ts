@@ -0,0 +1,106 @@
+import { z, type ZodType, type ZodTypeDef } from "zod";
+import type { ImportedProduct } from "@/lib/importer";
+import { voiceInstructions, type CopyVoice } from "./voice";
+import { landingCopySchema, productTranslationSchema, type LandingCopy, type ProductTranslation } from "./schema";
+
+export interface PromptTemplate<TVars, TOutput> {
+  id: string;
+  version: number;
+  schema: ZodType<TOutput, ZodTypeDef, unknown>;
+  system: string;
+  render: (vars: TVars) => string;
+}
+
+const JSON_ONLY = 'أجب بكائن JSON واحد صالح فقط، دون أي نص إضافي أو علامات Markdown.';
+
+const productBlock = (product: ImportedProduct) =>
+  JSON.stringify({
+    title: product.title,
+    description: product.description,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    currency: product.currency,
+    attributes: product.attributes,
+    rating: product.rating,
+  }, null, 2);
+
+export const translateProductTemplate: PromptTemplate<{ product: ImportedProduct }, ProductTranslation> = {
+  id: 'translate-product',
+  version: 1,
+  schema: productTranslationSchema,
+  system: `أنت مترجم محترف للتجارة الإلكترونية. تترجم بيانات المنتجات إلى العربية الفصحى بدقة دون إضافة معلومات. ${JSON_ONLY}`,
+  render: ({ product }) => `ترجم الحقول التالية إلى العربية. اترك أسماء العلامات التجارية وأرقام الموديلات كما هي.
+
+المنتج:
+${productBlock(product)}
+
+الشكل المطلوب:
+{"title": string, "description": string, "attributes": {[name: string]: string}}`,
+};
+
+export const landingCopyTemplate: PromptTemplate<{ product: ImportedProduct; voice: CopyVoice }, LandingCopy> = {
+  id: 'landing-copy',
+  version: 3,
+  schema: landingCopySchema,
+  system: `أنت كاتب إعلانات عربي متخصص في صفحات الهبوط للدفع عند الاستلام. اكتب نصاً مقنعاً وصادقاً، ولا تخترع مواصفات غير موجودة في بيانات المنتج. ${JSON_ONLY}`,
+  render: ({ product, voice }) => `اكتب محتوى صفحة هبوط للمنتج التالي.
+
+الأسلوب:
+${voiceInstructions(voice)}
+
+المنتج:
+${productBlock(product)}
+
+القيود:
+- headline: عنوان جذاب لا يتجاوز 120 حرفاً
+- description: فقرة وصفية من 2 إلى 4 جمل
+- features: من 3 إلى 8 مميزات قصيرة
+- faq: من 2 إلى 8 أسئلة شائعة عن المنتج نفسه مع إجاباتها، دون أسئلة الدفع والتوصيل والإرجاع لأنها تُضاف من سياسة المتجر
+
+الشكل المطلوب:
+{"headline": string, "description": string, "features": string[], "faq": [{"question": string, "answer": string}]}`,
+};
+
+// Recorded on generated content so a page can be traced back to the prompt that wrote it.
+export const templateTag = <TVars, TOutput>(template: PromptTemplate<TVars, TOutput>) => `${template.id}@${template.version}`;
+
+export type CopySection = keyof LandingCopy;
+
+const SECTION_INSTRUCTIONS: Record<CopySection, string> = {
+  headline: 'عنوان رئيسي جذاب لا يتجاوز 120 حرفاً. الشكل: {"value": string}',
+  description: 'فقرة وصفية من 2 إلى 4 جمل. الشكل: {"value": string}',
+  features: 'من 3 إلى 8 مميزات قصيرة. الشكل: {"value": string[]}',
+  faq: 'من 2 إلى 8 أسئلة شائعة عن المنتج نفسه، دون أسئلة الدفع والتوصيل والإرجاع. الشكل: {"value": [{"question": string, "answer": string}]}',
+};
+
+type SectionVars = {
+  product: ImportedProduct;
+  voice: CopyVoice;
+  section: CopySection;
+  current: unknown;
+  variant: number;
+};
+
+type SectionSchema<S extends CopySection> = z.ZodObject<{ value: (typeof landingCopySchema.shape)[S] }>;
+
+export type SectionCopy<S extends CopySection> = z.infer<SectionSchema<S>>['value'];
+
+// One template serves every section; the section picks the schema and instructions.
+export const sectionCopyTemplate = <S extends CopySection>(section: S): PromptTemplate<SectionVars, z.infer<SectionSchema<S>>> => ({
+  id: 'section-copy',
+  version: 1,
+  schema: z.object({ value: landingCopySchema.shape[section] }),
+  system: landingCopyTemplate.system,
+  render: ({ product, voice, current }) => `أعد كتابة جزء واحد فقط من صفحة هبوط للمنتج التالي، بصياغة مختلفة عن النسخة الحالية.
+
+الأسلوب:
+${voiceInstructions(voice)}
+
+المنتج:
+${productBlock(product)}
+
+النسخة الحالية:
+${JSON.stringify(current)}
+
+المطلوب: ${SECTION_INSTRUCTIONS[section]}`,
+});
@@ -0,0 +1,39 @@
+import type { CompletionRequest, CopyProvider } from "../types";
+
+interface HttpProviderOptions {
+  endpoint: string;
+  model: string;
+}
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string } }[];
+}
+
+// Speaks the OpenAI-compatible chat completions format, which most hosted and
+// self-hosted LLM gateways accept. Requests carry no credentials: the endpoint
+// is a proxy that adds them server-side.
+export const createHttpProvider = ({ endpoint, model }: HttpProviderOptions): CopyProvider => ({
+  id: `http:${model}`,
+  complete: async ({ system, prompt, signal }: CompletionRequest) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        temperature: 0.7,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`مزود الذكاء الاصطناعي أعاد الحالة ${response.status}`);
+    }
+    const data = (await response.json()) as ChatCompletionResponse;
+    return data.choices[0]?.message.content ?? '';
+  },
+});
@@ -0,0 +1,127 @@
+import type { ImportedProduct } from "@/lib/importer";
+import type { LandingCopy, ProductTranslation } from "../schema";
+import type { CompletionRequest, CopyProvider } from "../types";
+import { DEFAULT_VOICE, type CopyVoice, type Dialect, type Tone } from "../voice";
+
+// FNV-1a, so the same product always picks the same phrasing.
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T,>(options: T[], seed: string, offset = 0) => options[(hash(seed) + offset) % options.length];
+
+const rotate = <T,>(items: T[], by: number) =>
+  items.length ? [...items.slice(by % items.length), ...items.slice(0, by % items.length)] : items;
+
+const HOOKS: Record<Tone, string[]> = {
+  luxury: ['الفخامة التي تستحقها', 'تميّز بلا حدود', 'لمسة من الرقي', 'أناقة تلفت الأنظار', 'صُنع لمن يقدّر التفاصيل'],
+  urgent: ['عرض لفترة محدودة', 'اطلبه قبل نفاد الكمية', 'الكمية محدودة', 'السعر الحالي لن يدوم', 'آخر القطع المتوفرة'],
+  friendly: ['الخيار الأذكى لك', 'رفيقك اليومي', 'ستحبه من أول استخدام', 'يجعل يومك أسهل', 'هدية مثالية لك ولمن تحب'],
+  technical: ['أداء عالٍ ومواصفات دقيقة', 'تقنية تعتمد عليها', 'مواصفات تتفوق على فئته', 'هندسة تدوم طويلاً', 'قوة وكفاءة في جهاز واحد'],
+};
+
+const HEADLINE_FORMATS: ((title: string, hook: string) => string)[] = [
+  (title, hook) => `${title} - ${hook}`,
+  (title, hook) => `${hook}: ${title}`,
+  (title, hook) => `${title} | ${hook}`,
+  (title, hook) => `${hook} مع ${title}`,
+];
+
+const CALLS_TO_ACTION: Record<Dialect, (title: string) => string> = {
+  msa: (title) => `احصل على ${title} الآن بأفضل سعر مع التوصيل إلى باب منزلك والدفع عند الاستلام.`,
+  gulf: (title) => `اطلب ${title} الحين بأحسن سعر، يوصلك لين باب البيت وتدفع عند الاستلام.`,
+  egyptian: (title) => `اطلب ${title} دلوقتي بأحسن سعر، هيوصلك لحد باب البيت وتدفع لما تستلم.`,
+  levantine: (title) => `اطلب ${title} هلق بأحسن سعر، بيوصلك لباب البيت وبتدفع وقت الاستلام.`,
+  maghrebi: (title) => `طلب ${title} دابا بأحسن ثمن، كيوصلك حتى لباب الدار وتخلص ملي توصلك.`,
+};
+
+const OPENERS = [
+  '',
+  'اكتشف الفرق مع هذا المنتج. ',
+  'صُمم ليناسب احتياجاتك اليومية. ',
+  'جودة تلمسها من أول يوم. ',
+  'اختيار آلاف العملاء. ',
+];
+
+// Splits a variant number into one index per option list, so consecutive
+// variants differ and no combination repeats before all have been used.
+const variation = (variant: number, ...sizes: number[]) =>
+  sizes.map((size, i) => Math.floor(variant / sizes.slice(0, i).reduce((product, n) => product * n, 1)) % size);
+
+const FALLBACK_FEATURES = [
+  'جودة عالية ومواد متينة',
+  'توصيل سريع لجميع المدن',
+  'الدفع نقداً عند الاستلام',
+  'إمكانية فحص المنتج قبل الدفع',
+];
+
+const translate = (product: ImportedProduct): ProductTranslation => ({
+  title: product.title,
+  description: product.description,
+  attributes: product.attributes,
+});
+
+// Product questions only; payment and delivery answers come from the store's COD policy.
+const faqPool = (title: string, product: ImportedProduct) => {
+  const specs = Object.entries(product.attributes).slice(0, 4).map(([name, value]) => `${name}: ${value}`);
+  return [
+    {
+      question: `ما هي مواصفات ${title}؟`,
+      answer: specs.length ? `${specs.join('، ')}.` : 'جميع المواصفات موضحة في وصف المنتج أعلاه.',
+    },
+    {
+      question: `هل ${title} أصلي؟`,
+      answer: 'نعم، المنتج أصلي ومطابق للصور والوصف المعروض في الصفحة.',
+    },
+    {
+      question: `لمن يناسب ${title}؟`,
+      answer: 'يناسب الاستخدام اليومي، ويُعد خياراً مثالياً كهدية لمن تحب.',
+    },
+    ...(product.rating ? [{
+      question: 'ما رأي المشترين في المنتج؟',
+      answer: `حصل على تقييم ${product.rating.value} من ${product.rating.best ?? 5}${product.rating.count ? ` في ${product.rating.count} تقييم` : ''}.`,
+    }] : []),
+  ];
+};
+
+// `variant` selects alternative phrasing so each regeneration differs but stays reproducible.
+const landingCopy = (product: ImportedProduct, { dialect, tone }: CopyVoice, variant = 0): LandingCopy => {
+  const title = product.title || 'المنتج';
+  const attributeFeatures = Object.entries(product.attributes).map(([name, value]) => `${name}: ${value}`);
+  const features = [...attributeFeatures, ...FALLBACK_FEATURES].slice(0, Math.max(3, Math.min(attributeFeatures.length, 6)));
+  const summary = product.description ? product.description.slice(0, 240) : '';
+  const [, format] = variation(variant, HOOKS[tone].length, HEADLINE_FORMATS.length);
+  const [opener, ctaFirst] = variation(variant, OPENERS.length, 2);
+  const body = ctaFirst ? [CALLS_TO_ACTION[dialect](title), summary] : [summary, CALLS_TO_ACTION[dialect](title)];
+
+  return {
+    headline: HEADLINE_FORMATS[format](title, pick(HOOKS[tone], title, variant)).slice(0, 120),
+    description: `${OPENERS[opener]}${body.filter(Boolean).join(' ')}`,
+    features: rotate(features, variant),
+    faq: rotate(faqPool(title, product), variant).slice(0, 3),
+  };
+};
+
+export const mockProvider: CopyProvider = {
+  id: 'mock',
+  complete: async ({ templateId, variables }: CompletionRequest) => {
+    const product = variables.product as ImportedProduct;
+    switch (templateId) {
+      case 'translate-product':
+        return JSON.stringify(translate(product));
+      case 'landing-copy':
+        return JSON.stringify(landingCopy(product, (variables.voice as CopyVoice) ?? DEFAULT_VOICE));
+      case 'section-copy': {
+        const copy = landingCopy(product, (variables.voice as CopyVoice) ?? DEFAULT_VOICE, Number(variables.variant) || 0);
+        return JSON.stringify({ value: copy[variables.section as keyof LandingCopy] });
+      }
+      default:
+        throw new Error(`Mock provider has no response for template "${templateId}"`);
+    }
+  },
+};
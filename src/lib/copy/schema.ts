@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+export const faqItemSchema = z.object({
+  question: z.string().trim().min(1),
+  answer: z.string().trim().min(1),
+});
+
+export const landingCopySchema = z.object({
+  headline: z.string().trim().min(1).max(120),
+  description: z.string().trim().min(20),
+  features: z.array(z.string().trim().min(1)).min(3).max(8),
+  faq: z.array(faqItemSchema).min(2).max(8),
+});
+
+export const productTranslationSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string(),
+  attributes: z.record(z.string()),
+});
+
+export type FaqItem = z.infer<typeof faqItemSchema>;
+export type LandingCopy = z.infer<typeof landingCopySchema>;
+export type ProductTranslation = z.infer<typeof productTranslationSchema>;
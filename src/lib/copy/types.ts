@@ -0,0 +1,25 @@
+export interface CompletionRequest {
+  templateId: string;
+  templateVersion: number;
+  system: string;
+  prompt: string;
+  variables: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface CopyProvider {
+  id: string;
+  complete: (request: CompletionRequest) => Promise<string>;
+}
+
+export class CopyGenerationError extends Error {
+  templateId: string;
+  issues: string[];
+
+  constructor(templateId: string, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'CopyGenerationError';
+    this.templateId = templateId;
+    this.issues = issues;
+  }
+}
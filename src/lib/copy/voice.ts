@@ -0,0 +1,43 @@
+export type Dialect = 'msa' | 'gulf' | 'egyptian' | 'levantine' | 'maghrebi';
+
+export type Tone = 'luxury' | 'urgent' | 'friendly' | 'technical';
+
+export interface CopyVoice {
+  dialect: Dialect;
+  tone: Tone;
+}
+
+export const DEFAULT_VOICE: CopyVoice = { dialect: 'msa', tone: 'friendly' };
+
+export const DIALECT_LABELS: Record<Dialect, string> = {
+  msa: 'العربية الفصحى',
+  gulf: 'اللهجة الخليجية',
+  egyptian: 'اللهجة المصرية',
+  levantine: 'اللهجة الشامية',
+  maghrebi: 'اللهجة المغاربية',
+};
+
+export const TONE_LABELS: Record<Tone, string> = {
+  luxury: 'فاخر',
+  urgent: 'عاجل',
+  friendly: 'ودود',
+  technical: 'تقني',
+};
+
+const DIALECT_INSTRUCTIONS: Record<Dialect, string> = {
+  msa: 'اكتب بالعربية الفصحى المبسطة المفهومة في جميع الدول العربية.',
+  gulf: 'اكتب باللهجة الخليجية البيضاء كما يتحدث بها المشترون في السعودية والإمارات والكويت، مع تجنب الكلمات العامية الثقيلة.',
+  egyptian: 'اكتب باللهجة المصرية العامية القريبة من لغة الإعلانات المصرية.',
+  levantine: 'اكتب باللهجة الشامية كما في سوريا ولبنان والأردن وفلسطين.',
+  maghrebi: 'اكتب بالدارجة المغاربية المفهومة في المغرب والجزائر وتونس، بحروف عربية.',
+};
+
+const TONE_INSTRUCTIONS: Record<Tone, string> = {
+  luxury: 'استخدم نبرة فاخرة وراقية تركز على الجودة والتميز والحصرية، دون مبالغة رخيصة.',
+  urgent: 'استخدم نبرة عاجلة تحث على الشراء الآن وتبرز محدودية العرض، دون اختلاق أرقام أو مواعيد.',
+  friendly: 'استخدم نبرة ودودة وقريبة من القارئ كأنك تنصح صديقاً.',
+  technical: 'استخدم نبرة تقنية دقيقة تركز على المواصفات والأرقام والفوائد العملية.',
+};
+
+export const voiceInstructions = ({ dialect, tone }: CopyVoice) =>
+  `${DIALECT_INSTRUCTIONS[dialect]}\n${TONE_INSTRUCTIONS[tone]}`;
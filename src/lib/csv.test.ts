@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { parseBulkInput } from "./bulk";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it.each([
+    ['comma', 'url,price\nhttps://a.example.com,199.50', [['url', 'price'], ['https://a.example.com', '199.50']]],
+    ['semicolon', 'url;price\nhttps://a.example.com;199,50', [['url', 'price'], ['https://a.example.com', '199,50']]],
+    ['tab', 'url\tprice\nhttps://a.example.com\t1,299', [['url', 'price'], ['https://a.example.com', '1,299']]],
+  ])("uses the %s delimiter of the first line for the whole file", (_name, text, expected) => {
+    expect(parseCsv(text)).toEqual(expected);
+  });
+
+  it("ignores delimiters inside quoted header cells", () => {
+    expect(parseCsv('"a,b";c\n1,5;2')).toEqual([['a,b', 'c'], ['1,5', '2']]);
+  });
+
+  it("reads decimal commas in semicolon files without a header", () => {
+    expect(parseBulkInput('https://a.example.com/p;199,50;80').rows).toEqual([
+      { line: 1, url: 'https://a.example.com/p', price: 199.5, cost: 80 },
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes fields with delimiters, quotes and newlines", () => {
+    expect(toCsv([['a,b', 'say "hi"', 'x\ny', 5]])).toBe('﻿"a,b","say ""hi""","x\ny",5');
+  });
+
+  it.each(['=HYPERLINK("http://evil.example")', '+1+1', '-2+3', '@SUM(A1)'])("neutralizes the formula %s", (value) => {
+    expect(toCsv([[value]]).slice(1)).toMatch(/^"?'/);
+  });
+
+  it("keeps negative numbers numeric", () => {
+    expect(toCsv([[-5]])).toBe('﻿-5');
+  });
+});
@@ -0,0 +1,68 @@
+const DELIMITERS = ['\t', ';', ','];
+
+// The delimiter is whichever of tab, semicolon and comma the first line uses
+// most, so semicolon files can keep decimal commas ("199,50").
+const detectDelimiter = (text: string) => {
+  const counts = new Map(DELIMITERS.map((d) => [d, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char) + 1);
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d) > counts.get(best) ? d : best), ',');
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, quotes ("") and newlines.
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.map((r) => r.map((f) => f.trim())).filter((r) => r.some(Boolean));
+};
+
+// Spreadsheets run text cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeField = (value: unknown) => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes Excel open UTF-8 Arabic text correctly.
+export const toCsv = (rows: unknown[][]) =>
+  '﻿' + rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
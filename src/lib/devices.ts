@@ -0,0 +1,14 @@
+export type DeviceId = 'mobile' | 'tablet' | 'desktop';
+
+export interface DeviceViewport {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// CSS viewport sizes of common devices (iPhone 14, iPad Air, a small laptop).
+export const DEVICES: Record<DeviceId, DeviceViewport> = {
+  mobile: { label: 'جوال', width: 390, height: 844 },
+  tablet: { label: 'جهاز لوحي', width: 820, height: 1180 },
+  desktop: { label: 'سطح المكتب', width: 1280, height: 800 },
+};
@@ -0,0 +1,9 @@
+import { readStorage, writeStorage } from "@/lib/storage";
+
+const STORAGE_KEY = "arabiflow.editor";
+const DEFAULT_EDITOR_NAME = 'محرر';
+
+// Revisions are attributed to this name; there are no user accounts yet.
+export const getEditorName = () => readStorage(STORAGE_KEY) || DEFAULT_EDITOR_NAME;
+
+export const setEditorName = (name: string) => writeStorage(STORAGE_KEY, name.trim());
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildLandingPage } from "@/lib/landing";
+import { exportSiteBundle, type BundleManifest } from "./bundle";
+import { crc32 } from "./zip";
+
+const page = {
+  id: 'page-1',
+  revision: 'rev-1',
+  title: 'ساعة ذكية',
+  content: buildLandingPage({
+    headline: 'ساعة ذكية بشاشة AMOLED',
+    description: 'تتابع نشاطك اليومي وتدوم بطاريتها أسبوعاً كاملاً.',
+    features: ['شاشة واضحة', 'بطارية تدوم', 'مقاومة للماء'],
+    images: [],
+    offer: { price: 199, originalPrice: 249, currency: 'SAR' },
+  }),
+};
+
+const options = { ordersEndpoint: 'https://orders.example.com/hook' };
+
+interface ReadEntry {
+  path: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Reads an archive the way unzip does: from the end of central directory
+// record, through the central directory, to each local header.
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const directorySize = view.getUint32(end + 12, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    expect(view.getUint16(position + 10, true)).toBe(0); // STORE
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const path = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 22, true)).toBe(size);
+    expect(decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength))).toBe(path);
+    const start = offset + 30 + nameLength;
+    entries.push({ path, crc, data: zip.subarray(start, start + size) });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(end);
+  return entries;
+};
+
+const sha256Hex = async (data: Uint8Array) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', data)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+describe("exportSiteBundle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("builds the same bytes for the same page at any time", async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-10-19T10:00:00Z'), toFake: ['Date'] });
+    const first = await exportSiteBundle(page, options);
+    vi.setSystemTime(Date.parse('2027-03-01T18:30:00Z'));
+    const second = await exportSiteBundle(page, options);
+
+    expect(second).toEqual(first);
+  });
+
+  it("writes a valid archive whose files match the manifest", async () => {
+    const entries = readZip(await exportSiteBundle(page, options));
+    const paths = entries.map((entry) => entry.path);
+
+    expect(paths.slice(0, 3)).toEqual(['index.html', 'thank-you.html', 'robots.txt']);
+    expect(paths.slice(3, -1)).toEqual([...paths.slice(3, -1)].sort());
+    expect(paths.at(-1)).toBe('manifest.json');
+    for (const entry of entries) expect(crc32(entry.data)).toBe(entry.crc);
+
+    const manifest = JSON.parse(new TextDecoder().decode(entries.at(-1).data)) as BundleManifest;
+    expect(manifest).toMatchObject({
+      format: 'arabiflow-site-bundle',
+      entry: 'index.html',
+      page: { id: 'page-1', revision: 'rev-1' },
+      form: { endpoint: 'https://orders.example.com/hook', thankYouPage: 'thank-you.html' },
+    });
+    expect(manifest.files.map((file) => file.path)).toEqual(paths.slice(0, -1));
+    for (const file of manifest.files) {
+      const entry = entries.find((e) => e.path === file.path);
+      expect(file.bytes).toBe(entry.data.length);
+      expect(file.sha256).toBe(await sha256Hex(entry.data));
+    }
+
+    const index = new TextDecoder().decode(entries[0].data);
+    for (const asset of paths.filter((path) => path.startsWith('assets/'))) expect(index).toContain(asset);
+  });
+});
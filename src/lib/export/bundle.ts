@@ -0,0 +1,111 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ThankYouView from "@/components/landing/ThankYouView";
+import { sha256 } from "@/lib/assets";
+import { landingDocument } from "@/lib/landing";
+import { fontLink } from "./fonts";
+import { descriptionMeta, exportCss, imageExtension, renderExport, type ExportOptions, type ExportSource } from "./html";
+import { createZip } from "./zip";
+
+export const BUNDLE_FORMAT = 'arabiflow-site-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const INDEX_PAGE = 'index.html';
+const THANK_YOU_PAGE = 'thank-you.html';
+const HASH_LENGTH = 12;
+
+const ROBOTS_TXT = ['User-agent: *', 'Allow: /', `Disallow: /${THANK_YOU_PAGE}`, ''].join('\n');
+
+export interface BundleFile {
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  page: {
+    id?: string;
+    title: string;
+    revision?: string;
+    // Identifies the exact content the bundle was built from.
+    contentHash: string;
+  };
+  form: {
+    endpoint: string;
+    method: 'POST';
+    contentType: 'application/json';
+    thankYouPage: string;
+  };
+  entry: string;
+  files: BundleFile[];
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const hash = (data: Uint8Array) => sha256(data.buffer as ArrayBuffer);
+
+// A ZIP with index.html, thank-you.html and content-hashed assets. Nothing in
+// it depends on when it was built: entries are sorted, timestamps fixed and
+// the font is linked rather than fetched, so the same page revision always
+// gives the same bytes.
+export const exportSiteBundle = async (page: ExportSource, options: ExportOptions) => {
+  const assets = new Map<string, Uint8Array>();
+  const addAsset = async (data: Uint8Array, extension: string) => {
+    const path = `assets/${(await hash(data)).slice(0, HASH_LENGTH)}.${extension}`;
+    assets.set(path, data);
+    return path;
+  };
+
+  const rendered = await renderExport(page, { ...options, thankYouUrl: THANK_YOU_PAGE }, async (blob) =>
+    addAsset(new Uint8Array(await blob.arrayBuffer()), imageExtension(blob))
+  );
+  const thankYouMarkup = renderToStaticMarkup(createElement(ThankYouView, { page: page.content, backHref: INDEX_PAGE }));
+  const stylesheet = await addAsset(encode(exportCss(rendered.markup, thankYouMarkup)), 'css');
+  const script = await addAsset(encode(rendered.script), 'js');
+
+  const head = (description = '') =>
+    [descriptionMeta(description), fontLink(rendered.fontFamily), `<link rel="stylesheet" href="${stylesheet}" />`]
+      .filter(Boolean)
+      .join('\n');
+
+  const files = new Map<string, Uint8Array>([
+    [INDEX_PAGE, encode(landingDocument({
+      title: rendered.title,
+      head: head(rendered.description),
+      body: `${rendered.markup}\n<script src="${script}"></script>`,
+    }))],
+    [THANK_YOU_PAGE, encode(landingDocument({
+      title: 'تم تأكيد طلبك',
+      head: `<meta name="robots" content="noindex" />\n${head()}`,
+      body: thankYouMarkup,
+    }))],
+    ['robots.txt', encode(ROBOTS_TXT)],
+    ...Array.from(assets).sort(([a], [b]) => (a < b ? -1 : 1)),
+  ]);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    page: {
+      id: page.id,
+      title: page.title,
+      revision: page.revision,
+      contentHash: await hash(encode(JSON.stringify(page.content))),
+    },
+    form: {
+      endpoint: options.ordersEndpoint ?? '',
+      method: 'POST',
+      contentType: 'application/json',
+      thankYouPage: THANK_YOU_PAGE,
+    },
+    entry: INDEX_PAGE,
+    files: await Promise.all(
+      Array.from(files, async ([path, data]) => ({ path, bytes: data.length, sha256: await hash(data) }))
+    ),
+  };
+  files.set('manifest.json', encode(`${JSON.stringify(manifest, null, 2)}\n`));
+
+  return createZip(Array.from(files, ([path, data]) => ({ path, data })));
+};
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { criticalCss, scopeSelector } from "./css";
+
+const SCOPE = '[data-landing-page]';
+
+describe("scopeSelector", () => {
+  it.each([
+    ['.flex', '[data-landing-page] .flex, [data-landing-page].flex'],
+    ['.hover\\:bg-primary:hover', '[data-landing-page] .hover\\:bg-primary:hover, [data-landing-page].hover\\:bg-primary:hover'],
+    ['.space-y-4 > :not([hidden]) ~ :not([hidden])', '[data-landing-page] .space-y-4 > :not([hidden]) ~ :not([hidden]), [data-landing-page].space-y-4 > :not([hidden]) ~ :not([hidden])'],
+    ['a.underline', '[data-landing-page] a.underline'],
+    ['h1', ':where([data-landing-page]) h1'],
+    [':root', ':where([data-landing-page])'],
+    ['body', ':where([data-landing-page])'],
+    ['html:-moz-focusring', ':where([data-landing-page]):-moz-focusring'],
+    ['*, ::before', ':where([data-landing-page]), :where([data-landing-page]) *, :where([data-landing-page]) ::before'],
+  ])("scopes %s", (selector, expected) => {
+    expect(scopeSelector(selector, SCOPE)).toBe(expected);
+  });
+});
+
+describe("criticalCss", () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps global and class rules inside the scope", () => {
+    // jsdom implements neither; the sheet below has no such rules.
+    vi.stubGlobal('CSSGroupingRule', class {});
+    vi.stubGlobal('CSSKeyframesRule', class {});
+    const style = document.createElement('style');
+    style.textContent = [
+      '*, ::before { border-width: 0; }',
+      'body { margin: 0; }',
+      'h1 { font-size: inherit; }',
+      '.text-xl { font-size: 1.25rem; }',
+      '.unused { color: red; }',
+      '.sm\\:p-8:hover { padding: 2rem; }',
+    ].join('\n');
+    document.head.append(style);
+
+    const css = criticalCss('<div class="text-xl sm:p-8"><h1>عنوان</h1></div>', document.styleSheets, SCOPE);
+
+    expect(css).toContain(':where([data-landing-page]), :where([data-landing-page]) *, :where([data-landing-page]) ::before {');
+    expect(css).toContain(':where([data-landing-page]) {margin: 0;}');
+    expect(css).toContain(':where([data-landing-page]) h1 {');
+    expect(css).toContain('[data-landing-page] .text-xl, [data-landing-page].text-xl {');
+    expect(css).toContain('[data-landing-page] .sm\\:p-8:hover, [data-landing-page].sm\\:p-8:hover {');
+    expect(css).not.toContain('.unused');
+    expect(css).not.toMatch(/(^|\n)(body|h1|\*|\.)/);
+  });
+});
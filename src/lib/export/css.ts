@@ -0,0 +1,76 @@
+const CLASS_TOKEN = /\.((?:\\.|[\w-])+)/g;
+
+const unescapeClass = (token: string) => token.replace(/\\(.)/g, '$1');
+
+const selectorClasses = (part: string) =>
+  Array.from(part.replace(/:not\([^)]*\)/g, '').matchAll(CLASS_TOKEN), (match) => unescapeClass(match[1]));
+
+// A selector applies when every class it names is used somewhere in the
+// markup. State variants (hover, aria-checked, group-open) are kept because
+// they only add pseudo-classes or attributes to a used class.
+const selectorUsed = (selector: string, used: Set<string>) =>
+  selector.split(',').some((part) => selectorClasses(part).every((name) => used.has(name)));
+
+const DOCUMENT_ROOT = /^(?:html|body|:root|:host)(?![\w-])/;
+
+// Every rule is pinned to the scope element so it cannot restyle the rest of
+// the document, whose own `.hidden` or `.container` may mean something else.
+// Class rules match inside the scope and on the scope element, which carries
+// utilities too. Rules without a class (preflight resets, `body`, `h1`,
+// `:root`) go in :where(), which adds no specificity, so utilities still
+// override them as before.
+export const scopeSelector = (selector: string, scope: string) =>
+  selector.split(',').map((part) => {
+    const trimmed = part.trim();
+    if (selectorClasses(trimmed).length) {
+      return /^[.:[]/.test(trimmed) ? `${scope} ${trimmed}, ${scope}${trimmed}` : `${scope} ${trimmed}`;
+    }
+    if (DOCUMENT_ROOT.test(trimmed)) return trimmed.replace(DOCUMENT_ROOT, `:where(${scope})`);
+    // `*` resets apply to the scope element as well as everything inside it.
+    if (trimmed.startsWith('*')) return `:where(${scope})${trimmed.slice(1)}, :where(${scope}) ${trimmed}`;
+    return `:where(${scope}) ${trimmed}`;
+  }).join(', ');
+
+const collectClasses = (markup: string) => {
+  const doc = new DOMParser().parseFromString(markup, 'text/html');
+  const used = new Set<string>();
+  doc.querySelectorAll('[class]').forEach((el) => el.classList.forEach((name) => used.add(name)));
+  return used;
+};
+
+const keepRules = (rules: CSSRuleList, used: Set<string>, keyframes: CSSKeyframesRule[], scope?: string): string[] =>
+  Array.from(rules).flatMap((rule) => {
+    if (rule instanceof CSSStyleRule) {
+      if (!selectorUsed(rule.selectorText, used)) return [];
+      return [scope ? `${scopeSelector(rule.selectorText, scope)} ${rule.cssText.slice(rule.cssText.indexOf('{'))}` : rule.cssText];
+    }
+    if (rule instanceof CSSKeyframesRule) {
+      keyframes.push(rule);
+      return [];
+    }
+    // @media, @supports and @layer blocks keep their condition around the used rules.
+    if (rule instanceof CSSGroupingRule) {
+      const inner = keepRules(rule.cssRules, used, keyframes, scope);
+      return inner.length ? [`${rule.cssText.slice(0, rule.cssText.indexOf('{')).trim()} {${inner.join('')}}`] : [];
+    }
+    // Fonts are embedded separately; imports would pull the whole sheet back in.
+    return [];
+  });
+
+// The app's rules that the exported markup needs, optionally scoped with
+// scopeSelector. Cross-origin sheets (the Google Fonts link) cannot be read
+// and are skipped.
+export const criticalCss = (markup: string, sheets: StyleSheetList = document.styleSheets, scope?: string) => {
+  const used = collectClasses(markup);
+  const keyframes: CSSKeyframesRule[] = [];
+  const kept = Array.from(sheets).flatMap((sheet) => {
+    try {
+      return keepRules(sheet.cssRules, used, keyframes, scope);
+    } catch {
+      return [];
+    }
+  });
+  const css = kept.join('\n');
+  const animations = keyframes.filter((rule) => css.includes(rule.name)).map((rule) => rule.cssText);
+  return [css, ...animations].join('\n');
+};
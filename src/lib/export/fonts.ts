@@ -0,0 +1,69 @@
+// The weights index.html loads for each template font.
+const FONT_WEIGHTS: Record<string, number[]> = {
+  Cairo: [300, 400, 500, 600, 700],
+  Tajawal: [400, 500, 700],
+  Almarai: [400, 700],
+};
+
+const GOOGLE_FONTS_CSS = 'https://fonts.googleapis.com/css2';
+
+export const primaryFontFamily = (fontFamily: string) => fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+
+const fontCssUrl = (family: string, text?: string) => {
+  const weights = FONT_WEIGHTS[family] ?? [400, 700];
+  const params = new URLSearchParams({ family: `${family}:wght@${weights.join(';')}`, display: 'swap' });
+  if (text) params.set('text', text);
+  return `${GOOGLE_FONTS_CSS}?${params}`;
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export interface FontFile {
+  url: string;
+  blob: Blob;
+}
+
+// Google Fonts subsets to the characters passed in `text`, so a page only
+// carries the glyphs it actually uses.
+export const fetchFontSubset = async (fontFamily: string, text: string, signal?: AbortSignal) => {
+  const family = primaryFontFamily(fontFamily);
+  const chars = Array.from(new Set(Array.from(text.replace(/\s+/g, '')))).sort().join('');
+  const response = await fetch(fontCssUrl(family, chars), { signal });
+  if (!response.ok) throw new Error(`تعذر تحميل الخط ${family}`);
+  const css = await response.text();
+
+  const urls = Array.from(new Set(Array.from(css.matchAll(/url\((['"]?)(.+?)\1\)/g), (match) => match[2])));
+  const files = await Promise.all(
+    urls.map(async (url): Promise<FontFile> => {
+      const file = await fetch(url, { signal });
+      if (!file.ok) throw new Error(`تعذر تحميل الخط ${family}`);
+      return { url, blob: await file.blob() };
+    })
+  );
+  return { css, files };
+};
+
+// @font-face rules with the subset inlined as data URLs. Falls back to a link
+// to Google Fonts when the subset cannot be fetched, e.g. offline.
+export const embedFont = async (fontFamily: string, text: string, signal?: AbortSignal) => {
+  try {
+    const { css, files } = await fetchFontSubset(fontFamily, text, signal);
+    let embedded = css;
+    for (const file of files) {
+      embedded = embedded.split(file.url).join(await blobToDataUrl(file.blob));
+    }
+    return `<style>${embedded}</style>`;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return fontLink(fontFamily);
+  }
+};
+
+export const fontLink = (fontFamily: string) =>
+  `<link rel="stylesheet" href="${fontCssUrl(primaryFontFamily(fontFamily)).replace(/&/g, '&amp;')}" />`;
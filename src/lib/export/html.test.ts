@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSection, LANDING_SCHEMA_VERSION, type LandingPage, type SectionOf } from "@/lib/landing";
+import { renderStaticPage } from "./html";
+
+const pageWith = (countdown: Partial<SectionOf<'countdown'>>): LandingPage => ({
+  schemaVersion: LANDING_SCHEMA_VERSION,
+  template: 'classic',
+  offer: { currency: 'SAR', options: [], variants: [] },
+  sections: [{ ...createSection('countdown'), id: 'countdown-1', ...countdown } as SectionOf<'countdown'>],
+});
+
+describe("renderStaticPage countdown", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it("renders the same placeholder digits whenever it runs", () => {
+    const page = pageWith({ mode: 'fixed', endsAt: '2030-01-01T00:00:00.000Z' });
+    vi.useFakeTimers({ now: Date.parse('2026-10-19T10:00:00Z') });
+    const first = renderStaticPage(page);
+    vi.setSystemTime(Date.parse('2026-10-19T10:00:07Z'));
+
+    expect(renderStaticPage(page)).toBe(first);
+    expect(first.match(/data-unit="\w+">(\d+)</g)).toEqual([
+      'data-unit="days">00<',
+      'data-unit="hours">00<',
+      'data-unit="minutes">00<',
+      'data-unit="seconds">00<',
+    ]);
+  });
+
+  it("leaves the evergreen deadline to the exported page", () => {
+    const html = renderStaticPage(pageWith({ mode: 'evergreen' }));
+
+    expect(html).toContain('data-countdown-timer');
+    expect(localStorage.length).toBe(0);
+  });
+});
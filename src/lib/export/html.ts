@@ -0,0 +1,164 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import LandingPageView from "@/components/landing/LandingPageView";
+import { StaticRenderContext } from "@/hooks/use-static-render";
+import { assetIdFromRef, getAsset, getRenditionBlob, isAssetRef } from "@/lib/assets";
+import { formatPrice } from "@/lib/format";
+import { escapeHtml } from "@/lib/html";
+import {
+  findSection,
+  getTemplate,
+  imageRefs,
+  isInStock,
+  landingDocument,
+  mapImages,
+  variantLabel,
+  variantPrice,
+  type ImageSlot,
+  type LandingPage,
+} from "@/lib/landing";
+import { criticalCss, scopeSelector } from "./css";
+import { blobToDataUrl, embedFont, fontLink } from "./fonts";
+import { runtimeScript, type RuntimeConfig } from "./runtime";
+import type { ExportSettings } from "./settings";
+
+const IMAGE_WIDTHS: Record<ImageSlot, number> = { gallery: 960, review: 480, variant: 480 };
+
+const DESCRIPTION_LENGTH = 160;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+};
+
+// Visitors type names and addresses the page text may not contain, so the
+// font subset always covers the Arabic letters, digits and punctuation.
+const FORM_CHARACTERS =
+  'ءآأؤإئابةتثجحخدذرزسشصضطظعغفقكلمنهوىي' + '٠١٢٣٤٥٦٧٨٩0123456789' + '،؛؟.,:-+/()#';
+
+// Without this, utilities like `flex` override the hidden attribute the
+// exported script toggles.
+const baseCss = (scope?: string) => `${scope ? scopeSelector('[hidden]', scope) : '[hidden]'}{display:none!important}`;
+
+// A saved page, or the demo page, which has no id.
+export interface ExportSource {
+  id?: string;
+  // The revision the content was taken from, recorded in bundle manifests.
+  revision?: string;
+  title: string;
+  content: LandingPage;
+}
+
+export interface ExportOptions extends ExportSettings {
+  thankYouUrl?: string;
+  signal?: AbortSignal;
+}
+
+export const imageExtension = (blob: Blob) => IMAGE_EXTENSIONS[blob.type] ?? 'bin';
+
+// Turns an image rendition into the src the exported page uses.
+export type ImageWriter = (blob: Blob) => Promise<string>;
+
+// Local assets are replaced by the WebP rendition each slot displays at;
+// remote images are left pointing at their source.
+const rewriteImages = async (content: LandingPage, write: ImageWriter) => {
+  const sources = new Map<string, string>();
+  for (const { src, slot } of imageRefs(content)) {
+    if (!isAssetRef(src)) continue;
+    const asset = await getAsset(assetIdFromRef(src));
+    const blob = asset && (await getRenditionBlob(asset, IMAGE_WIDTHS[slot])).blob;
+    if (blob) sources.set(src, await write(blob));
+  }
+  return mapImages(content, (src) => sources.get(src) ?? src);
+};
+
+const runtimeConfig = (page: ExportSource, content: LandingPage, options: ExportOptions): RuntimeConfig => {
+  const { offer } = content;
+  return {
+    endpoint: options.ordersEndpoint,
+    thankYouUrl: options.thankYouUrl,
+    pageId: page.id,
+    product: page.title,
+    currency: offer.currency,
+    amount: offer.price,
+    options: offer.options.map((option) => option.name),
+    variants: offer.variants.map((variant) => ({
+      id: variant.id,
+      label: variantLabel(variant, offer.options),
+      values: variant.values,
+      amount: variantPrice(offer, variant),
+      price: formatPrice(variantPrice(offer, variant), offer.currency),
+      inStock: isInStock(offer, variant),
+      image: variant.image,
+    })),
+  };
+};
+
+export const renderStaticPage = (content: LandingPage) =>
+  renderToStaticMarkup(
+    createElement(StaticRenderContext.Provider, { value: true }, createElement(LandingPageView, { page: content }))
+  );
+
+export const pageDescription = (content: LandingPage) => {
+  const description = findSection(content, 'features')?.description.trim() ?? '';
+  return description.length > DESCRIPTION_LENGTH ? `${description.slice(0, DESCRIPTION_LENGTH - 1)}…` : description;
+};
+
+export interface RenderedExport {
+  title: string;
+  description: string;
+  fontFamily: string;
+  markup: string;
+  script: string;
+}
+
+// Everything both export formats need, with images written by `writeImage`.
+export const renderExport = async (page: ExportSource, options: ExportOptions, writeImage: ImageWriter): Promise<RenderedExport> => {
+  const content = await rewriteImages(page.content, writeImage);
+  const markup = renderStaticPage(content);
+  return {
+    title: findSection(content, 'hero')?.headline || page.title,
+    description: pageDescription(content),
+    fontFamily: getTemplate(content.template).typography.fontFamily,
+    markup,
+    script: runtimeScript(runtimeConfig(page, content, options)),
+  };
+};
+
+// Critical CSS for all documents of an export. Must run in the dashboard: it
+// reads the app's compiled stylesheets.
+export const exportCss = (...markup: string[]) => `${baseCss()}\n${criticalCss(markup.join('\n'))}`;
+
+// LandingPageView's root element. A fragment shares the document with the
+// CMS theme, so its global rules must not leave the landing page.
+const FRAGMENT_SCOPE = '[data-landing-page]';
+
+const fragmentCss = (markup: string) =>
+  `${baseCss(FRAGMENT_SCOPE)}\n${criticalCss(markup, document.styleSheets, FRAGMENT_SCOPE)}`;
+
+export const descriptionMeta = (description: string) =>
+  description ? `<meta name="description" content="${escapeHtml(description)}" />` : '';
+
+// The page as a fragment for a CMS page body, which supplies its own document.
+export const exportFragment = (rendered: RenderedExport) =>
+  [
+    fontLink(rendered.fontFamily),
+    `<style>${fragmentCss(rendered.markup)}</style>`,
+    rendered.markup,
+    `<script>${rendered.script}</script>`,
+  ].join('\n');
+
+// One RTL HTML file with everything inlined, so it can be hosted anywhere.
+export const exportStandaloneHtml = async (page: ExportSource, options: ExportOptions) => {
+  const rendered = await renderExport(page, options, blobToDataUrl);
+  const text = new DOMParser().parseFromString(rendered.markup, 'text/html').body.textContent + rendered.script + FORM_CHARACTERS;
+  const font = await embedFont(rendered.fontFamily, text, options.signal);
+
+  return landingDocument({
+    title: rendered.title,
+    head: [descriptionMeta(rendered.description), font, `<style>${exportCss(rendered.markup)}</style>`].filter(Boolean).join('\n'),
+    body: `${rendered.markup}\n<script>${rendered.script}</script>`,
+  });
+};
@@ -0,0 +1,7 @@
+export * from "./settings";
+export * from "./css";
+export * from "./fonts";
+export * from "./runtime";
+export * from "./html";
+export * from "./zip";
+export * from "./bundle";
@@ -0,0 +1,170 @@
+import { jsonLdScript } from "@/lib/landing";
+
+export interface RuntimeVariant {
+  id: string;
+  label: string;
+  values: Record<string, string>;
+  amount?: number;
+  price: string;
+  inStock: boolean;
+  image?: string;
+}
+
+export interface RuntimeConfig {
+  endpoint: string;
+  pageId?: string;
+  product: string;
+  currency: string;
+  amount?: number;
+  options: string[];
+  variants: RuntimeVariant[];
+  // Set by bundle exports, which ship a separate thank-you page.
+  thankYouUrl?: string;
+}
+
+// Runs inside the exported page, so it is serialized with toString() and must
+// not reference anything outside its own body. Mirrors CountdownSection,
+// countdownDeadline and CODForm for pages without React.
+function landingRuntime(config: RuntimeConfig) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  document.querySelectorAll<HTMLElement>('[data-countdown]').forEach((root) => {
+    const timer = root.querySelector<HTMLElement>('[data-countdown-timer]');
+    const expired = root.querySelector<HTMLElement>('[data-countdown-expired]');
+    if (!timer || !expired) return;
+
+    let deadline = Date.parse(root.dataset.endsAt || '');
+    if (root.dataset.countdown === 'evergreen') {
+      const key = `arabiflow.countdown.${root.dataset.countdownKey}`;
+      const duration = Number(root.dataset.duration) * 60000;
+      try {
+        deadline = Number(localStorage.getItem(key));
+        if (!(deadline > 0)) {
+          deadline = Date.now() + duration;
+          localStorage.setItem(key, String(deadline));
+        }
+      } catch {
+        deadline = Date.now() + duration;
+      }
+    }
+
+    const tick = () => {
+      const total = Math.max(0, Math.floor((deadline - Date.now()) / 1000));
+      const parts: Record<string, number> = {
+        days: Math.floor(total / 86400),
+        hours: Math.floor((total % 86400) / 3600),
+        minutes: Math.floor((total % 3600) / 60),
+        seconds: total % 60,
+      };
+      root.querySelectorAll<HTMLElement>('[data-unit]').forEach((el) => {
+        el.textContent = pad(parts[el.dataset.unit]);
+      });
+      timer.hidden = total === 0;
+      expired.hidden = total > 0;
+      if (total === 0) window.clearInterval(interval);
+    };
+    const interval = window.setInterval(tick, 1000);
+    tick();
+  });
+
+  const form = document.querySelector<HTMLFormElement>('[data-cod-form]');
+  if (!form) return;
+  const status = form.querySelector<HTMLElement>('[data-cod-status]');
+  const submit = form.querySelector<HTMLButtonElement>('[data-cod-submit]');
+  const selection: Record<string, string> = {};
+
+  const matches = (variant: RuntimeVariant, values: Record<string, string>) =>
+    Object.keys(values).every((name) => variant.values[name] === values[name]);
+  const selected = () =>
+    config.options.every((name) => selection[name])
+      ? config.variants.find((variant) => matches(variant, selection))
+      : undefined;
+
+  const render = () => {
+    form.querySelectorAll<HTMLElement>('[data-option]').forEach((group) => {
+      const name = group.dataset.option;
+      group.querySelectorAll<HTMLButtonElement>('[data-value]').forEach((button) => {
+        const value = button.dataset.value;
+        const others: Record<string, string> = {};
+        Object.keys(selection).forEach((key) => {
+          if (key !== name) others[key] = selection[key];
+        });
+        others[name] = value;
+        button.setAttribute('aria-checked', String(selection[name] === value));
+        button.disabled = !config.variants.some((variant) => variant.inStock && matches(variant, others));
+      });
+    });
+
+    const variant = selected();
+    const price = form.querySelector('[data-cod-price]');
+    const label = form.querySelector('[data-cod-price-label]');
+    const image = form.querySelector<HTMLImageElement>('[data-cod-image]');
+    if (variant && price) price.textContent = variant.price;
+    if (variant && label) label.textContent = 'المبلغ عند الاستلام';
+    if (image) {
+      image.hidden = !variant?.image;
+      if (variant?.image) image.src = variant.image;
+    }
+  };
+
+  form.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-value]');
+    const group = button?.closest<HTMLElement>('[data-option]');
+    if (!button || !group) return;
+    selection[group.dataset.option] = button.dataset.value;
+    render();
+  });
+
+  const showError = (message: string) => {
+    if (!status) return;
+    status.textContent = message;
+    status.hidden = false;
+  };
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const field = (id: string) => (form.querySelector<HTMLInputElement | HTMLTextAreaElement>(`#${id}`)?.value || '').trim();
+    const variant = selected();
+    if (config.variants.length && !variant) return showError(`اختر ${config.options.join(' و')}`);
+    if (!config.endpoint) return showError('استقبال الطلبات غير مفعل لهذه الصفحة');
+
+    if (status) status.hidden = true;
+    if (submit) submit.disabled = true;
+    try {
+      const response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pageId: config.pageId,
+          product: config.product,
+          variant: variant && { id: variant.id, label: variant.label, values: variant.values },
+          fullName: field('fullName'),
+          phone: field('phone'),
+          address: field('address'),
+          notes: field('notes'),
+          quantity: 1,
+          amount: variant?.amount ?? config.amount,
+          currency: config.currency,
+          createdAt: new Date().toISOString(),
+          source: location.href,
+        }),
+      });
+      if (!response.ok) throw new Error(String(response.status));
+      if (config.thankYouUrl) {
+        location.href = config.thankYouUrl;
+        return;
+      }
+      form.hidden = true;
+      const success = form.parentElement?.querySelector<HTMLElement>('[data-cod-success]');
+      if (success) success.hidden = false;
+    } catch {
+      showError('تعذر إرسال الطلب، حاول مرة أخرى');
+    } finally {
+      if (submit) submit.disabled = false;
+    }
+  });
+
+  render();
+}
+
+export const runtimeScript = (config: RuntimeConfig) => `(${landingRuntime.toString()})(${jsonLdScript(config)});`;
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { readJson, writeJson } from "@/lib/storage";
+
+const STORAGE_KEY = "arabiflow.export";
+
+export const exportSettingsSchema = z.object({
+  // Exported forms POST orders here as JSON; empty disables ordering.
+  ordersEndpoint: z.string().trim().url().or(z.literal('')).default(''),
+});
+
+export type ExportSettings = z.infer<typeof exportSettingsSchema>;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = exportSettingsSchema.parse({});
+
+export const getExportSettings = (): ExportSettings => {
+  const parsed = exportSettingsSchema.safeParse(readJson(STORAGE_KEY) ?? {});
+  return parsed.success ? parsed.data : DEFAULT_EXPORT_SETTINGS;
+};
+
+export const setExportSettings = (settings: ExportSettings) => writeJson(STORAGE_KEY, settings);
@@ -0,0 +1,103 @@
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+// Every entry gets 1980-01-01 00:00, the earliest DOS timestamp, so the same
+// files always produce the same archive.
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+// Bit 11: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const header = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// An uncompressed (STORE) archive. Images and fonts are already compressed, so
+// deflate would gain little for the code it needs.
+export const createZip = (entries: ZipEntry[]) => {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    local.push(
+      header(30, (view) => {
+        view.setUint32(0, 0x04034b50, true);
+        view.setUint16(4, ZIP_VERSION, true);
+        view.setUint16(6, UTF8_FLAG, true);
+        view.setUint16(8, 0, true);
+        view.setUint16(10, DOS_TIME, true);
+        view.setUint16(12, DOS_DATE, true);
+        view.setUint32(14, crc, true);
+        view.setUint32(18, size, true);
+        view.setUint32(22, size, true);
+        view.setUint16(26, name.length, true);
+        view.setUint16(28, 0, true);
+      }),
+      name,
+      entry.data
+    );
+
+    central.push(
+      header(46, (view) => {
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, ZIP_VERSION, true);
+        view.setUint16(6, ZIP_VERSION, true);
+        view.setUint16(8, UTF8_FLAG, true);
+        view.setUint16(10, 0, true);
+        view.setUint16(12, DOS_TIME, true);
+        view.setUint16(14, DOS_DATE, true);
+        view.setUint32(16, crc, true);
+        view.setUint32(20, size, true);
+        view.setUint32(24, size, true);
+        view.setUint16(28, name.length, true);
+        view.setUint32(42, offset, true);
+      }),
+      name
+    );
+    offset += 30 + name.length + size;
+  }
+
+  const directory = concat(central);
+  const end = header(22, (view) => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, directory.length, true);
+    view.setUint32(16, offset, true);
+  });
+  return concat([...local, directory, end]);
+};
@@ -0,0 +1,37 @@
+const CURRENCY_LABELS: Record<string, string> = {
+  SAR: 'ريال',
+  AED: 'درهم',
+  MAD: 'درهم',
+  EGP: 'جنيه',
+  KWD: 'دينار',
+  QAR: 'ريال',
+  USD: 'دولار',
+  EUR: 'يورو',
+};
+
+export const formatPrice = (amount: number | undefined, currency = 'SAR') => {
+  if (amount === undefined) return '';
+  const label = CURRENCY_LABELS[currency] ?? currency;
+  return `${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${label}`;
+};
+
+export const discountPercent = (price?: number, originalPrice?: number) =>
+  price !== undefined && originalPrice && originalPrice > price
+    ? `${Math.round((1 - price / originalPrice) * 100)}%`
+    : '';
+
+export interface CountForms {
+  one: string;
+  two: string;
+  few: string;
+  many: string;
+}
+
+// Arabic counted nouns agree with the number: 3 to 10 take the plural
+// ("أيام") and 11 and up the singular ("يوماً").
+export const countedNoun = (count: number, { few, many }: Pick<CountForms, 'few' | 'many'>) =>
+  count % 100 >= 3 && count % 100 <= 10 ? few : many;
+
+// One and two have their own forms: "يوم واحد", "يومين".
+export const formatCount = (count: number, forms: CountForms) =>
+  count === 1 ? forms.one : count === 2 ? forms.two : `${count} ${countedNoun(count, forms)}`;
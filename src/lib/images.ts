@@ -0,0 +1,28 @@
+const DEFAULT_MAX_SIZE = 1200;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('تعذر قراءة الصورة'));
+    img.src = src;
+  });
+
+// Uploads are downscaled before they are stored so a handful of phone photos
+// does not exhaust browser storage.
+export const readImageFile = async (file: File, maxSize = DEFAULT_MAX_SIZE): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} ليس ملف صورة`);
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
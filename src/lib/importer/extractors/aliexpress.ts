@@ -0,0 +1,45 @@
+import { parsePrice } from "../parse";
+import type { ProductExtractor } from "./types";
+
+// Reads a JSON string value for `key` out of an inline script blob.
+const jsonString = (source: string, key: string) => {
+  const match = source.match(new RegExp(`"${key}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*")`));
+  if (!match) return undefined;
+  try {
+    return JSON.parse(match[1]) as string;
+  } catch {
+    return undefined;
+  }
+};
+
+const jsonStringArray = (source: string, key: string) => {
+  const match = source.match(new RegExp(`"${key}"\\s*:\\s*(\\[[^\\]]*\\])`));
+  if (!match) return [];
+  try {
+    return (JSON.parse(match[1]) as unknown[]).filter((v): v is string => typeof v === 'string');
+  } catch {
+    return [];
+  }
+};
+
+export const aliexpressExtractor: ProductExtractor = {
+  id: 'aliexpress',
+  label: 'AliExpress',
+  matchesUrl: (url) => /(^|\.)aliexpress\.(com|us|ru)$/.test(url.hostname),
+  extract: async ({ html }) => {
+    const rating = parsePrice(jsonString(html, 'averageStar') ?? jsonString(html, 'averageStarRate'));
+    const reviews = parsePrice(jsonString(html, 'totalValidNum'));
+    const price = jsonString(html, 'formatedActivityPrice') ?? jsonString(html, 'formatedPrice');
+    const originalPrice = jsonString(html, 'formatedActivityPrice') ? jsonString(html, 'formatedPrice') : undefined;
+
+    return {
+      title: jsonString(html, 'subject'),
+      price: parsePrice(price),
+      originalPrice: parsePrice(originalPrice),
+      currency: jsonString(html, 'currencyCode'),
+      images: jsonStringArray(html, 'imagePathList'),
+      attributes: {},
+      rating: rating ? { value: rating, count: reviews, best: 5 } : undefined,
+    };
+  },
+};
@@ -0,0 +1,58 @@
+import { parsePrice } from "../parse";
+import type { ProductExtractor } from "./types";
+
+const CURRENCY_BY_TLD: Record<string, string> = {
+  sa: 'SAR',
+  ae: 'AED',
+  eg: 'EGP',
+  com: 'USD',
+  'co.uk': 'GBP',
+  de: 'EUR',
+};
+
+const text = (doc: Document, selector: string) =>
+  doc.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+const landingImages = (doc: Document) => {
+  const img = doc.querySelector('#landingImage, #imgBlkFront');
+  const dynamic = img?.getAttribute('data-a-dynamic-image');
+  if (dynamic) {
+    try {
+      return Object.keys(JSON.parse(dynamic) as Record<string, unknown>);
+    } catch {
+      // Fall through to the single hi-res attribute.
+    }
+  }
+  const hiRes = img?.getAttribute('data-old-hires') || img?.getAttribute('src');
+  return hiRes ? [hiRes] : [];
+};
+
+export const amazonExtractor: ProductExtractor = {
+  id: 'amazon',
+  label: 'Amazon',
+  matchesUrl: (url) => /(^|\.)amazon\.(com|sa|ae|eg|co\.uk|de)$/.test(url.hostname),
+  extract: async ({ url, doc }) => {
+    const attributes: Record<string, string> = {};
+    doc.querySelectorAll('#productDetails_techSpec_section_1 tr, #productOverview_feature_div tr').forEach((row) => {
+      const name = row.querySelector('th, td:first-child')?.textContent?.trim();
+      const value = row.querySelector('td:last-child')?.textContent?.replace(/\s+/g, ' ').trim();
+      if (name && value && name !== value) attributes[name] = value;
+    });
+
+    const bullets = Array.from(doc.querySelectorAll('#feature-bullets li span'))
+      .map((el) => el.textContent?.trim())
+      .filter(Boolean);
+    const rating = parsePrice(doc.querySelector('#acrPopover')?.getAttribute('title')?.split(' ')[0]);
+
+    return {
+      title: text(doc, '#productTitle'),
+      description: bullets.join(' ') || text(doc, '#productDescription'),
+      price: parsePrice(text(doc, '#corePrice_feature_div .a-offscreen') || text(doc, '#priceblock_ourprice')),
+      originalPrice: parsePrice(text(doc, '#corePriceDisplay_desktop_feature_div .a-text-price .a-offscreen')),
+      currency: CURRENCY_BY_TLD[url.hostname.replace(/^(.*\.)?amazon\./, '')],
+      images: landingImages(doc),
+      attributes,
+      rating: rating ? { value: rating, count: parsePrice(text(doc, '#acrCustomerReviewText')), best: 5 } : undefined,
+    };
+  },
+};
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import aliexpressHtml from "../__fixtures__/aliexpress-product.html?raw";
+import amazonHtml from "../__fixtures__/amazon-product.html?raw";
+import noonHtml from "../__fixtures__/noon-product.html?raw";
+import shopifyHtml from "../__fixtures__/shopify-product.html?raw";
+import shopifyJson from "../__fixtures__/shopify-product.json?raw";
+import woocommerceHtml from "../__fixtures__/woocommerce-product.html?raw";
+import woocommerceJson from "../__fixtures__/woocommerce-products.json?raw";
+import { extractProduct } from ".";
+
+// Serves the JSON endpoints the Shopify and WooCommerce extractors call.
+const stubFetch = (routes: Record<string, string>) => {
+  const fetchMock = vi.fn(async (input: string) =>
+    input in routes ? new Response(routes[input]) : new Response('not found', { status: 404 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("shopify extractor", () => {
+  it("detects a custom-domain store from its markup and reads the product JSON", async () => {
+    const fetchMock = stubFetch({ "https://anaqa.example.com/products/leather-bag.json": shopifyJson });
+
+    const result = await extractProduct(new URL("https://anaqa.example.com/products/leather-bag/"), shopifyHtml);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.platform).toBe("shopify");
+    expect(result.warnings).toEqual([]);
+    expect(result.product).toMatchObject({
+      title: "حقيبة جلدية فاخرة",
+      description: "جلد طبيعي 100% صناعة يدوية",
+      price: 24.5,
+      originalPrice: 32,
+      currency: "KWD",
+      attributes: { brand: "الأناقة", type: "حقائب", "اللون": "بني، أسود" },
+    });
+    expect(result.product.images).toEqual([
+      "https://cdn.shopify.com/s/files/1/bag-1.jpg",
+      "https://cdn.shopify.com/s/files/1/bag-2.jpg",
+      "https://cdn.shopify.com/s/files/1/bag-og.jpg",
+    ]);
+    expect(result.missing).toEqual(["rating"]);
+  });
+
+  it("falls back to the generic parser when the product JSON is unavailable", async () => {
+    stubFetch({});
+
+    const result = await extractProduct(new URL("https://anaqa.example.com/products/leather-bag"), shopifyHtml);
+
+    expect(result.platform).toBe("shopify");
+    expect(result.warnings).toHaveLength(1);
+    expect(result.product.title).toBe("حقيبة جلدية");
+    expect(result.product.images).toEqual(["https://cdn.shopify.com/s/files/1/bag-og.jpg"]);
+  });
+});
+
+describe("woocommerce extractor", () => {
+  it("reads the Store API with prices in minor units", async () => {
+    stubFetch({ "https://tabiaa.example.com/wp-json/wc/store/v1/products?slug=argan-oil": woocommerceJson });
+
+    const result = await extractProduct(new URL("https://tabiaa.example.com/product/argan-oil/"), woocommerceHtml);
+
+    expect(result.platform).toBe("woocommerce");
+    expect(result.product).toMatchObject({
+      title: "زيت أرغان مغربي",
+      description: "زيت أرغان عضوي معصور على البارد",
+      price: 89,
+      originalPrice: 120,
+      currency: "MAD",
+      images: ["https://tabiaa.example.com/wp-content/uploads/argan.jpg"],
+      attributes: { "الحجم": "50 مل، 100 مل" },
+      rating: { value: 4.75, count: 12, best: 5 },
+    });
+    expect(result.missing).toEqual([]);
+  });
+});
+
+describe("aliexpress extractor", () => {
+  it("reads prices and images from the inline run params", async () => {
+    const result = await extractProduct(new URL("https://ar.aliexpress.com/item/1005001.html"), aliexpressHtml);
+
+    expect(result.platform).toBe("aliexpress");
+    expect(result.product).toMatchObject({
+      title: 'Mini Projector "HD" 1080P',
+      price: 45.99,
+      originalPrice: 1099,
+      currency: "USD",
+      images: ["https://ae01.alicdn.com/kf/p1.jpg", "https://ae01.alicdn.com/kf/p2.jpg"],
+      rating: { value: 4.8, count: 2301, best: 5 },
+    });
+  });
+});
+
+describe("amazon extractor", () => {
+  it("reads the product page of a regional store", async () => {
+    const result = await extractProduct(new URL("https://www.amazon.co.uk/dp/B000000001"), amazonHtml);
+
+    expect(result.platform).toBe("amazon");
+    expect(result.product).toMatchObject({
+      title: "Electric Kettle 1.7L",
+      description: "Boils in 3 minutes Auto shut-off",
+      price: 1029.99,
+      originalPrice: 1299,
+      currency: "GBP",
+      images: ["https://m.media-amazon.com/images/I/large.jpg", "https://m.media-amazon.com/images/I/medium.jpg"],
+      attributes: { Capacity: "1.7 litres", Colour: "Silver" },
+      rating: { value: 4.4, count: 1204, best: 5 },
+    });
+  });
+
+  it.each([
+    ["amazon.sa", "SAR"],
+    ["amazon.ae", "AED"],
+    ["amazon.eg", "EGP"],
+    ["amazon.com", "USD"],
+    ["amazon.co.uk", "GBP"],
+    ["amazon.de", "EUR"],
+  ])("maps %s to %s", async (host, currency) => {
+    const result = await extractProduct(new URL(`https://www.${host}/dp/B000000001`), amazonHtml);
+    expect(result.product.currency).toBe(currency);
+  });
+});
+
+describe("noon extractor", () => {
+  it("reads the Next.js page data and the locale's currency", async () => {
+    const result = await extractProduct(new URL("https://www.noon.com/saudi-ar/robot-vacuum/N1/p/"), noonHtml);
+
+    expect(result.platform).toBe("noon");
+    expect(result.product).toMatchObject({
+      title: "مكنسة روبوت ذكية",
+      description: "تنظيف ذكي تحكم بالتطبيق",
+      price: 1199,
+      originalPrice: 1499,
+      currency: "SAR",
+      images: ["https://f.nooncdn.com/p/v1/N1.jpg", "https://f.nooncdn.com/p/v1/N2.jpg"],
+      attributes: { brand: "كلين", "البطارية": "2600 مللي أمبير" },
+      rating: { value: 4.3, count: 86, best: 5 },
+    });
+  });
+
+  it("falls back to the generic parser when the page data is malformed", async () => {
+    const html = noonHtml.replace('"props"', 'props');
+    const result = await extractProduct(new URL("https://www.noon.com/saudi-ar/robot-vacuum/N1/p/"), html);
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.product.title).toBe("مكنسة روبوت");
+  });
+});
+
+describe("generic fallback", () => {
+  it("uses structured data when no extractor matches", async () => {
+    const html = '<meta property="og:title" content="منتج" /><meta property="product:price:amount" content="50" />';
+    const result = await extractProduct(new URL("https://unknown.example.com/p/1"), html);
+
+    expect(result.platform).toBe("generic");
+    expect(result.product).toMatchObject({ title: "منتج", price: 50 });
+    expect(result.missing).toContain("images");
+  });
+});
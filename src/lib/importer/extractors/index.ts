@@ -0,0 +1,77 @@
+import { extractStructuredFields, mergeProductFields, parseHtmlDocument, toImportedProduct } from "../parse";
+import type { ImportedProduct } from "../types";
+import { aliexpressExtractor } from "./aliexpress";
+import { amazonExtractor } from "./amazon";
+import { noonExtractor } from "./noon";
+import { shopifyExtractor } from "./shopify";
+import type { ExtractionResult, ExtractorContext, ProductExtractor, ProductField } from "./types";
+import { woocommerceExtractor } from "./woocommerce";
+
+export type * from "./types";
+
+const extractors: ProductExtractor[] = [
+  shopifyExtractor,
+  woocommerceExtractor,
+  aliexpressExtractor,
+  amazonExtractor,
+  noonExtractor,
+];
+
+export const registerExtractor = (extractor: ProductExtractor) => {
+  extractors.unshift(extractor);
+};
+
+export const FIELD_LABELS: Record<ProductField, string> = {
+  title: 'العنوان',
+  description: 'الوصف',
+  price: 'السعر',
+  originalPrice: 'السعر الأصلي',
+  currency: 'العملة',
+  images: 'الصور',
+  attributes: 'المواصفات',
+  rating: 'التقييم',
+};
+
+export const missingFields = (product: ImportedProduct): ProductField[] =>
+  (Object.keys(FIELD_LABELS) as ProductField[]).filter((field) => {
+    const value = product[field];
+    if (Array.isArray(value)) return value.length === 0;
+    if (value && typeof value === 'object') return Object.keys(value).length === 0;
+    return value === undefined || value === '';
+  });
+
+// URL matches win over markup matches: a Shopify store can embed Amazon widgets,
+// but an amazon.sa URL is always Amazon.
+export const detectExtractor = (url: URL, html: string, doc: Document) =>
+  extractors.find((e) => e.matchesUrl?.(url)) ??
+  extractors.find((e) => e.matchesMarkup?.(html, doc));
+
+export const extractProduct = async (
+  url: URL,
+  html: string,
+  signal?: AbortSignal
+): Promise<ExtractionResult> => {
+  const doc = parseHtmlDocument(html);
+  const context: ExtractorContext = { url, html, doc, signal };
+  const generic = extractStructuredFields(doc, url.toString());
+  const extractor = detectExtractor(url, html, doc);
+  const warnings: string[] = [];
+
+  let fields = generic;
+  if (extractor) {
+    try {
+      fields = mergeProductFields(await extractor.extract(context), generic);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      warnings.push(`تعذر استخدام مستخرج ${extractor.label}، تم الرجوع إلى المحلل العام`);
+    }
+  }
+
+  const product = toImportedProduct(url.toString(), fields);
+  return {
+    product,
+    platform: extractor?.id ?? 'generic',
+    missing: missingFields(product),
+    warnings,
+  };
+};
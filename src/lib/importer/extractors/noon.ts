@@ -0,0 +1,50 @@
+import type { ProductExtractor } from "./types";
+
+interface NoonProduct {
+  product_title: string;
+  long_description?: string;
+  feature_bullets?: string[];
+  image_keys?: string[];
+  brand?: string;
+  specifications?: { name: string; value: string }[];
+  product_rating?: { value: number; count: number };
+  variants?: { offers?: { price: number; sale_price?: number | null }[] }[];
+}
+
+const CURRENCY_BY_LOCALE: Record<string, string> = {
+  saudi: 'SAR',
+  uae: 'AED',
+  egypt: 'EGP',
+};
+
+export const noonExtractor: ProductExtractor = {
+  id: 'noon',
+  label: 'Noon',
+  matchesUrl: (url) => /(^|\.)noon\.com$/.test(url.hostname),
+  extract: async ({ url, doc }) => {
+    const data = doc.querySelector('#__NEXT_DATA__')?.textContent;
+    if (!data) return {};
+
+    const product: NoonProduct | undefined = JSON.parse(data)?.props?.pageProps?.catalog?.product;
+    if (!product) return {};
+
+    const offer = product.variants?.[0]?.offers?.[0];
+    const locale = url.pathname.split('/')[1]?.split('-')[0] || '';
+    const attributes: Record<string, string> = {};
+    if (product.brand) attributes.brand = product.brand;
+    for (const spec of product.specifications || []) attributes[spec.name] = spec.value;
+
+    return {
+      title: product.product_title,
+      description: product.long_description || (product.feature_bullets || []).join(' '),
+      price: offer?.sale_price ?? offer?.price,
+      originalPrice: offer?.sale_price ? offer.price : undefined,
+      currency: CURRENCY_BY_LOCALE[locale],
+      images: (product.image_keys || []).map((key) => `https://f.nooncdn.com/p/${key}.jpg`),
+      attributes,
+      rating: product.product_rating?.count
+        ? { value: product.product_rating.value, count: product.product_rating.count, best: 5 }
+        : undefined,
+    };
+  },
+};
@@ -0,0 +1,50 @@
+import { fetchJson } from "../fetch-page";
+import { parseAmount } from "../parse";
+import type { ProductExtractor } from "./types";
+
+interface ShopifyProductJson {
+  product: {
+    title: string;
+    body_html: string | null;
+    vendor?: string;
+    product_type?: string;
+    options?: { name: string; values: string[] }[];
+    variants: { price: string; compare_at_price: string | null; sku?: string }[];
+    images: { src: string }[];
+  };
+}
+
+const stripHtml = (html: string | null) =>
+  (html || '').replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const shopifyExtractor: ProductExtractor = {
+  id: 'shopify',
+  label: 'Shopify',
+  matchesUrl: (url) => url.hostname.endsWith('.myshopify.com'),
+  matchesMarkup: (html) => /cdn\.shopify\.com|Shopify\.shop\s*=/.test(html),
+  extract: async ({ url, html, signal }) => {
+    const path = url.pathname.replace(/\/$/, '').replace(/\.(json|js)$/, '');
+    if (!/\/products\/[^/]+$/.test(path)) return {};
+
+    const { product } = await fetchJson<ShopifyProductJson>(`${url.origin}${path}.json`, { signal });
+    const variant = product.variants[0];
+    const currency = html.match(/Shopify\.currency\s*=\s*\{[^}]*"active"\s*:\s*"([A-Z]{3})"/)?.[1];
+
+    const attributes: Record<string, string> = {};
+    if (product.vendor) attributes.brand = product.vendor;
+    if (product.product_type) attributes.type = product.product_type;
+    for (const option of product.options || []) {
+      if (option.name !== 'Title') attributes[option.name] = option.values.join('، ');
+    }
+
+    return {
+      title: product.title,
+      description: stripHtml(product.body_html),
+      price: parseAmount(variant?.price),
+      originalPrice: parseAmount(variant?.compare_at_price),
+      currency,
+      images: product.images.map((image) => image.src.replace(/^\/\//, 'https://')),
+      attributes,
+    };
+  },
+};
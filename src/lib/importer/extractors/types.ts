@@ -0,0 +1,29 @@
+import type { ProductFields } from "../parse";
+import type { ImportedProduct } from "../types";
+
+export type PlatformId = 'shopify' | 'woocommerce' | 'aliexpress' | 'amazon' | 'noon' | 'generic';
+
+export interface ExtractorContext {
+  url: URL;
+  html: string;
+  doc: Document;
+  signal?: AbortSignal;
+}
+
+export interface ProductExtractor {
+  id: PlatformId;
+  label: string;
+  matchesUrl?: (url: URL) => boolean;
+  matchesMarkup?: (html: string, doc: Document) => boolean;
+  extract: (context: ExtractorContext) => Promise<ProductFields>;
+}
+
+// Reviews are optional extras and never reported as missing.
+export type ProductField = keyof Omit<ImportedProduct, 'sourceUrl' | 'reviews'>;
+
+export interface ExtractionResult {
+  product: ImportedProduct;
+  platform: PlatformId;
+  missing: ProductField[];
+  warnings: string[];
+}
@@ -0,0 +1,62 @@
+import { fetchJson } from "../fetch-page";
+import type { ProductExtractor } from "./types";
+
+interface StoreApiProduct {
+  name: string;
+  description: string;
+  short_description: string;
+  prices: {
+    price: string;
+    regular_price: string;
+    currency_code: string;
+    currency_minor_unit: number;
+  };
+  images: { src: string; alt: string }[];
+  attributes: { name: string; terms: { name: string }[] }[];
+  average_rating: string;
+  review_count: number;
+}
+
+const stripHtml = (html: string) =>
+  html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Store API prices are integers in the currency's minor unit ("89900" = 899.00).
+const fromMinorUnit = (value: string, minorUnit: number) => {
+  const amount = parseInt(value, 10);
+  return Number.isFinite(amount) ? amount / 10 ** minorUnit : undefined;
+};
+
+export const woocommerceExtractor: ProductExtractor = {
+  id: 'woocommerce',
+  label: 'WooCommerce',
+  matchesMarkup: (html, doc) =>
+    doc.body?.classList.contains('woocommerce') || /wp-content\/plugins\/woocommerce/.test(html),
+  extract: async ({ url, signal }) => {
+    const slug = url.pathname.split('/').filter(Boolean).pop();
+    if (!slug) return {};
+
+    const products = await fetchJson<StoreApiProduct[]>(
+      `${url.origin}/wp-json/wc/store/v1/products?slug=${encodeURIComponent(slug)}`,
+      { signal }
+    );
+    const product = products[0];
+    if (!product) return {};
+
+    const { prices } = product;
+    const price = fromMinorUnit(prices.price, prices.currency_minor_unit);
+    const rating = parseFloat(product.average_rating);
+
+    return {
+      title: product.name,
+      description: stripHtml(product.short_description || product.description),
+      price,
+      originalPrice: fromMinorUnit(prices.regular_price, prices.currency_minor_unit),
+      currency: prices.currency_code,
+      images: product.images.map((image) => image.src),
+      attributes: Object.fromEntries(
+        product.attributes.map((attr) => [attr.name, attr.terms.map((t) => t.name).join('، ')])
+      ),
+      rating: rating > 0 ? { value: rating, count: product.review_count, best: 5 } : undefined,
+    };
+  },
+};
@@ -0,0 +1,56 @@
+import { ImportError } from "./types";
+
+// Storefronts rarely send CORS headers, so production builds route requests
+// through a proxy, e.g. VITE_IMPORT_PROXY_URL="https://proxy.example.com/?url=".
+// The dev server has one at /api/import (see vite.config.ts).
+const importProxy = import.meta.env.VITE_IMPORT_PROXY_URL || (import.meta.env.MODE === 'development' ? '/api/import?url=' : '');
+
+export const proxiedUrl = (url: string) =>
+  importProxy && /^https?:/.test(url) ? `${importProxy}${encodeURIComponent(url)}` : url;
+
+export const normalizeProductUrl = (input: string): URL => {
+  const trimmed = input.trim();
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (!url.hostname.includes('.')) throw new Error('missing TLD');
+    url.hash = '';
+    return url;
+  } catch {
+    throw new ImportError('invalid_url', 'رابط المنتج غير صالح');
+  }
+};
+
+export interface FetchOptions {
+  signal?: AbortSignal;
+  accept?: string;
+}
+
+export const fetchText = async (url: string, { signal, accept = 'text/html' }: FetchOptions = {}) => {
+  let response: Response;
+  try {
+    response = await fetch(proxiedUrl(url), { signal, headers: { Accept: accept } });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Without a proxy, a store that sends no CORS headers fails the same way as a dropped connection.
+    throw new ImportError(
+      'network',
+      importProxy
+        ? 'تعذر الوصول إلى صفحة المنتج'
+        : 'تعذر الوصول إلى صفحة المنتج: المتجر لا يسمح بقراءتها من المتصفح، ويلزم ضبط وسيط الاستيراد VITE_IMPORT_PROXY_URL'
+    );
+  }
+
+  if (!response.ok) {
+    throw new ImportError('http', `أعاد الخادم الحالة ${response.status}`, response.status);
+  }
+  return response.text();
+};
+
+export const fetchJson = async <T,>(url: string, options: FetchOptions = {}): Promise<T> => {
+  const text = await fetchText(url, { ...options, accept: 'application/json' });
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ImportError('not_product', 'استجابة غير متوقعة من المتجر');
+  }
+};
@@ -0,0 +1,21 @@
+import { extractProduct, type ExtractionResult } from "./extractors";
+import { fetchText, normalizeProductUrl } from "./fetch-page";
+import { ImportError } from "./types";
+
+export * from "./types";
+export { parseProductHtml, parsePrice } from "./parse";
+export { normalizeProductUrl } from "./fetch-page";
+export { extractProduct, registerExtractor, FIELD_LABELS } from "./extractors";
+export type * from "./extractors";
+
+export const importProduct = async (input: string, signal?: AbortSignal): Promise<ExtractionResult> => {
+  const url = normalizeProductUrl(input);
+  const html = await fetchText(url.toString(), { signal });
+  const result = await extractProduct(url, html, signal);
+  const { product } = result;
+
+  if (!product.title || (product.price === undefined && product.images.length === 0)) {
+    throw new ImportError('not_product', 'لم يتم العثور على بيانات منتج في هذه الصفحة');
+  }
+  return result;
+};
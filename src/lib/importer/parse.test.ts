@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import jsonLdHtml from "./__fixtures__/jsonld-product.html?raw";
+import microdataHtml from "./__fixtures__/microdata-product.html?raw";
+import openGraphHtml from "./__fixtures__/opengraph-product.html?raw";
+import { parseAmount, parsePrice, parseProductHtml } from "./parse";
+
+describe("parsePrice", () => {
+  it.each([
+    ["1,299.00", 1299],
+    ["1.299,00", 1299],
+    ["1.299", 1299],
+    ["12.500.000", 12500000],
+    ["149,50", 149.5],
+    ["1,299", 1299],
+    ["0.750", 0.75],
+    ["1299.000", 1299],
+    ["4.6", 4.6],
+    ["899 ر.س", 899],
+    ["١٬٢٩٩٫٥٠", 1299.5],
+  ])("parses %s", (value, expected) => {
+    expect(parsePrice(value)).toBe(expected);
+  });
+
+  it("rejects values without digits", () => {
+    expect(parsePrice("غير متوفر")).toBeUndefined();
+    expect(parsePrice(undefined)).toBeUndefined();
+    expect(parsePrice(Number.NaN)).toBeUndefined();
+  });
+});
+
+describe("parseAmount", () => {
+  it("reads plain decimals with a dot decimal point", () => {
+    expect(parseAmount("24.500")).toBe(24.5);
+    expect(parseAmount("1.299")).toBe(1.299);
+    expect(parseAmount(899)).toBe(899);
+  });
+
+  it("falls back to parsePrice for formatted values", () => {
+    expect(parseAmount("1,299.00")).toBe(1299);
+    expect(parseAmount("٨٩٩")).toBe(899);
+  });
+});
+
+describe("parseProductHtml", () => {
+  it("reads JSON-LD nested in a graph and skips malformed blocks", () => {
+    const product = parseProductHtml(jsonLdHtml, "https://shop.example.com/p/watch");
+
+    expect(product).toMatchObject({
+      sourceUrl: "https://shop.example.com/p/watch",
+      title: "ساعة ذكية متقدمة",
+      description: "شاشة AMOLED وبطارية تدوم أسبوعاً",
+      price: 899,
+      originalPrice: 1299,
+      currency: "SAR",
+      images: ["https://shop.example.com/images/watch-1.jpg", "https://cdn.example.com/watch-2.jpg"],
+      attributes: { brand: "تك", sku: "SW-100", "المقاومة": "IP68" },
+      rating: { value: 4.6, count: 128, best: 5 },
+    });
+    expect(product.reviews).toEqual([
+      {
+        author: "سارة",
+        text: "ممتازة جداً",
+        rating: 5,
+        city: "الرياض",
+        date: "2024-03-01",
+        photos: ["https://shop.example.com/reviews/1.jpg"],
+      },
+    ]);
+  });
+
+  it("reads microdata without mixing in nested scopes", () => {
+    const product = parseProductHtml(microdataHtml, "https://store.example.ae/earbuds");
+
+    expect(product).toMatchObject({
+      title: "سماعات لاسلكية",
+      description: "عزل ضوضاء وشحن سريع",
+      price: 1299,
+      currency: "AED",
+      images: ["https://store.example.ae/img/earbuds.jpg"],
+      attributes: { brand: "صوت" },
+      rating: { value: 4.2, count: 37 },
+    });
+    expect(product.reviews).toEqual([
+      { author: "خالد", text: "صوت نقي", rating: 4, date: undefined, photos: [] },
+    ]);
+  });
+
+  it("reads microdata content attributes as machine-readable amounts", () => {
+    const html = microdataHtml.replace('content="AED"', 'content="KWD"').replace('content="1299.00"', 'content="24.500"');
+    expect(parseProductHtml(html, "https://store.example.ae/earbuds")).toMatchObject({ price: 24.5, currency: "KWD" });
+  });
+
+  it("falls back to OpenGraph and product meta tags", () => {
+    const product = parseProductHtml(openGraphHtml, "https://lamps.example.com/lamp");
+
+    expect(product).toMatchObject({
+      title: "مصباح مكتب LED",
+      description: "ثلاث درجات إضاءة",
+      price: 149.5,
+      originalPrice: 199,
+      currency: "EGP",
+      images: ["https://cdn.example.com/lamp.jpg", "https://cdn.example.com/lamp-2.jpg"],
+      attributes: {},
+    });
+    expect(product.reviews).toBeUndefined();
+  });
+
+  it("drops an original price that is not above the price", () => {
+    const html = openGraphHtml.replace('content="199"', 'content="99"');
+    expect(parseProductHtml(html, "https://lamps.example.com/lamp").originalPrice).toBeUndefined();
+  });
+
+  it("uses the page heading when there is no structured data", () => {
+    const product = parseProductHtml("<title>متجر</title><h1> منتج  بسيط </h1>", "https://example.com/");
+    expect(product).toMatchObject({ title: "منتج بسيط", images: [], attributes: {} });
+    expect(product.price).toBeUndefined();
+  });
+});
@@ -0,0 +1,328 @@
+import type { ImportedProduct, ImportedReview, ProductRating } from "./types";
+
+export type ProductFields = Partial<Omit<ImportedProduct, 'sourceUrl'>>;
+type JsonObject = Record<string, unknown>;
+
+const ARABIC_INDIC_DIGITS = /[٠-٩۰-۹]/g;
+
+export const toWesternDigits = (value: string) =>
+  value.replace(ARABIC_INDIC_DIGITS, (d) => String(d.charCodeAt(0) & 0xf));
+
+// Accepts "1,299.00", "1.299,00", "1.299", "899 ر.س" and Arabic-Indic digits.
+export const parsePrice = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  let cleaned = toWesternDigits(value).replace(/[٫]/g, '.').replace(/[٬]/g, ',');
+  cleaned = cleaned.replace(/[^\d.,]/g, '');
+  if (!cleaned) return undefined;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    cleaned = cleaned.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma > -1) {
+    const decimals = cleaned.length - lastComma - 1;
+    cleaned = decimals === 2 && cleaned.indexOf(',') === lastComma
+      ? cleaned.replace(',', '.')
+      : cleaned.split(',').join('');
+  } else if (/^[1-9]\d{0,2}(\.\d{3})+$/.test(cleaned)) {
+    // "1.299" and "12.500.000" group thousands with dots.
+    cleaned = cleaned.split('.').join('');
+  }
+
+  const price = parseFloat(cleaned);
+  return Number.isFinite(price) ? price : undefined;
+};
+
+// JSON-LD, meta tags and store APIs write amounts with a dot decimal point,
+// so "24.500" there is 24.5, not a grouped 24500.
+export const parseAmount = (value: unknown): number | undefined =>
+  typeof value === 'string' && /^\s*\d+(\.\d+)?\s*$/.test(value) ? parseFloat(value) : parsePrice(value);
+
+const cleanText = (value: unknown) =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+const absoluteUrl = (value: string, baseUrl: string) => {
+  try {
+    return new URL(value.trim(), baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+const uniqueUrls = (values: unknown[], baseUrl: string) => {
+  const urls = values
+    .filter((v): v is string => typeof v === 'string' && v.trim().length > 0)
+    .map((v) => absoluteUrl(v, baseUrl))
+    .filter((v): v is string => !!v && /^https?:/.test(v));
+  return Array.from(new Set(urls));
+};
+
+const asArray = <T,>(value: T | T[] | undefined | null): T[] =>
+  value == null ? [] : Array.isArray(value) ? value : [value];
+
+const hasType = (node: JsonObject, type: string) =>
+  asArray(node['@type'] as string | string[]).some(
+    (t) => typeof t === 'string' && t.replace(/^.*[/#]/, '') === type
+  );
+
+/* ---------- JSON-LD ---------- */
+
+const findJsonLdProduct = (node: unknown): JsonObject | undefined => {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJsonLdProduct(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (!node || typeof node !== 'object') return undefined;
+
+  const obj = node as JsonObject;
+  if (hasType(obj, 'Product') || hasType(obj, 'ProductGroup')) return obj;
+  if (obj['@graph']) return findJsonLdProduct(obj['@graph']);
+  if (obj.mainEntity) return findJsonLdProduct(obj.mainEntity);
+  return undefined;
+};
+
+const jsonLdImages = (image: unknown): unknown[] =>
+  asArray(image as unknown).flatMap((img) => {
+    if (typeof img === 'string') return [img];
+    if (img && typeof img === 'object') {
+      const obj = img as JsonObject;
+      return [obj.contentUrl ?? obj.url];
+    }
+    return [];
+  });
+
+const jsonLdRating = (value: unknown): ProductRating | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const rating = value as JsonObject;
+  const ratingValue = parseAmount(rating.ratingValue);
+  if (ratingValue === undefined) return undefined;
+  return {
+    value: ratingValue,
+    count: parseAmount(rating.reviewCount ?? rating.ratingCount),
+    best: parseAmount(rating.bestRating),
+  };
+};
+
+const MAX_REVIEWS = 50;
+
+const jsonLdReviews = (value: unknown, baseUrl: string): ImportedReview[] =>
+  asArray(value as JsonObject | JsonObject[])
+    .filter((review) => review && typeof review === 'object')
+    .map((review) => {
+      const author = review.author as JsonObject | string | undefined;
+      const address = typeof author === 'object' ? (author?.address as JsonObject | string | undefined) : undefined;
+      return {
+        author: typeof author === 'string' ? cleanText(author) : cleanText(author?.name),
+        text: cleanText(review.reviewBody ?? review.description),
+        rating: parseAmount((review.reviewRating as JsonObject)?.ratingValue),
+        city: typeof address === 'string' ? cleanText(address) : cleanText(address?.addressLocality) || undefined,
+        date: cleanText(review.datePublished) || undefined,
+        photos: uniqueUrls(jsonLdImages(review.image ?? review.associatedMedia), baseUrl),
+      };
+    })
+    .filter((review) => review.text)
+    .slice(0, MAX_REVIEWS);
+
+const parseJsonLd = (doc: Document, baseUrl: string): ProductFields => {
+  let product: JsonObject | undefined;
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    if (product) return;
+    try {
+      product = findJsonLdProduct(JSON.parse(script.textContent || 'null'));
+    } catch {
+      // Malformed blocks are common on storefronts; skip them.
+    }
+  });
+  if (!product) return {};
+
+  const variants = asArray(product.hasVariant as JsonObject[]);
+  const offers = asArray(product.offers as JsonObject | JsonObject[])
+    .concat(variants.flatMap((v) => asArray(v?.offers as JsonObject | JsonObject[])))
+    .filter((o) => o && typeof o === 'object');
+  const offer = offers[0];
+
+  let originalPrice: number | undefined;
+  for (const o of offers) {
+    for (const spec of asArray(o.priceSpecification as JsonObject | JsonObject[])) {
+      const type = cleanText(spec?.priceType);
+      if (/ListPrice|StrikethroughPrice/i.test(type)) {
+        originalPrice = parseAmount(spec.price);
+      }
+    }
+  }
+
+  const attributes: Record<string, string> = {};
+  const brand = product.brand as JsonObject | string | undefined;
+  const brandName = typeof brand === 'string' ? brand : cleanText(brand?.name);
+  if (brandName) attributes.brand = brandName;
+  for (const key of ['sku', 'gtin13', 'mpn', 'color', 'material', 'size']) {
+    const value = cleanText(product[key]);
+    if (value) attributes[key] = value;
+  }
+  for (const prop of asArray(product.additionalProperty as JsonObject[])) {
+    const name = cleanText(prop?.name);
+    const value = cleanText(String(prop?.value ?? ''));
+    if (name && value) attributes[name] = value;
+  }
+
+  return {
+    title: cleanText(product.name),
+    description: cleanText(product.description),
+    price: parseAmount(offer?.price ?? offer?.lowPrice),
+    originalPrice,
+    currency: cleanText(offer?.priceCurrency) || undefined,
+    images: uniqueUrls(
+      jsonLdImages(product.image).concat(variants.flatMap((v) => jsonLdImages(v?.image))),
+      baseUrl
+    ),
+    attributes,
+    rating: jsonLdRating(product.aggregateRating),
+    reviews: jsonLdReviews(product.review ?? product.reviews, baseUrl),
+  };
+};
+
+/* ---------- Microdata ---------- */
+
+const itemValue = (el: Element | null): string => {
+  if (!el) return '';
+  const attr = el.getAttribute('content') ?? el.getAttribute('value');
+  if (attr !== null) return attr;
+  if (el.hasAttribute('src')) return el.getAttribute('src') || '';
+  if (el.hasAttribute('href')) return el.getAttribute('href') || '';
+  return el.textContent || '';
+};
+
+// Only returns properties owned by `scope`, not by nested itemscopes.
+const ownProps = (scope: Element, name: string) =>
+  Array.from(scope.querySelectorAll(`[itemprop~="${name}"]`)).filter(
+    (el) => el.parentElement?.closest('[itemscope]') === scope
+  );
+
+const parseMicrodata = (doc: Document, baseUrl: string): ProductFields => {
+  const scope = doc.querySelector('[itemscope][itemtype*="schema.org/Product"]');
+  if (!scope) return {};
+
+  const prop = (name: string, within: Element = scope) => cleanText(itemValue(ownProps(within, name)[0] ?? null));
+  const offer = ownProps(scope, 'offers')[0];
+  const ratingScope = ownProps(scope, 'aggregateRating')[0];
+
+  const attributes: Record<string, string> = {};
+  for (const key of ['brand', 'sku', 'color', 'material']) {
+    const el = ownProps(scope, key)[0];
+    if (!el) continue;
+    const value = el.hasAttribute('itemscope') ? prop('name', el) : cleanText(itemValue(el));
+    if (value) attributes[key] = value;
+  }
+  for (const propScope of ownProps(scope, 'additionalProperty')) {
+    const name = prop('name', propScope);
+    const value = prop('value', propScope);
+    if (name && value) attributes[name] = value;
+  }
+
+  // itemValue prefers the machine-readable content attribute, so these read as amounts.
+  const ratingValue = ratingScope ? parseAmount(prop('ratingValue', ratingScope)) : undefined;
+  const reviews = ownProps(scope, 'review').map((reviewScope): ImportedReview => {
+    const ratingEl = ownProps(reviewScope, 'reviewRating')[0];
+    const authorEl = ownProps(reviewScope, 'author')[0];
+    return {
+      author: authorEl?.hasAttribute('itemscope') ? prop('name', authorEl) : prop('author', reviewScope),
+      text: prop('reviewBody', reviewScope) || prop('description', reviewScope),
+      rating: ratingEl ? parseAmount(prop('ratingValue', ratingEl)) : undefined,
+      date: prop('datePublished', reviewScope) || undefined,
+      photos: uniqueUrls(ownProps(reviewScope, 'image').map(itemValue), baseUrl),
+    };
+  }).filter((review) => review.text);
+
+  return {
+    title: prop('name'),
+    description: prop('description'),
+    price: offer ? parseAmount(prop('price', offer) || prop('lowPrice', offer)) : undefined,
+    currency: (offer && prop('priceCurrency', offer)) || undefined,
+    images: uniqueUrls(ownProps(scope, 'image').map(itemValue), baseUrl),
+    attributes,
+    rating: ratingValue === undefined ? undefined : {
+      value: ratingValue,
+      count: parseAmount(prop('reviewCount', ratingScope) || prop('ratingCount', ratingScope)),
+      best: parseAmount(prop('bestRating', ratingScope)),
+    },
+    reviews: reviews.slice(0, MAX_REVIEWS),
+  };
+};
+
+/* ---------- OpenGraph ---------- */
+
+const parseOpenGraph = (doc: Document, baseUrl: string): ProductFields => {
+  const metas = Array.from(doc.querySelectorAll('meta[property], meta[name]'));
+  const values = (key: string) =>
+    metas
+      .filter((m) => (m.getAttribute('property') || m.getAttribute('name')) === key)
+      .map((m) => m.getAttribute('content') || '');
+  const first = (...keys: string[]) => keys.map((k) => cleanText(values(k)[0])).find(Boolean) || '';
+
+  return {
+    title: first('og:title', 'twitter:title'),
+    description: first('og:description', 'twitter:description', 'description'),
+    price: parseAmount(first('product:price:amount', 'og:price:amount', 'product:sale_price:amount')),
+    originalPrice: parseAmount(first('product:original_price:amount')),
+    currency: first('product:price:currency', 'og:price:currency') || undefined,
+    images: uniqueUrls(values('og:image').concat(values('og:image:secure_url'), values('twitter:image')), baseUrl),
+    attributes: {},
+  };
+};
+
+/* ---------- Merge ---------- */
+
+export const mergeProductFields = (...sources: ProductFields[]): ProductFields => {
+  const merged: ProductFields = { images: [], attributes: {} };
+  for (const source of sources) {
+    for (const key of ['title', 'description', 'price', 'originalPrice', 'currency', 'rating'] as const) {
+      if (merged[key] === undefined || merged[key] === '') {
+        (merged as Record<string, unknown>)[key] = source[key];
+      }
+    }
+    merged.images = Array.from(new Set([...merged.images, ...(source.images || [])]));
+    merged.attributes = { ...source.attributes, ...merged.attributes };
+    if (!merged.reviews?.length && source.reviews?.length) merged.reviews = source.reviews;
+  }
+  return merged;
+};
+
+export const toImportedProduct = (sourceUrl: string, fields: ProductFields): ImportedProduct => ({
+  sourceUrl,
+  title: fields.title || '',
+  description: fields.description || '',
+  price: fields.price,
+  originalPrice: fields.originalPrice !== undefined && fields.price !== undefined && fields.originalPrice > fields.price
+    ? fields.originalPrice
+    : undefined,
+  currency: fields.currency?.toUpperCase(),
+  images: fields.images || [],
+  attributes: fields.attributes || {},
+  rating: fields.rating,
+  reviews: fields.reviews?.length ? fields.reviews : undefined,
+});
+
+export const parseHtmlDocument = (html: string) =>
+  new DOMParser().parseFromString(html, 'text/html');
+
+export const extractStructuredFields = (doc: Document, baseUrl: string): ProductFields =>
+  mergeProductFields(
+    parseJsonLd(doc, baseUrl),
+    parseMicrodata(doc, baseUrl),
+    parseOpenGraph(doc, baseUrl),
+    {
+      title: cleanText(doc.querySelector('h1')?.textContent) || cleanText(doc.title),
+      description: cleanText(doc.querySelector('meta[name="description"]')?.getAttribute('content')),
+    }
+  );
+
+// Pure and DOM-only, so it can run against saved HTML fixtures without a network.
+export const parseProductHtml = (html: string, sourceUrl: string): ImportedProduct =>
+  toImportedProduct(sourceUrl, extractStructuredFields(parseHtmlDocument(html), sourceUrl));
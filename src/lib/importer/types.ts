@@ -0,0 +1,41 @@
+export interface ProductRating {
+  value: number;
+  count?: number;
+  best?: number;
+}
+
+export interface ImportedReview {
+  author: string;
+  text: string;
+  rating?: number;
+  city?: string;
+  date?: string;
+  photos: string[];
+}
+
+export interface ImportedProduct {
+  sourceUrl: string;
+  title: string;
+  description: string;
+  price?: number;
+  originalPrice?: number;
+  currency?: string;
+  images: string[];
+  attributes: Record<string, string>;
+  rating?: ProductRating;
+  reviews?: ImportedReview[];
+}
+
+export type ImportErrorCode = 'invalid_url' | 'network' | 'http' | 'not_product';
+
+export class ImportError extends Error {
+  code: ImportErrorCode;
+  status?: number;
+
+  constructor(code: ImportErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'ImportError';
+    this.code = code;
+    this.status = status;
+  }
+}
@@ -0,0 +1,58 @@
+import type { BulkRow, BulkRowError } from "@/lib/bulk";
+import type { CopyVoice } from "@/lib/copy/voice";
+import { readJson, writeJson } from "@/lib/storage";
+import { enqueueGenerations } from "./pipeline";
+
+const STORAGE_KEY = "arabiflow.batch";
+
+export interface BatchItem {
+  row: BulkRow;
+  pageId: string;
+}
+
+// The latest bulk run. Rows point at their pages, whose jobs carry the status.
+export interface BatchState {
+  items: BatchItem[];
+  rejected: BulkRowError[];
+}
+
+const emptyBatch: BatchState = { items: [], rejected: [] };
+
+// Unset or corrupt storage starts without a batch.
+const load = (): BatchState => ({ ...emptyBatch, ...(readJson(STORAGE_KEY) as BatchState) });
+
+const listeners: Array<(state: BatchState) => void> = [];
+
+let memoryState: BatchState = load();
+
+const setState = (state: BatchState) => {
+  memoryState = state;
+  // A rejected write keeps the in-memory state usable.
+  writeJson(STORAGE_KEY, memoryState);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+};
+
+export const getBatchState = () => memoryState;
+
+export const subscribe = (listener: (state: BatchState) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+// Replaces the previous batch; its pages stay on the Dashboard.
+export const startBatch = (rows: BulkRow[], rejected: BulkRowError[], voice: CopyVoice) => {
+  const { ids, done } = enqueueGenerations(
+    rows.map((row) => ({ url: row.url, overrides: { price: row.price, cost: row.cost }, voice }))
+  );
+  setState({ items: rows.map((row, index) => ({ row, pageId: ids[index] })), rejected });
+  return done;
+};
+
+export const clearBatch = () => setState(emptyBatch);
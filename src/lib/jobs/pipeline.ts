@@ -0,0 +1,227 @@
+import { ImportError, normalizeProductUrl } from "@/lib/importer";
+import { addPage, createPageId, getPage, updatePage } from "@/lib/pages/store";
+import { DEFAULT_VOICE, type CopyVoice } from "@/lib/copy/voice";
+import type { GeneratedPage, ManualProductInput, PageOverrides } from "@/lib/pages/types";
+import { stages, type JobContext } from "./stages";
+import type { GenerationJob, StageState } from "./types";
+
+const RETRY_BASE_DELAY = 1000;
+const MAX_CONCURRENT_JOBS = 2;
+
+const controllers = new Map<string, AbortController>();
+
+const createJob = (status: GenerationJob['status'] = 'running'): GenerationJob => ({
+  status,
+  stages: stages.map((stage) => ({ id: stage.id, status: 'pending', progress: 0, attempts: 0 })),
+  updatedAt: new Date().toISOString(),
+});
+
+export const jobProgress = (job: GenerationJob) =>
+  Math.round(
+    (job.stages.reduce((sum, s) => sum + (s.status === 'done' ? 1 : s.progress), 0) / job.stages.length) * 100
+  );
+
+export const currentStage = (job: GenerationJob) =>
+  job.stages.find((s) => s.status === 'running' || s.status === 'failed');
+
+const isRetriable = (error: unknown) => {
+  if (error instanceof ImportError) {
+    return error.code === 'network' || (error.status !== undefined && (error.status >= 500 || error.status === 429));
+  }
+  return !(error instanceof DOMException && error.name === 'AbortError');
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : 'حدث خطأ غير متوقع';
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const updateJob = (pageId: string, update: (job: GenerationJob) => Partial<GenerationJob>) =>
+  updatePage(pageId, (page) => ({
+    ...page,
+    job: { ...page.job, ...update(page.job), updatedAt: new Date().toISOString() },
+  }));
+
+const updateStage = (pageId: string, index: number, patch: Partial<StageState>) =>
+  updateJob(pageId, (job) => ({
+    stages: job.stages.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+  }));
+
+// The fetched HTML is not persisted, so a resumed job re-fetches before extracting.
+const resumeIndex = (job: GenerationJob) => {
+  const index = job.stages.findIndex((s) => s.status !== 'done');
+  return job.stages[index]?.id === 'extract' ? index - 1 : index;
+};
+
+export const runJob = async (pageId: string): Promise<GeneratedPage> => {
+  const page = getPage(pageId);
+  if (!page?.job) throw new Error(`Unknown job ${pageId}`);
+  if (page.job.status === 'cancelled') return page;
+
+  const controller = new AbortController();
+  controllers.set(pageId, controller);
+  const { signal } = controller;
+  updateJob(pageId, () => ({ status: 'running' }));
+
+  const context: JobContext = {
+    page,
+    url: page.url ? normalizeProductUrl(page.url) : undefined,
+    signal,
+    report: () => undefined,
+  };
+
+  try {
+    for (let index = Math.max(resumeIndex(page.job), 0); index < stages.length; index++) {
+      const stage = stages[index];
+      context.report = (progress) => updateStage(pageId, index, { progress: Math.min(progress, 1) });
+
+      for (let attempt = 1; ; attempt++) {
+        updateStage(pageId, index, { status: 'running', progress: 0, attempts: attempt, error: undefined });
+        try {
+          const patch = await stage.run(context);
+          if (patch) updatePage(pageId, patch);
+          context.page = getPage(pageId);
+          updateStage(pageId, index, { status: 'done', progress: 1 });
+          break;
+        } catch (error) {
+          if (signal.aborted) throw error;
+          if (attempt >= stage.maxAttempts || !isRetriable(error)) {
+            updateStage(pageId, index, { status: 'failed', error: errorMessage(error) });
+            throw error;
+          }
+          await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), signal);
+        }
+      }
+    }
+    updateJob(pageId, () => ({ status: 'completed', error: undefined }));
+  } catch (error) {
+    const cancelled = signal.aborted;
+    updatePage(pageId, (current) => ({
+      ...current,
+      status: cancelled ? 'cancelled' : 'failed',
+      job: {
+        ...current.job,
+        status: cancelled ? 'cancelled' : 'failed',
+        error: cancelled ? 'تم إلغاء الإنشاء' : errorMessage(error),
+        stages: current.job.stages.map((s) => (s.status === 'running' ? { ...s, status: 'pending' } : s)),
+        updatedAt: new Date().toISOString(),
+      },
+    }));
+  } finally {
+    controllers.delete(pageId);
+  }
+
+  return getPage(pageId);
+};
+
+export interface GenerationOptions {
+  overrides?: PageOverrides;
+  voice?: CopyVoice;
+}
+
+const createGenerationPage = (
+  url: string,
+  { overrides, voice = DEFAULT_VOICE }: GenerationOptions,
+  status: GenerationJob['status'] = 'running'
+) => {
+  const page: GeneratedPage = {
+    id: createPageId(),
+    url: normalizeProductUrl(url).toString(),
+    title: url,
+    status: 'generating',
+    createdAt: new Date().toISOString().slice(0, 10),
+    orders: 0,
+    job: createJob(status),
+    overrides,
+    voice,
+  };
+  addPage(page);
+  return page.id;
+};
+
+export const startGeneration = (url: string, options: GenerationOptions = {}) => {
+  const id = createGenerationPage(url, options);
+  return { id, done: runJob(id) };
+};
+
+// Manual entries skip fetching and extraction: the typed input is the product.
+export const startManualGeneration = (input: ManualProductInput, voice: CopyVoice = DEFAULT_VOICE) => {
+  const job = createJob();
+  const page: GeneratedPage = {
+    id: createPageId(),
+    url: '',
+    source: 'manual',
+    title: input.title,
+    status: 'generating',
+    createdAt: new Date().toISOString().slice(0, 10),
+    orders: 0,
+    voice,
+    job: {
+      ...job,
+      stages: job.stages.map((s) =>
+        s.id === 'fetch' || s.id === 'extract' ? { ...s, status: 'done', progress: 1 } : s
+      ),
+    },
+    product: {
+      sourceUrl: '',
+      title: input.title,
+      description: input.notes,
+      price: input.price,
+      currency: input.currency,
+      images: input.images,
+      attributes: {},
+    },
+  };
+  addPage(page);
+  return { id: page.id, done: runJob(page.id) };
+};
+
+// Large batches would otherwise hammer the source store and the copy provider at once.
+export const enqueueGenerations = (items: ({ url: string } & GenerationOptions)[]) => {
+  const ids = items.map(({ url, ...options }) => createGenerationPage(url, options, 'queued'));
+  const queue = [...ids];
+  const worker = async () => {
+    for (let id = queue.shift(); id; id = queue.shift()) {
+      await runJob(id);
+    }
+  };
+  const done = Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_JOBS, ids.length) }, worker))
+    .then(() => ids.map((id) => getPage(id)));
+  return { ids, done };
+};
+
+export const retryJob = (pageId: string) => {
+  if (controllers.has(pageId)) return Promise.resolve(getPage(pageId));
+  updatePage(pageId, (page) => ({
+    ...page,
+    status: 'generating',
+    job: { ...(page.job ?? createJob()), status: 'running', error: undefined },
+  }));
+  return runJob(pageId);
+};
+
+export const cancelJob = (pageId: string) => {
+  const controller = controllers.get(pageId);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+  updatePage(pageId, (page) =>
+    page.job?.status === 'queued'
+      ? { ...page, status: 'cancelled', job: { ...page.job, status: 'cancelled', error: 'تم إلغاء الإنشاء' } }
+      : page
+  );
+};
+
+export const isJobActive = (pageId: string) => controllers.has(pageId);
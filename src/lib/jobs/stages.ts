@@ -0,0 +1,121 @@
+import { generateLandingCopy, landingCopyTemplate, templateTag, translateProduct } from "@/lib/copy";
+import { assetRef, importImage, isAssetRef } from "@/lib/assets";
+import { extractProduct, ImportError } from "@/lib/importer";
+import { renderStaticPage } from "@/lib/export";
+import { buildLandingPage, findSection, landingPageSchema, pageImages, reviewsFromImport, updateSection } from "@/lib/landing";
+import { fetchText } from "@/lib/importer/fetch-page";
+import { storeFaq } from "@/lib/pages/faq";
+import type { GeneratedPage } from "@/lib/pages/types";
+import type { StageId } from "./types";
+
+export interface JobContext {
+  page: GeneratedPage;
+  url?: URL;
+  html?: string;
+  signal: AbortSignal;
+  report: (progress: number) => void;
+}
+
+export interface StageDefinition {
+  id: StageId;
+  maxAttempts: number;
+  run: (context: JobContext) => Promise<Partial<GeneratedPage> | void>;
+}
+
+export const stages: StageDefinition[] = [
+  {
+    id: 'fetch',
+    maxAttempts: 3,
+    run: async (context) => {
+      context.html = await fetchText(context.url.toString(), { signal: context.signal });
+    },
+  },
+  {
+    id: 'extract',
+    maxAttempts: 1,
+    run: async ({ url, html, signal }) => {
+      const { product, platform, missing } = await extractProduct(url, html || '', signal);
+      if (!product.title || (product.price === undefined && product.images.length === 0)) {
+        throw new ImportError('not_product', 'لم يتم العثور على بيانات منتج في هذه الصفحة');
+      }
+      return { product, platform, missing, title: product.title };
+    },
+  },
+  {
+    id: 'translate',
+    maxAttempts: 3,
+    run: async ({ page, signal }) => ({
+      product: await translateProduct(page.product, signal),
+    }),
+  },
+  {
+    id: 'compose',
+    maxAttempts: 3,
+    run: async ({ page, signal }) => {
+      const { product, overrides, voice } = page;
+      const copy = await generateLandingCopy(product, voice, signal);
+      return {
+        content: buildLandingPage({
+          headline: copy.headline,
+          description: copy.description,
+          features: copy.features,
+          faq: storeFaq(copy.faq, product.currency),
+          images: product.images,
+          reviews: reviewsFromImport(product.reviews),
+          offer: {
+            price: overrides?.price ?? product.price,
+            originalPrice: product.originalPrice,
+            currency: product.currency,
+          },
+          copyVersion: templateTag(landingCopyTemplate),
+        }),
+      };
+    },
+  },
+  {
+    id: 'images',
+    maxAttempts: 2,
+    run: async ({ page, signal, report }) => {
+      const sources = page.content ? pageImages(page.content) : [];
+      const reviews = page.content ? findSection(page.content, 'reviews')?.items ?? [] : [];
+      const total = sources.length + reviews.reduce((sum, review) => sum + review.photos.length, 0);
+      let done = 0;
+      const localize = async (urls: string[]) => {
+        const refs: string[] = [];
+        for (const src of urls) {
+          try {
+            refs.push(isAssetRef(src) ? src : assetRef((await importImage(src, signal)).id));
+          } catch (error) {
+            if (signal.aborted) throw error;
+          }
+          report(++done / total);
+        }
+        return Array.from(new Set(refs));
+      };
+
+      // Pages only ever reference local assets; images that could not be
+      // downloaded are reported as missing instead of hot-linked.
+      const images = await localize(sources);
+      const items = [];
+      for (const review of reviews) items.push({ ...review, photos: await localize(review.photos) });
+      const missing = page.missing?.filter((field) => field !== 'images') ?? [];
+      const content = updateSection(page.content, 'gallery', (section) => ({ ...section, images }));
+      return {
+        content: updateSection(content, 'reviews', (section) => ({ ...section, items })),
+        missing: images.length ? missing : [...missing, 'images'],
+      };
+    },
+  },
+  {
+    id: 'render',
+    maxAttempts: 1,
+    // A page is only completed once its content is valid and renders; a
+    // broken section fails the job here instead of in the editor or an export.
+    run: async ({ page }) => {
+      const parsed = landingPageSchema.safeParse(page.content);
+      if (!parsed.success) throw new Error('محتوى الصفحة غير صالح');
+      renderStaticPage(parsed.data);
+      return { content: parsed.data, status: 'completed' };
+    },
+  },
+];
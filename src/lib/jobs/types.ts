@@ -0,0 +1,29 @@
+export type StageId = 'fetch' | 'extract' | 'translate' | 'compose' | 'images' | 'render';
+
+export type StageStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface StageState {
+  id: StageId;
+  status: StageStatus;
+  progress: number;
+  attempts: number;
+  error?: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  status: JobStatus;
+  stages: StageState[];
+  error?: string;
+  updatedAt: string;
+}
+
+export const STAGE_LABELS: Record<StageId, string> = {
+  fetch: 'جلب الصفحة',
+  extract: 'استخراج البيانات',
+  translate: 'الترجمة',
+  compose: 'كتابة المحتوى',
+  images: 'معالجة الصور',
+  render: 'إنشاء الصفحة',
+};
@@ -0,0 +1,83 @@
+import type { LandingPage, LandingSection, SectionType } from "./schema";
+import { createSectionId, DEFAULT_COD_TERMS, DEFAULT_TRUST_ITEMS } from "./sections";
+
+export const SECTION_TYPE_DESCRIPTIONS: Record<SectionType, string> = {
+  hero: 'عنوان رئيسي مع السعر وشارة الخصم',
+  gallery: 'صور المنتج في شبكة',
+  features: 'فقرة وصف وقائمة مميزات',
+  trust: 'أيقونات الضمان والشحن والدعم',
+  reviews: 'تقييمات وتجارب العملاء',
+  faq: 'أسئلة وأجوبة قبل الشراء',
+  'cod-form': 'نموذج الطلب والدفع عند الاستلام',
+  countdown: 'مؤقت العرض وتنبيه الكمية المتبقية',
+};
+
+export const createSection = (type: SectionType): LandingSection => {
+  const id = createSectionId(type);
+  switch (type) {
+    case 'hero':
+      return { id, type, hidden: false, badge: '', headline: 'عنوان جديد' };
+    case 'gallery':
+      return { id, type, hidden: false, images: [] };
+    case 'features':
+      return { id, type, hidden: false, heading: 'وصف المنتج', description: '', itemsHeading: 'المميزات الرئيسية', items: [] };
+    case 'trust':
+      return { id, type, hidden: false, items: DEFAULT_TRUST_ITEMS };
+    case 'reviews':
+      return { id, type, hidden: false, heading: 'آراء العملاء', items: [] };
+    case 'faq':
+      return { id, type, hidden: false, heading: 'الأسئلة الشائعة', items: [] };
+    case 'cod-form':
+      return {
+        id,
+        type,
+        hidden: false,
+        heading: 'اطلب الآن - الدفع عند الاستلام',
+        subheading: 'اطلب منتجك بسهولة وادفع عند وصوله إليك',
+        terms: DEFAULT_COD_TERMS,
+        submitLabel: 'تأكيد الطلب - الدفع عند الاستلام',
+      };
+    case 'countdown':
+      return {
+        id,
+        type,
+        hidden: false,
+        heading: 'ينتهي العرض خلال',
+        mode: 'evergreen',
+        durationMinutes: 24 * 60,
+        expiredText: 'انتهى العرض',
+        showStock: true,
+        stockThreshold: 10,
+      };
+  }
+};
+
+const withSections = (page: LandingPage, sections: LandingSection[]): LandingPage => ({ ...page, sections });
+
+export const moveSection = (page: LandingPage, from: number, to: number) => {
+  if (from === to || !page.sections[from] || to < 0 || to >= page.sections.length) return page;
+  const sections = [...page.sections];
+  const [moved] = sections.splice(from, 1);
+  sections.splice(to, 0, moved);
+  return withSections(page, sections);
+};
+
+// New sections go before the order form so it stays the last thing visitors see.
+export const insertSection = (page: LandingPage, section: LandingSection, index?: number) => {
+  const formIndex = page.sections.findIndex((s) => s.type === 'cod-form');
+  const at = index ?? (formIndex === -1 ? page.sections.length : formIndex);
+  return withSections(page, [...page.sections.slice(0, at), section, ...page.sections.slice(at)]);
+};
+
+export const duplicateSection = (page: LandingPage, id: string) => {
+  const index = page.sections.findIndex((s) => s.id === id);
+  if (index === -1) return page;
+  const copy = { ...structuredClone(page.sections[index]), id: createSectionId(page.sections[index].type) };
+  return insertSection(page, copy, index + 1);
+};
+
+export const removeSection = (page: LandingPage, id: string) =>
+  withSections(page, page.sections.filter((s) => s.id !== id));
+
+export const toggleSectionHidden = (page: LandingPage, id: string) =>
+  withSections(page, page.sections.map((s) => (s.id === id ? { ...s, hidden: !s.hidden } : s)));
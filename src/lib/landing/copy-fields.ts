@@ -0,0 +1,39 @@
+import type { CopySection } from "@/lib/copy/prompts";
+import type { LandingCopy } from "@/lib/copy/schema";
+import type { LandingPage } from "./schema";
+import { findSection, updateSection } from "./sections";
+
+// Maps the copy model (headline, description, features, FAQ) onto the sections that hold it.
+export const readCopySection = <S extends CopySection>(page: LandingPage, section: S): LandingCopy[S] => {
+  const values: LandingCopy = {
+    headline: findSection(page, 'hero')?.headline ?? '',
+    description: findSection(page, 'features')?.description ?? '',
+    features: findSection(page, 'features')?.items ?? [],
+    faq: findSection(page, 'faq')?.items ?? [],
+  };
+  return values[section];
+};
+
+export const writeCopySection = <S extends CopySection>(
+  page: LandingPage,
+  section: S,
+  value: LandingCopy[S]
+): LandingPage => {
+  switch (section) {
+    case 'headline':
+      return updateSection(page, 'hero', (s) => ({ ...s, headline: value as string }));
+    case 'description':
+      return updateSection(page, 'features', (s) => ({ ...s, description: value as string }));
+    case 'features':
+      return updateSection(page, 'features', (s) => ({ ...s, items: value as string[] }));
+    case 'faq':
+      return updateSection(page, 'faq', (s) => ({ ...s, items: value as LandingCopy['faq'] }));
+  }
+};
+
+export const readCopy = (page: LandingPage): LandingCopy => ({
+  headline: readCopySection(page, 'headline'),
+  description: readCopySection(page, 'description'),
+  features: readCopySection(page, 'features'),
+  faq: readCopySection(page, 'faq'),
+});
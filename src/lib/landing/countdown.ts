@@ -0,0 +1,48 @@
+import type { SectionOf } from "./schema";
+
+const STORAGE_PREFIX = "arabiflow.countdown.";
+
+// Evergreen deadlines are pinned on first view so a reload never restarts the timer.
+export const countdownDeadline = (section: SectionOf<'countdown'>, now = Date.now()): number | undefined => {
+  if (section.mode === 'fixed') {
+    return section.endsAt ? Date.parse(section.endsAt) : undefined;
+  }
+
+  // Keyed by duration too, so editing the timer starts a fresh one.
+  const key = `${STORAGE_PREFIX}${section.id}.${section.durationMinutes}`;
+  try {
+    const stored = Number(localStorage.getItem(key));
+    if (stored > 0) return stored;
+    const deadline = now + section.durationMinutes * 60_000;
+    localStorage.setItem(key, String(deadline));
+    return deadline;
+  } catch {
+    return now + section.durationMinutes * 60_000;
+  }
+};
+
+export interface CountdownParts {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export const countdownParts = (remainingMs: number): CountdownParts => {
+  const total = Math.max(0, Math.floor(remainingMs / 1000));
+  return {
+    days: Math.floor(total / 86_400),
+    hours: Math.floor((total % 86_400) / 3600),
+    minutes: Math.floor((total % 3600) / 60),
+    seconds: total % 60,
+  };
+};
+
+// Only real stock at or below the threshold produces a scarcity message.
+export const scarcityMessage = (stock: number | undefined, threshold: number) => {
+  if (stock === undefined || stock > threshold) return undefined;
+  if (stock === 0) return 'نفدت الكمية';
+  if (stock === 1) return 'بقيت قطعة واحدة فقط!';
+  if (stock === 2) return 'بقيت قطعتان فقط!';
+  return `بقي ${stock} ${stock <= 10 ? 'قطع' : 'قطعة'} فقط!`;
+};
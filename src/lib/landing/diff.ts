@@ -0,0 +1,152 @@
+import type { LandingPage, LandingSection } from "./schema";
+import { SECTION_TYPE_LABELS } from "./sections";
+import { getTemplate } from "./templates";
+
+export interface FieldChange {
+  key: string;
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  hidden: 'الظهور',
+  badge: 'الشارة',
+  headline: 'العنوان',
+  images: 'صورة',
+  heading: 'العنوان',
+  description: 'الوصف',
+  itemsHeading: 'عنوان القائمة',
+  items: 'عنصر',
+  subheading: 'العنوان الفرعي',
+  terms: 'شرط',
+  submitLabel: 'زر الإرسال',
+  question: 'السؤال',
+  answer: 'الإجابة',
+  label: 'النص',
+  icon: 'الأيقونة',
+  author: 'الاسم',
+  rating: 'التقييم',
+  text: 'النص',
+  city: 'المدينة',
+  photos: 'صورة',
+  date: 'التاريخ',
+  source: 'المصدر',
+  status: 'حالة المراجعة',
+  mode: 'نوع المؤقت',
+  endsAt: 'موعد الانتهاء',
+  durationMinutes: 'المدة بالدقائق',
+  expiredText: 'نص الانتهاء',
+  showStock: 'إظهار الكمية',
+  stockThreshold: 'حد الكمية',
+  name: 'الاسم',
+  values: 'القيم',
+  price: 'السعر',
+  stock: 'المخزون',
+  image: 'الصورة',
+};
+
+const OFFER_LABELS: Record<string, string> = {
+  price: 'السعر',
+  originalPrice: 'السعر قبل الخصم',
+  currency: 'العملة',
+  stock: 'المخزون',
+  options: 'خيارات المنتج',
+  variants: 'المتغيرات',
+};
+
+const display = (value: unknown, key?: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'boolean' && key === 'hidden') return value ? 'مخفي' : 'ظاهر';
+  if (typeof value === 'boolean') return value ? 'نعم' : 'لا';
+  return String(value);
+};
+
+// Flattens a value into "path → text" pairs, e.g. items.2.question.
+const flatten = (value: unknown, path: string, labels: string[], out: Map<string, { label: string; value: string }>) => {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${path}.${index}`, [...labels, String(index + 1)], out));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'id' && labels.length > 1) continue;
+      flatten(child, `${path}.${key}`, [...labels, FIELD_LABELS[key] ?? key], out);
+    }
+  } else {
+    const text = display(value, path.split('.').pop());
+    if (text !== undefined) out.set(path, { label: labels.join(' › '), value: text });
+  }
+};
+
+const sectionFields = (section: LandingSection, label: string) => {
+  const out = new Map<string, { label: string; value: string }>();
+  for (const [key, value] of Object.entries(section)) {
+    if (key === 'id' || key === 'type') continue;
+    flatten(value, `${section.id}.${key}`, [label, FIELD_LABELS[key] ?? key], out);
+  }
+  return out;
+};
+
+const fieldsOf = (page: LandingPage) => {
+  const out = new Map<string, { label: string; value: string }>();
+  for (const [key, value] of Object.entries(page.offer)) {
+    flatten(value, `offer.${key}`, [OFFER_LABELS[key] ?? key], out);
+  }
+  const counts = new Map<string, number>();
+  for (const section of page.sections) {
+    const count = (counts.get(section.type) ?? 0) + 1;
+    counts.set(section.type, count);
+    const label = `${SECTION_TYPE_LABELS[section.type]}${count > 1 ? ` ${count}` : ''}`;
+    sectionFields(section, label).forEach((field, key) => out.set(key, field));
+  }
+  return out;
+};
+
+export const diffLandingPages = (before: LandingPage, after: LandingPage): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  if (before.template !== after.template) {
+    changes.push({
+      key: 'template',
+      label: 'القالب',
+      before: getTemplate(before.template).label,
+      after: getTemplate(after.template).label,
+    });
+  }
+
+  const beforeOrder = before.sections.map((s) => s.id).filter((id) => after.sections.some((s) => s.id === id));
+  const afterOrder = after.sections.map((s) => s.id).filter((id) => before.sections.some((s) => s.id === id));
+  if (beforeOrder.join() !== afterOrder.join()) {
+    const labelOf = (page: LandingPage, ids: string[]) =>
+      ids.map((id) => SECTION_TYPE_LABELS[page.sections.find((s) => s.id === id).type]).join('، ');
+    changes.push({
+      key: 'sections.order',
+      label: 'ترتيب الأقسام',
+      before: labelOf(before, beforeOrder),
+      after: labelOf(after, afterOrder),
+    });
+  }
+
+  for (const section of before.sections) {
+    if (!after.sections.some((s) => s.id === section.id)) {
+      changes.push({ key: `${section.id}`, label: 'قسم محذوف', before: SECTION_TYPE_LABELS[section.type] });
+    }
+  }
+  for (const section of after.sections) {
+    if (!before.sections.some((s) => s.id === section.id)) {
+      changes.push({ key: `${section.id}`, label: 'قسم مضاف', after: SECTION_TYPE_LABELS[section.type] });
+    }
+  }
+
+  const beforeFields = fieldsOf(before);
+  const afterFields = fieldsOf(after);
+  const sectionIds = new Set(before.sections.filter((s) => after.sections.some((a) => a.id === s.id)).map((s) => s.id));
+  const keys = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+  for (const key of keys) {
+    const [owner] = key.split('.');
+    if (owner !== 'offer' && !sectionIds.has(owner)) continue;
+    const previous = beforeFields.get(key);
+    const next = afterFields.get(key);
+    if (previous?.value === next?.value) continue;
+    changes.push({ key, label: (next ?? previous).label, before: previous?.value, after: next?.value });
+  }
+  return changes;
+};
@@ -0,0 +1,22 @@
+import { escapeHtml } from "@/lib/html";
+
+export interface LandingDocumentParts {
+  title: string;
+  head?: string;
+  body?: string;
+}
+
+// The HTML shell shared by the preview frame and exported pages.
+export const landingDocument = ({ title, head = '', body = '' }: LandingDocumentParts) =>
+  [
+    '<!DOCTYPE html>',
+    '<html lang="ar" dir="rtl">',
+    '<head>',
+    '<meta charset="UTF-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `<title>${escapeHtml(title)}</title>`,
+    head,
+    '</head>',
+    `<body>${body}</body>`,
+    '</html>',
+  ].filter(Boolean).join('\n');
@@ -0,0 +1,80 @@
+import type { FaqItem } from "@/lib/copy/schema";
+import { DEFAULT_COD_POLICY } from "@/lib/cod-policy";
+import { policyFaq } from "./faq";
+import { LANDING_SCHEMA_VERSION, type LandingPage, type Offer, type Review } from "./schema";
+import { DEFAULT_COD_TERMS, DEFAULT_TRUST_ITEMS } from "./sections";
+import { DEFAULT_TEMPLATE_ID } from "./templates";
+
+export interface LandingPageInput {
+  headline: string;
+  description: string;
+  features: string[];
+  faq?: FaqItem[];
+  images: string[];
+  reviews?: Review[];
+  offer: Partial<Offer>;
+  copyVersion?: string;
+  template?: string;
+}
+
+export const discountBadge = ({ price, originalPrice }: Partial<Offer>) =>
+  price !== undefined && originalPrice && originalPrice > price
+    ? `خصم حصري ${Math.round((1 - price / originalPrice) * 100)}%`
+    : '';
+
+// Generated pages always start from the same section order; ids are the
+// section types so the first render is stable across reloads.
+export const buildLandingPage = (input: LandingPageInput): LandingPage => ({
+  schemaVersion: LANDING_SCHEMA_VERSION,
+  template: input.template ?? DEFAULT_TEMPLATE_ID,
+  offer: {
+    ...input.offer,
+    currency: input.offer.currency || 'SAR',
+    options: input.offer.options ?? [],
+    variants: input.offer.variants ?? [],
+  },
+  copyVersion: input.copyVersion,
+  sections: [
+    { id: 'hero', type: 'hero', hidden: false, badge: discountBadge(input.offer), headline: input.headline },
+    { id: 'gallery', type: 'gallery', hidden: false, images: input.images },
+    {
+      id: 'features',
+      type: 'features',
+      hidden: false,
+      heading: 'وصف المنتج',
+      description: input.description,
+      itemsHeading: 'المميزات الرئيسية',
+      items: input.features,
+    },
+    { id: 'trust', type: 'trust', hidden: false, items: DEFAULT_TRUST_ITEMS },
+    { id: 'reviews', type: 'reviews', hidden: false, heading: 'آراء العملاء', items: input.reviews ?? [] },
+    { id: 'faq', type: 'faq', hidden: false, heading: 'الأسئلة الشائعة', items: input.faq ?? [] },
+    {
+      id: 'cod-form',
+      type: 'cod-form',
+      hidden: false,
+      heading: 'اطلب الآن - الدفع عند الاستلام',
+      subheading: 'اطلب منتجك بسهولة وادفع عند وصوله إليك',
+      terms: DEFAULT_COD_TERMS,
+      submitLabel: 'تأكيد الطلب - الدفع عند الاستلام',
+    },
+  ],
+});
+
+export const demoLandingPage = buildLandingPage({
+  headline: "ساعة ذكية متقدمة - Apple Watch Series 9",
+  description: "ساعة ذكية متطورة مع أحدث التقنيات لمراقبة الصحة واللياقة البدنية. تصميم أنيق ومقاوم للماء مع بطارية تدوم طوال اليوم.",
+  features: [
+    "شاشة عرض عالية الدقة",
+    "مقاومة للماء حتى 50 متر",
+    "مراقبة معدل ضربات القلب",
+    "نظام GPS مدمج",
+    "بطارية تدوم 18 ساعة"
+  ],
+  images: [
+    "https://images.unsplash.com/photo-1546868871-7041f2a55e12?w=500&h=500&fit=crop",
+    "https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=500&h=500&fit=crop"
+  ],
+  faq: policyFaq(DEFAULT_COD_POLICY),
+  offer: { price: 899, originalPrice: 1299, currency: 'SAR' },
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_COD_POLICY, type CodPolicy } from "@/lib/cod-policy";
+import { policyFaq } from "./faq";
+
+const answer = (policy: Partial<CodPolicy>, question: string) =>
+  policyFaq({ ...DEFAULT_COD_POLICY, ...policy }).find((item) => item.question === question)?.answer;
+
+describe("policyFaq", () => {
+  it.each([
+    [1, 'خلال يوم واحد من الاستلام'],
+    [2, 'خلال يومين من الاستلام'],
+    [7, 'خلال 7 أيام من الاستلام'],
+    [14, 'خلال 14 يوماً من الاستلام'],
+  ])("counts %i return days", (returnDays, expected) => {
+    expect(answer({ returnDays }, 'ماذا لو لم يعجبني المنتج؟')).toContain(expected);
+  });
+
+  it.each([
+    [1, 1, 'خلال يوم عمل واحد،'],
+    [2, 2, 'خلال يومي عمل،'],
+    [2, 5, 'خلال 2 إلى 5 أيام عمل،'],
+    [7, 12, 'خلال 7 إلى 12 يوم عمل،'],
+  ])("counts delivery in %i to %i working days", (deliveryDaysMin, deliveryDaysMax, expected) => {
+    expect(answer({ deliveryDaysMin, deliveryDaysMax }, 'كم يستغرق التوصيل؟')).toContain(expected);
+  });
+});
@@ -0,0 +1,90 @@
+import type { FaqItem } from "@/lib/copy/schema";
+import type { CodPolicy } from "@/lib/cod-policy";
+import { countedNoun, formatCount, formatPrice, type CountForms } from "@/lib/format";
+import type { LandingPage } from "./schema";
+
+const POLICY_QUESTIONS = {
+  payment: 'كيف أدفع ثمن الطلب؟',
+  confirmation: 'هل سيتم التواصل معي قبل الشحن؟',
+  delivery: 'كم يستغرق التوصيل؟',
+  shipping: 'هل الشحن مجاني؟',
+  inspect: 'هل يمكنني فحص المنتج قبل الدفع؟',
+  returns: 'ماذا لو لم يعجبني المنتج؟',
+};
+
+// Generated questions on these topics are dropped in favour of the store's
+// actual policy, which the copy model cannot know.
+const POLICY_TOPICS = /(أدفع|الدفع|التوصيل|يصل|توصيل|رسوم الشحن|الشحن مجاني|فحص|إرجاع|الإرجاع|استرجاع|استبدال|لم يعجبني)/;
+
+const WORKING_DAYS: CountForms = { one: 'يوم عمل واحد', two: 'يومي عمل', few: 'أيام عمل', many: 'يوم عمل' };
+const DAYS: CountForms = { one: 'يوم واحد', two: 'يومين', few: 'أيام', many: 'يوماً' };
+
+const workingDays = (min: number, max: number) =>
+  min === max ? formatCount(max, WORKING_DAYS) : `${min} إلى ${max} ${countedNoun(max, WORKING_DAYS)}`;
+
+export const policyFaq = (policy: CodPolicy, currency = 'SAR'): FaqItem[] => {
+  const items: FaqItem[] = [
+    {
+      question: POLICY_QUESTIONS.payment,
+      answer: 'الدفع نقداً عند استلام المنتج، ولا تحتاج إلى بطاقة بنكية أو دفع أي مبلغ مقدماً.',
+    },
+  ];
+  if (policy.confirmationCall) {
+    items.push({
+      question: POLICY_QUESTIONS.confirmation,
+      answer: 'نعم، يتصل بك فريقنا لتأكيد الطلب والعنوان قبل شحنه.',
+    });
+  }
+  items.push({
+    question: POLICY_QUESTIONS.delivery,
+    answer: `يصل طلبك خلال ${workingDays(policy.deliveryDaysMin, policy.deliveryDaysMax)}، ونوصل إلى ${policy.coverage}.`,
+  });
+  items.push({
+    question: POLICY_QUESTIONS.shipping,
+    answer: policy.shippingFee === 0
+      ? 'نعم، الشحن مجاني لجميع الطلبات.'
+      : policy.freeShippingThreshold !== undefined
+        ? `الشحن مجاني للطلبات من ${formatPrice(policy.freeShippingThreshold, currency)} فأكثر، وتبلغ رسومه ${formatPrice(policy.shippingFee, currency)} لباقي الطلبات.`
+        : `تبلغ رسوم الشحن ${formatPrice(policy.shippingFee, currency)} وتُدفع مع ثمن الطلب عند الاستلام.`,
+  });
+  if (policy.inspectBeforePay) {
+    items.push({
+      question: POLICY_QUESTIONS.inspect,
+      answer: 'نعم، يمكنك فتح الشحنة وفحص المنتج أمام المندوب قبل الدفع.',
+    });
+  }
+  items.push({
+    question: POLICY_QUESTIONS.returns,
+    answer: policy.returnDays > 0
+      ? `يمكنك رفض الاستلام، أو طلب الإرجاع أو الاستبدال خلال ${formatCount(policy.returnDays, DAYS)} من الاستلام.`
+      : 'يمكنك رفض الاستلام عند وصول المندوب، ولا نقبل الإرجاع بعد الاستلام.',
+  });
+  return items;
+};
+
+const policyQuestions = new Set(Object.values(POLICY_QUESTIONS));
+
+// Policy answers come first; product questions follow. Re-running this on an
+// edited FAQ refreshes the policy answers and keeps everything else.
+export const withPolicyFaq = (items: FaqItem[], policyItems: FaqItem[]): FaqItem[] => [
+  ...policyItems,
+  ...items.filter(({ question }) => !policyQuestions.has(question) && !POLICY_TOPICS.test(question)),
+];
+
+// schema.org FAQPage markup for the visible FAQ sections.
+export const faqPageJsonLd = (page: LandingPage) => {
+  const items = page.sections.flatMap((section) =>
+    section.type === 'faq' && !section.hidden ? section.items : []
+  ).filter((item) => item.question.trim() && item.answer.trim());
+  if (!items.length) return null;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: items.map((item) => ({
+      '@type': 'Question',
+      name: item.question,
+      acceptedAnswer: { '@type': 'Answer', text: item.answer },
+    })),
+  };
+};
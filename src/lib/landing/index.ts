@@ -0,0 +1,14 @@
+export * from "./schema";
+export * from "./sections";
+export * from "./factory";
+export * from "./migrate";
+export * from "./copy-fields";
+export * from "./builder";
+export * from "./settings";
+export * from "./diff";
+export * from "./document";
+export * from "./templates";
+export * from "./countdown";
+export * from "./reviews";
+export * from "./faq";
+export * from "./variants";
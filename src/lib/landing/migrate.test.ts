@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import pageV1 from "./__fixtures__/page-v1.json?raw";
+import pageV2 from "./__fixtures__/page-v2.json?raw";
+import { LandingPageVersionError, migrateLandingPage } from "./migrate";
+import { LANDING_SCHEMA_VERSION } from "./schema";
+import { findSection } from "./sections";
+
+describe("migrateLandingPage", () => {
+  it("upgrades a v1 flat page through every version to sections with a template", () => {
+    const page = migrateLandingPage(JSON.parse(pageV1));
+
+    expect(page).toMatchObject({
+      schemaVersion: LANDING_SCHEMA_VERSION,
+      template: 'classic',
+      copyVersion: 'landing-copy@v1',
+      offer: { price: 150, originalPrice: 200, currency: 'AED', options: [], variants: [] },
+    });
+    expect(page.sections.map((section) => section.type)).toEqual([
+      'hero', 'gallery', 'features', 'trust', 'reviews', 'faq', 'cod-form',
+    ]);
+    expect(findSection(page, 'hero')).toMatchObject({ headline: 'ساعة ذكية مقاومة للماء', badge: 'خصم حصري 25%', hidden: false });
+    expect(findSection(page, 'gallery').images).toEqual(['https://shop.example.com/watch.jpg']);
+    expect(findSection(page, 'features').items).toEqual(['شاشة AMOLED', 'بطارية 7 أيام', 'مقاومة للماء']);
+    expect(findSection(page, 'faq').items).toEqual([{ question: 'هل الساعة أصلية؟', answer: 'نعم، مع ضمان سنة.' }]);
+  });
+
+  it("gives a v2 page the classic template and keeps its sections", () => {
+    const page = migrateLandingPage(JSON.parse(pageV2));
+
+    expect(page).toMatchObject({ schemaVersion: LANDING_SCHEMA_VERSION, template: 'classic', offer: { price: 89 } });
+    expect(page.sections.map((section) => section.id)).toEqual(['hero', 'gallery', 'faq']);
+    expect(findSection(page, 'gallery').images).toEqual(['asset:bag']);
+  });
+
+  it("returns a current page as it is", () => {
+    const page = migrateLandingPage(JSON.parse(pageV2));
+    expect(migrateLandingPage(page)).toEqual(page);
+  });
+
+  it("refuses pages from a newer version of the app", () => {
+    const newer = { ...JSON.parse(pageV2), schemaVersion: LANDING_SCHEMA_VERSION + 1 };
+
+    expect(() => migrateLandingPage(newer)).toThrow(LandingPageVersionError);
+  });
+
+  it("rejects content that does not fit the schema after migrating", () => {
+    const broken = JSON.parse(pageV2);
+    broken.sections[0].type = 'banner';
+
+    expect(() => migrateLandingPage(broken)).toThrow();
+  });
+});
@@ -0,0 +1,69 @@
+import { LANDING_SCHEMA_VERSION, landingPageSchema, type LandingPage } from "./schema";
+import { DEFAULT_COD_TERMS, DEFAULT_TRUST_ITEMS } from "./sections";
+
+type RawDocument = Record<string, unknown>;
+
+export class LandingPageVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(`Landing page schema v${version} is newer than this app (v${LANDING_SCHEMA_VERSION})`);
+    this.name = 'LandingPageVersionError';
+    this.version = version;
+  }
+}
+
+const strings = (value: unknown) => (Array.isArray(value) ? value.filter((v) => typeof v === 'string') : []);
+
+// Each migration upgrades exactly one version and writes the target shape
+// literally, so it keeps working after the factory moves on.
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v1: the flat PageContent object stored before pages had sections.
+  1: (doc) => {
+    const price = typeof doc.price === 'number' ? doc.price : undefined;
+    const originalPrice = typeof doc.originalPrice === 'number' ? doc.originalPrice : undefined;
+    const discount = price !== undefined && originalPrice > price
+      ? `خصم حصري ${Math.round((1 - price / originalPrice) * 100)}%`
+      : '';
+    return {
+      schemaVersion: 2,
+      offer: { price, originalPrice, currency: typeof doc.currency === 'string' ? doc.currency : 'SAR' },
+      copyVersion: doc.copyVersion,
+      sections: [
+        { id: 'hero', type: 'hero', badge: discount, headline: String(doc.title ?? '') },
+        { id: 'gallery', type: 'gallery', images: strings(doc.images) },
+        { id: 'features', type: 'features', description: String(doc.description ?? ''), items: strings(doc.features) },
+        { id: 'trust', type: 'trust', items: DEFAULT_TRUST_ITEMS },
+        { id: 'reviews', type: 'reviews', items: [] },
+        { id: 'faq', type: 'faq', items: Array.isArray(doc.faq) ? doc.faq : [] },
+        {
+          id: 'cod-form',
+          type: 'cod-form',
+          heading: 'اطلب الآن - الدفع عند الاستلام',
+          subheading: 'اطلب منتجك بسهولة وادفع عند وصوله إليك',
+          terms: DEFAULT_COD_TERMS,
+          submitLabel: 'تأكيد الطلب - الدفع عند الاستلام',
+        },
+      ],
+    };
+  },
+  // v2: pages had no template and always used the original look.
+  2: (doc) => ({ ...doc, schemaVersion: 3, template: 'classic' }),
+};
+
+export const schemaVersionOf = (raw: unknown) => {
+  const version = (raw as RawDocument)?.schemaVersion;
+  return typeof version === 'number' ? version : 1;
+};
+
+export const migrateLandingPage = (raw: unknown): LandingPage => {
+  let version = schemaVersionOf(raw);
+  if (version > LANDING_SCHEMA_VERSION) throw new LandingPageVersionError(version);
+
+  let doc = raw as RawDocument;
+  while (version < LANDING_SCHEMA_VERSION) {
+    doc = migrations[version](doc);
+    version++;
+  }
+  return landingPageSchema.parse(doc);
+};
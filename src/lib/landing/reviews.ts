@@ -0,0 +1,104 @@
+import type { ImportedReview } from "@/lib/importer";
+import { createSection, insertSection } from "./builder";
+import { readCopySection } from "./copy-fields";
+import type { LandingPage, Review, ReviewStatus, SectionOf } from "./schema";
+import { findSection, pageImages, updateSection } from "./sections";
+import { hasVariants, isInStock } from "./variants";
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'بانتظار المراجعة',
+  approved: 'منشورة',
+  hidden: 'مخفية',
+};
+
+export const createReviewId = () => `review-${Math.random().toString(36).slice(2, 10)}`;
+
+const reviewKey = ({ author, text }: Pick<Review, 'author' | 'text'>) =>
+  `${author.trim()}|${text.replace(/\s+/g, ' ').trim()}`.toLowerCase();
+
+// Reviews without a star rating are dropped: a made-up rating would end up in
+// the page's aggregate rating markup.
+export const reviewsFromImport = (imported: ImportedReview[] = []): Review[] =>
+  imported
+    .filter((review) => review.rating !== undefined && review.text)
+    .map((review) => ({
+      id: createReviewId(),
+      author: review.author || 'عميل',
+      city: review.city,
+      rating: Math.min(5, Math.max(1, Math.round(review.rating))),
+      text: review.text,
+      photos: review.photos,
+      date: review.date,
+      source: 'imported',
+      status: 'pending',
+    }));
+
+// Re-imports only add reviews the page has not seen, so moderation decisions stick.
+export const mergeReviews = (existing: Review[], incoming: Review[]) => {
+  const seen = new Set(existing.map(reviewKey));
+  return [...existing, ...incoming.filter((review) => !seen.has(reviewKey(review)))];
+};
+
+export const approvedReviews = (section: SectionOf<'reviews'>) =>
+  section.items.filter((review) => review.status === 'approved');
+
+export const aggregateRating = (reviews: Review[]) => {
+  if (!reviews.length) return null;
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+  return { value: Math.round((total / reviews.length) * 10) / 10, count: reviews.length };
+};
+
+const isPublicUrl = (src: string) => /^https?:\/\//.test(src);
+
+// schema.org Product markup so search engines can show the rating stars. Only
+// reviews visible on the page are counted.
+export const productJsonLd = (page: LandingPage) => {
+  const section = findSection(page, 'reviews');
+  const reviews = section && !section.hidden ? approvedReviews(section) : [];
+  const rating = aggregateRating(reviews);
+  const { offer } = page;
+  const images = pageImages(page).filter(isPublicUrl);
+  // Google rejects Product markup that has none of offers, review or aggregateRating.
+  if (offer.price === undefined && !reviews.length) return null;
+  const inStock = hasVariants(offer)
+    ? offer.variants.some((variant) => isInStock(offer, variant))
+    : isInStock(offer);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: readCopySection(page, 'headline'),
+    description: readCopySection(page, 'description') || undefined,
+    image: images.length ? images : undefined,
+    offers: offer.price === undefined ? undefined : {
+      '@type': 'Offer',
+      price: offer.price,
+      priceCurrency: offer.currency,
+      availability: `https://schema.org/${inStock ? 'InStock' : 'OutOfStock'}`,
+    },
+    aggregateRating: rating ? {
+      '@type': 'AggregateRating',
+      ratingValue: rating.value,
+      reviewCount: rating.count,
+      bestRating: 5,
+      worstRating: 1,
+    } : undefined,
+    review: reviews.length ? reviews.map((review) => ({
+      '@type': 'Review',
+      author: { '@type': 'Person', name: review.author },
+      reviewBody: review.text,
+      datePublished: review.date,
+      reviewRating: { '@type': 'Rating', ratingValue: review.rating, bestRating: 5 },
+    })) : undefined,
+  };
+};
+
+// "</script>" inside a review must not close the surrounding script tag.
+export const jsonLdScript = (data: unknown) => JSON.stringify(data).replace(/</g, '\\u003c');
+
+// Moderation edits the page's first reviews section, which holds the imported
+// reviews; pages without one get it back before the form.
+export const updateReviews = (page: LandingPage, update: (items: Review[]) => Review[]) => {
+  const target = findSection(page, 'reviews') ? page : insertSection(page, createSection('reviews'));
+  return updateSection(target, 'reviews', (section) => ({ ...section, items: update(section.items) }));
+};
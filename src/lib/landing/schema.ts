@@ -0,0 +1,147 @@
+import { z } from "zod";
+
+export const LANDING_SCHEMA_VERSION = 3;
+
+const sectionBase = {
+  id: z.string().min(1),
+  hidden: z.boolean().default(false),
+};
+
+export const TRUST_ICONS = ['shield', 'truck', 'phone', 'refresh', 'award', 'lock'] as const;
+
+export const heroSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('hero'),
+  badge: z.string().default(''),
+  headline: z.string(),
+});
+
+export const gallerySectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('gallery'),
+  images: z.array(z.string()),
+});
+
+export const featuresSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('features'),
+  heading: z.string().default('وصف المنتج'),
+  description: z.string(),
+  itemsHeading: z.string().default('المميزات الرئيسية'),
+  items: z.array(z.string()),
+});
+
+export const trustSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('trust'),
+  items: z.array(z.object({
+    icon: z.enum(TRUST_ICONS),
+    label: z.string(),
+  })),
+});
+
+export const REVIEW_STATUSES = ['pending', 'approved', 'hidden'] as const;
+
+export const reviewSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  city: z.string().optional(),
+  rating: z.number().min(1).max(5),
+  text: z.string(),
+  photos: z.array(z.string()).default([]),
+  date: z.string().optional(),
+  // Imported reviews wait in the moderation queue; manual ones are approved on entry.
+  source: z.enum(['imported', 'manual']).default('manual'),
+  status: z.enum(REVIEW_STATUSES).default('approved'),
+});
+
+export const reviewsSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('reviews'),
+  heading: z.string().default('آراء العملاء'),
+  items: z.array(reviewSchema),
+});
+
+export const faqSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('faq'),
+  heading: z.string().default('الأسئلة الشائعة'),
+  items: z.array(z.object({ question: z.string(), answer: z.string() })),
+});
+
+export const codFormSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('cod-form'),
+  heading: z.string(),
+  subheading: z.string(),
+  terms: z.array(z.string()),
+  submitLabel: z.string(),
+});
+
+// Evergreen timers start at each visitor's first view and run for durationMinutes.
+export const countdownSectionSchema = z.object({
+  ...sectionBase,
+  type: z.literal('countdown'),
+  heading: z.string(),
+  mode: z.enum(['fixed', 'evergreen']),
+  endsAt: z.string().datetime().optional(),
+  durationMinutes: z.number().int().positive().default(24 * 60),
+  expiredText: z.string().default('انتهى العرض'),
+  showStock: z.boolean().default(false),
+  stockThreshold: z.number().int().positive().default(10),
+});
+
+export const sectionSchema = z.discriminatedUnion('type', [
+  heroSectionSchema,
+  gallerySectionSchema,
+  featuresSectionSchema,
+  trustSectionSchema,
+  reviewsSectionSchema,
+  faqSectionSchema,
+  codFormSectionSchema,
+  countdownSectionSchema,
+]);
+
+export const variantOptionSchema = z.object({
+  name: z.string().trim().min(1),
+  values: z.array(z.string().trim().min(1)),
+});
+
+// One purchasable combination of option values, e.g. { اللون: 'أسود', المقاس: 'L' }.
+// Price and stock fall back to the offer when unset.
+export const variantSchema = z.object({
+  id: z.string(),
+  values: z.record(z.string()),
+  price: z.number().nonnegative().optional(),
+  stock: z.number().int().nonnegative().optional(),
+  image: z.string().optional(),
+});
+
+export const offerSchema = z.object({
+  price: z.number().nonnegative().optional(),
+  originalPrice: z.number().nonnegative().optional(),
+  currency: z.string().default('SAR'),
+  // Units actually in stock; scarcity messages are only shown when this is set.
+  stock: z.number().int().nonnegative().optional(),
+  options: z.array(variantOptionSchema).default([]),
+  variants: z.array(variantSchema).default([]),
+});
+
+export const landingPageSchema = z.object({
+  schemaVersion: z.literal(LANDING_SCHEMA_VERSION),
+  template: z.string(),
+  offer: offerSchema,
+  sections: z.array(sectionSchema),
+  copyVersion: z.string().optional(),
+});
+
+export type LandingSection = z.infer<typeof sectionSchema>;
+export type SectionType = LandingSection['type'];
+export type SectionOf<T extends SectionType> = Extract<LandingSection, { type?: T }>;
+export type TrustIcon = (typeof TRUST_ICONS)[number];
+export type Review = z.infer<typeof reviewSchema>;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+export type Offer = z.infer<typeof offerSchema>;
+export type VariantOption = z.infer<typeof variantOptionSchema>;
+export type Variant = z.infer<typeof variantSchema>;
+export type LandingPage = z.infer<typeof landingPageSchema>;
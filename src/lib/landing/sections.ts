@@ -0,0 +1,77 @@
+import type { LandingPage, LandingSection, SectionOf, SectionType, TrustIcon } from "./schema";
+
+export const SECTION_TYPE_LABELS: Record<SectionType, string> = {
+  hero: 'العنوان والسعر',
+  gallery: 'معرض الصور',
+  features: 'الوصف والمميزات',
+  trust: 'شارات الثقة',
+  reviews: 'آراء العملاء',
+  faq: 'الأسئلة الشائعة',
+  'cod-form': 'نموذج الطلب',
+  countdown: 'عداد تنازلي',
+};
+
+export const DEFAULT_TRUST_ITEMS: { icon: TrustIcon; label: string }[] = [
+  { icon: 'shield', label: 'ضمان المنتج' },
+  { icon: 'truck', label: 'شحن مجاني' },
+  { icon: 'phone', label: 'دعم 24/7' },
+];
+
+export const DEFAULT_COD_TERMS = [
+  'سيتم التواصل معك لتأكيد الطلب خلال 24 ساعة',
+  'الدفع نقداً عند استلام المنتج',
+  'فحص المنتج قبل الدفع متاح',
+  'رسوم الشحن: مجاني للطلبات أكثر من 500 ريال',
+];
+
+export const createSectionId = (type: SectionType) =>
+  `${type}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const findSection = <T extends SectionType>(page: LandingPage, type: T) =>
+  page.sections.find((section): section is SectionOf<T> => section.type === type);
+
+export const replaceSection = (page: LandingPage, next: LandingSection): LandingPage => ({
+  ...page,
+  sections: page.sections.map((section) => (section.id === next.id ? next : section)),
+});
+
+// Page-level data (copy, product images) lives in the first section of each
+// type; duplicates added in the builder are edited independently.
+export const updateSection = <T extends SectionType>(
+  page: LandingPage,
+  type: T,
+  update: (section: SectionOf<T>) => SectionOf<T>
+): LandingPage => {
+  const target = findSection(page, type);
+  return target ? replaceSection(page, update(target)) : page;
+};
+
+export const pageImages = (page: LandingPage) => findSection(page, 'gallery')?.images ?? [];
+
+export type ImageSlot = 'gallery' | 'review' | 'variant';
+
+// Every image the page displays, for exports that need to rewrite them.
+export const imageRefs = (page: LandingPage) => {
+  const refs = new Map<string, ImageSlot>();
+  for (const section of page.sections) {
+    if (section.type === 'gallery') section.images.forEach((src) => refs.set(src, refs.get(src) ?? 'gallery'));
+    if (section.type === 'reviews') section.items.forEach((review) => review.photos.forEach((src) => refs.set(src, refs.get(src) ?? 'review')));
+  }
+  page.offer.variants.forEach((variant) => variant.image && refs.set(variant.image, refs.get(variant.image) ?? 'variant'));
+  return Array.from(refs, ([src, slot]) => ({ src, slot }));
+};
+
+export const mapImages = (page: LandingPage, map: (src: string) => string): LandingPage => ({
+  ...page,
+  offer: {
+    ...page.offer,
+    variants: page.offer.variants.map((variant) => (variant.image ? { ...variant, image: map(variant.image) } : variant)),
+  },
+  sections: page.sections.map((section) => {
+    if (section.type === 'gallery') return { ...section, images: section.images.map(map) };
+    if (section.type === 'reviews') {
+      return { ...section, items: section.items.map((review) => ({ ...review, photos: review.photos.map(map) })) };
+    }
+    return section;
+  }),
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { parsePrice, toWesternDigits } from "@/lib/importer/parse";
+import { readCopySection, writeCopySection } from "./copy-fields";
+import type { LandingPage } from "./schema";
+import { findSection, updateSection } from "./sections";
+
+const priceField = (message: string) =>
+  z.string().refine((value) => !value.trim() || parsePrice(value) !== undefined, message);
+
+// Prices are edited as text so Arabic-Indic digits and separators are accepted.
+export const pageSettingsSchema = z
+  .object({
+    headline: z.string().trim().min(1, 'العنوان مطلوب').max(120, 'العنوان أطول من 120 حرفاً'),
+    badge: z.string().trim().max(40, 'الشارة أطول من 40 حرفاً'),
+    price: priceField('أدخل سعراً صحيحاً').refine((value) => value.trim().length > 0, 'السعر مطلوب'),
+    originalPrice: priceField('أدخل سعراً صحيحاً'),
+    stock: z.string().refine((value) => !value.trim() || /^\d+$/.test(toWesternDigits(value.trim())), 'أدخل عدداً صحيحاً'),
+    description: z.string().trim().max(1200, 'الوصف أطول من 1200 حرف'),
+  })
+  .refine(
+    ({ price, originalPrice }) => !originalPrice.trim() || parsePrice(originalPrice) > parsePrice(price),
+    { path: ['originalPrice'], message: 'السعر قبل الخصم يجب أن يكون أعلى من سعر البيع' }
+  );
+
+export type PageSettings = z.infer<typeof pageSettingsSchema>;
+
+export const settingsFromPage = (page: LandingPage): PageSettings => {
+  const hero = findSection(page, 'hero');
+  return {
+    headline: hero?.headline ?? '',
+    badge: hero?.badge ?? '',
+    price: page.offer.price === undefined ? '' : String(page.offer.price),
+    originalPrice: page.offer.originalPrice === undefined ? '' : String(page.offer.originalPrice),
+    stock: page.offer.stock === undefined ? '' : String(page.offer.stock),
+    description: readCopySection(page, 'description'),
+  };
+};
+
+// Also used for the live preview, so values that do not parse yet keep the saved ones.
+export const applySettings = (page: LandingPage, settings: PageSettings): LandingPage => {
+  const withHero = updateSection(page, 'hero', (hero) => ({ ...hero, headline: settings.headline, badge: settings.badge }));
+  const originalPrice = settings.originalPrice.trim() ? parsePrice(settings.originalPrice) : undefined;
+  const stock = settings.stock.trim() ? parseInt(toWesternDigits(settings.stock.trim()), 10) : undefined;
+  return {
+    ...writeCopySection(withHero, 'description', settings.description),
+    offer: {
+      ...page.offer,
+      price: parsePrice(settings.price) ?? page.offer.price,
+      originalPrice: settings.originalPrice.trim() && originalPrice === undefined ? page.offer.originalPrice : originalPrice,
+      stock: Number.isNaN(stock) ? page.offer.stock : stock,
+    },
+  };
+};
@@ -0,0 +1,189 @@
+import type { CSSProperties } from "react";
+
+// Palettes override the HSL tokens declared in src/index.css, scoped to the
+// landing page root, so switching templates never touches page content.
+type ColorToken =
+  | 'background'
+  | 'foreground'
+  | 'card'
+  | 'card-foreground'
+  | 'primary'
+  | 'primary-hover'
+  | 'primary-foreground'
+  | 'accent'
+  | 'accent-foreground'
+  | 'muted'
+  | 'muted-foreground'
+  | 'success'
+  | 'warning'
+  | 'destructive'
+  | 'destructive-foreground'
+  | 'border'
+  | 'input'
+  | 'ring';
+
+export interface LandingTemplate {
+  id: string;
+  label: string;
+  description: string;
+  palette: Partial<Record<ColorToken, string>>;
+  typography: { fontFamily: string; headingWeight: 'font-bold' | 'font-extrabold' | 'font-semibold' };
+  button: { shape: 'rounded' | 'pill' | 'square'; fill: 'solid' | 'gradient' };
+  layout: {
+    heroAlign: 'center' | 'start';
+    gallery: 'grid' | 'featured';
+    spacing: 'compact' | 'normal' | 'relaxed';
+    cards: 'shadow' | 'outline' | 'flat';
+  };
+  radius: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'classic';
+
+export const LANDING_TEMPLATES: LandingTemplate[] = [
+  {
+    id: 'classic',
+    label: 'كلاسيكي',
+    description: 'أزرق هادئ يناسب أغلب المنتجات',
+    palette: {
+      background: '210 40% 98%',
+      success: '142 76% 36%',
+      warning: '45 93% 47%',
+    },
+    typography: { fontFamily: "'Cairo', 'Noto Sans Arabic', sans-serif", headingWeight: 'font-bold' },
+    button: { shape: 'rounded', fill: 'gradient' },
+    layout: { heroAlign: 'center', gallery: 'grid', spacing: 'normal', cards: 'shadow' },
+    radius: '0.5rem',
+  },
+  {
+    id: 'luxury',
+    label: 'فاخر',
+    description: 'ذهبي وأسود للعطور والساعات والمنتجات الراقية',
+    palette: {
+      background: '40 33% 97%',
+      foreground: '30 10% 12%',
+      card: '0 0% 100%',
+      primary: '38 60% 42%',
+      'primary-hover': '38 60% 35%',
+      'primary-foreground': '0 0% 100%',
+      accent: '40 40% 93%',
+      'muted-foreground': '30 8% 40%',
+      success: '38 60% 38%',
+      warning: '38 60% 45%',
+      destructive: '30 10% 12%',
+      'destructive-foreground': '40 33% 97%',
+      border: '38 30% 82%',
+      input: '38 30% 82%',
+      ring: '38 60% 42%',
+    },
+    typography: { fontFamily: "'Tajawal', 'Noto Sans Arabic', sans-serif", headingWeight: 'font-semibold' },
+    button: { shape: 'square', fill: 'solid' },
+    layout: { heroAlign: 'center', gallery: 'featured', spacing: 'relaxed', cards: 'outline' },
+    radius: '0.125rem',
+  },
+  {
+    id: 'bold',
+    label: 'عروض قوية',
+    description: 'أحمر وبرتقالي للعروض المحدودة والتخفيضات',
+    palette: {
+      background: '0 0% 100%',
+      primary: '4 85% 50%',
+      'primary-hover': '15 90% 50%',
+      'primary-foreground': '0 0% 100%',
+      accent: '20 100% 96%',
+      success: '4 85% 45%',
+      warning: '38 95% 50%',
+      destructive: '38 95% 50%',
+      'destructive-foreground': '0 0% 10%',
+      ring: '4 85% 50%',
+    },
+    typography: { fontFamily: "'Almarai', 'Noto Sans Arabic', sans-serif", headingWeight: 'font-extrabold' },
+    button: { shape: 'pill', fill: 'gradient' },
+    layout: { heroAlign: 'start', gallery: 'grid', spacing: 'compact', cards: 'shadow' },
+    radius: '0.75rem',
+  },
+  {
+    id: 'fresh',
+    label: 'طبيعي',
+    description: 'أخضر منعش لمنتجات العناية والأغذية',
+    palette: {
+      background: '150 30% 98%',
+      primary: '152 60% 34%',
+      'primary-hover': '152 60% 28%',
+      'primary-foreground': '0 0% 100%',
+      accent: '150 40% 94%',
+      muted: '150 20% 94%',
+      success: '152 60% 30%',
+      warning: '40 90% 50%',
+      border: '150 20% 88%',
+      input: '150 20% 88%',
+      ring: '152 60% 34%',
+    },
+    typography: { fontFamily: "'Cairo', 'Noto Sans Arabic', sans-serif", headingWeight: 'font-bold' },
+    button: { shape: 'pill', fill: 'solid' },
+    layout: { heroAlign: 'center', gallery: 'featured', spacing: 'normal', cards: 'flat' },
+    radius: '1rem',
+  },
+  {
+    id: 'minimal',
+    label: 'بسيط',
+    description: 'ألوان محايدة ومساحات واسعة للإلكترونيات',
+    palette: {
+      background: '0 0% 100%',
+      foreground: '220 10% 10%',
+      primary: '220 10% 12%',
+      'primary-hover': '220 10% 25%',
+      'primary-foreground': '0 0% 100%',
+      accent: '220 10% 96%',
+      success: '220 10% 12%',
+      warning: '220 10% 40%',
+      destructive: '220 10% 12%',
+      ring: '220 10% 12%',
+    },
+    typography: { fontFamily: "'Tajawal', 'Noto Sans Arabic', sans-serif", headingWeight: 'font-bold' },
+    button: { shape: 'square', fill: 'solid' },
+    layout: { heroAlign: 'start', gallery: 'grid', spacing: 'relaxed', cards: 'outline' },
+    radius: '0.25rem',
+  },
+];
+
+export const getTemplate = (id: string | undefined) =>
+  LANDING_TEMPLATES.find((template) => template.id === id) ?? LANDING_TEMPLATES[0];
+
+export const templateStyle = (template: LandingTemplate): CSSProperties => {
+  const style: Record<string, string> = {
+    '--radius': template.radius,
+    '--font-arabic': template.typography.fontFamily,
+  };
+  for (const [token, value] of Object.entries(template.palette)) {
+    style[`--${token}`] = value;
+  }
+  return style as CSSProperties;
+};
+
+const SPACING = { compact: 'mb-6', normal: 'mb-8', relaxed: 'mb-12' };
+
+const CARDS = {
+  shadow: 'bg-card text-card-foreground rounded-lg shadow-sm',
+  outline: 'bg-card text-card-foreground rounded-lg border',
+  flat: 'bg-accent text-accent-foreground rounded-lg',
+};
+
+const BUTTON_SHAPES = { rounded: 'rounded-md', pill: 'rounded-full', square: 'rounded-none' };
+
+const BUTTON_FILLS = {
+  solid: 'bg-primary hover:bg-primary-hover text-primary-foreground',
+  gradient: 'bg-gradient-to-r from-primary to-primary-hover hover:opacity-90 text-primary-foreground',
+};
+
+// Tailwind classes derived from a template; kept here so they are picked up by
+// the Tailwind content scan and shared by every section.
+export const templateClasses = (template: LandingTemplate) => ({
+  section: SPACING[template.layout.spacing],
+  card: CARDS[template.layout.cards],
+  heading: template.typography.headingWeight,
+  align: template.layout.heroAlign === 'center' ? 'text-center' : 'text-start',
+  button: `${BUTTON_SHAPES[template.button.shape]} ${BUTTON_FILLS[template.button.fill]}`,
+});
+
+export type TemplateClasses = ReturnType<typeof templateClasses>;
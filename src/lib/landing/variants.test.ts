@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { Offer } from "./schema";
+import { decrementStock, totalStock, withCurrentStock } from "./variants";
+
+const offer: Offer = {
+  currency: "SAR",
+  stock: 10,
+  options: [{ name: "اللون", values: ["أسود", "أبيض"] }],
+  variants: [
+    { id: "black", values: { "اللون": "أسود" }, stock: 3 },
+    { id: "white", values: { "اللون": "أبيض" } },
+  ],
+};
+
+describe("decrementStock", () => {
+  it("takes from the variant's own stock only", () => {
+    const next = decrementStock(offer, "black", 2);
+    expect(next.stock).toBe(10);
+    expect(next.variants.map((variant) => variant.stock)).toEqual([1, undefined]);
+  });
+
+  it("takes from the offer stock for variants without their own", () => {
+    const next = decrementStock(offer, "white");
+    expect(next.stock).toBe(9);
+    expect(next.variants).toEqual(offer.variants);
+  });
+
+  it("never goes below zero and leaves unlimited stock alone", () => {
+    expect(decrementStock(offer, "black", 5).variants[0].stock).toBe(0);
+    const unlimited = { ...offer, stock: undefined };
+    expect(decrementStock(unlimited, "white")).toBe(unlimited);
+  });
+});
+
+describe("withCurrentStock", () => {
+  it("keeps the snapshot's edits with the current counts", () => {
+    const snapshot: Offer = {
+      ...offer,
+      price: 199,
+      variants: [...offer.variants, { id: "red", values: { "اللون": "أحمر" }, stock: 4 }],
+    };
+    const current = decrementStock(decrementStock(offer, "black"), "white");
+
+    expect(withCurrentStock(snapshot, current)).toEqual({
+      ...snapshot,
+      stock: 9,
+      variants: [
+        { id: "black", values: { "اللون": "أسود" }, stock: 2 },
+        { id: "white", values: { "اللون": "أبيض" }, stock: undefined },
+        { id: "red", values: { "اللون": "أحمر" }, stock: 4 },
+      ],
+    });
+  });
+});
+
+describe("totalStock", () => {
+  it("adds the variants' own stock to the shared offer stock", () => {
+    expect(totalStock(offer)).toBe(13);
+    expect(totalStock({ ...offer, variants: [offer.variants[0], { ...offer.variants[1], stock: 2 }] })).toBe(5);
+  });
+
+  it("is unlimited when a variant without its own count has no offer stock", () => {
+    expect(totalStock({ ...offer, stock: undefined })).toBeUndefined();
+  });
+
+  it("is the offer stock for products without variants", () => {
+    expect(totalStock({ ...offer, options: [], variants: [] })).toBe(10);
+  });
+});
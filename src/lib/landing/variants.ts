@@ -0,0 +1,87 @@
+import type { Offer, Variant, VariantOption } from "./schema";
+
+export type VariantSelection = Record<string, string>;
+
+export const createVariantId = () => `variant-${Math.random().toString(36).slice(2, 8)}`;
+
+export const hasVariants = (offer: Offer) => offer.variants.length > 0;
+
+export const variantLabel = (variant: Variant, options: VariantOption[]) =>
+  options.map((option) => variant.values[option.name]).filter(Boolean).join(' / ');
+
+export const variantPrice = (offer: Offer, variant?: Variant) => variant?.price ?? offer.price;
+
+// Variants without their own stock share the offer's stock; unset means unlimited.
+export const variantStock = (offer: Offer, variant?: Variant) => variant?.stock ?? offer.stock;
+
+// Units left across the whole offer. Variants without their own count share
+// the offer's stock, which is then counted once.
+export const totalStock = (offer: Offer) => {
+  if (!hasVariants(offer)) return offer.stock;
+  const shared = offer.variants.some((variant) => variant.stock === undefined);
+  if (shared && offer.stock === undefined) return undefined;
+  return offer.variants.reduce((sum, variant) => sum + (variant.stock ?? 0), shared ? offer.stock : 0);
+};
+
+export const isInStock = (offer: Offer, variant?: Variant) => {
+  const stock = variantStock(offer, variant);
+  return stock === undefined || stock > 0;
+};
+
+const matches = (variant: Variant, selection: VariantSelection) =>
+  Object.entries(selection).every(([name, value]) => variant.values[name] === value);
+
+// Only a complete selection resolves to a variant.
+export const findVariant = (offer: Offer, selection: VariantSelection) =>
+  offer.options.every((option) => selection[option.name])
+    ? offer.variants.find((variant) => matches(variant, selection))
+    : undefined;
+
+// A value can be picked when some in-stock variant has it together with the
+// values already chosen for the other options.
+export const isValueAvailable = (offer: Offer, selection: VariantSelection, name: string, value: string) => {
+  const others = Object.fromEntries(Object.entries(selection).filter(([key]) => key !== name));
+  return offer.variants.some((variant) => matches(variant, { ...others, [name]: value }) && isInStock(offer, variant));
+};
+
+// Every combination of option values; variants that already exist keep their
+// id, price, stock and image.
+export const buildVariants = (options: VariantOption[], existing: Variant[] = []): Variant[] => {
+  const usable = options.filter((option) => option.name && option.values.length);
+  if (!usable.length) return [];
+  const combinations = usable.reduce<VariantSelection[]>(
+    (acc, option) => acc.flatMap((values) => option.values.map((value) => ({ ...values, [option.name]: value }))),
+    [{}]
+  );
+  return combinations.map((values) => {
+    const current = existing.find((variant) =>
+      usable.every((option) => variant.values[option.name] === values[option.name])
+    );
+    return current ? { ...current, values } : { id: createVariantId(), values };
+  });
+};
+
+// Takes from the stock the order was checked against: the variant's own
+// count, or the shared offer stock when the variant has none.
+export const decrementStock = (offer: Offer, variantId: string | undefined, quantity = 1): Offer => {
+  const variant = offer.variants.find((v) => v.id === variantId);
+  if (variant?.stock !== undefined) {
+    return {
+      ...offer,
+      variants: offer.variants.map((v) => (v === variant ? { ...v, stock: Math.max(0, v.stock - quantity) } : v)),
+    };
+  }
+  return offer.stock === undefined ? offer : { ...offer, stock: Math.max(0, offer.stock - quantity) };
+};
+
+// Stock is live inventory rather than part of an edit: older content (undo,
+// redo, restored revisions) takes the current counts of the offer and of each
+// variant that still exists.
+export const withCurrentStock = (offer: Offer, current: Offer): Offer => ({
+  ...offer,
+  stock: current.stock,
+  variants: offer.variants.map((variant) => {
+    const live = current.variants.find((v) => v.id === variant.id);
+    return live ? { ...variant, stock: live.stock } : variant;
+  }),
+});
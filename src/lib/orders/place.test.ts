@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LANDING_SCHEMA_VERSION, type LandingPage } from "@/lib/landing";
+import { addPage, getPage } from "@/lib/pages/store";
+import { placeOrder, sendOrder } from "./place";
+import { getOrdersState } from "./store";
+
+const content = {
+  schemaVersion: LANDING_SCHEMA_VERSION,
+  template: 'classic',
+  offer: {
+    price: 199,
+    currency: 'SAR',
+    options: [{ name: 'اللون', values: ['أسود', 'أبيض'] }],
+    variants: [
+      { id: 'black', values: { 'اللون': 'أسود' }, price: 209, stock: 3 },
+      { id: 'white', values: { 'اللون': 'أبيض' }, stock: 0 },
+    ],
+  },
+  sections: [],
+} as LandingPage;
+
+const input = { fullName: ' سارة ', phone: '0500000000', address: 'الرياض', notes: '', variantId: 'black' };
+const options = { content, product: 'ساعة ذكية', endpoint: 'https://orders.example.com/hook', source: 'https://app.example.com/p/watch', pageId: 'page-1' };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("placeOrder", () => {
+  it("stores the order with its variant and takes the unit off that variant's stock", async () => {
+    addPage({ id: 'page-1', url: '', title: 'ساعة ذكية', status: 'completed', createdAt: '', orders: 0, content });
+
+    const order = await placeOrder(input, options);
+
+    expect(getOrdersState().orders[0]).toEqual(order);
+    expect(order).toMatchObject({
+      pageId: 'page-1',
+      customerName: 'سارة',
+      variant: { id: 'black', label: 'أسود' },
+      amount: 209,
+      status: 'pending',
+      source: 'https://app.example.com/p/watch',
+    });
+    expect(getPage('page-1').orders).toBe(1);
+    expect(getPage('page-1').content.offer.variants.map((variant) => variant.stock)).toEqual([2, 0]);
+  });
+
+  it("refuses sold-out variants and orders without a variant", async () => {
+    await expect(placeOrder({ ...input, variantId: 'white' }, options)).rejects.toThrow('نفدت الكمية');
+    await expect(placeOrder({ ...input, variantId: undefined }, options)).rejects.toThrow('يرجى اختيار نوع المنتج');
+  });
+});
+
+describe("sendOrder", () => {
+  it("posts the order with the payload exported pages send", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await sendOrder(input, options);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://orders.example.com/hook', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1].body))).toMatchObject({
+      pageId: 'page-1',
+      product: 'ساعة ذكية',
+      variant: { id: 'black', label: 'أسود', values: { 'اللون': 'أسود' } },
+      fullName: 'سارة',
+      quantity: 1,
+      amount: 209,
+      currency: 'SAR',
+      source: 'https://app.example.com/p/watch',
+    });
+  });
+
+  it("refuses orders it cannot deliver", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(sendOrder(input, { ...options, endpoint: '' })).rejects.toThrow('استقبال الطلبات غير مفعل');
+    await expect(sendOrder({ ...input, variantId: 'white' }, options)).rejects.toThrow('نفدت الكمية');
+    expect(fetchMock).not.toHaveBeenCalled();
+    await expect(sendOrder(input, options)).rejects.toThrow('تعذر إرسال الطلب');
+  });
+});
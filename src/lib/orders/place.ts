@@ -0,0 +1,103 @@
+import {
+  decrementStock,
+  findSection,
+  hasVariants,
+  isInStock,
+  variantLabel,
+  variantPrice,
+  type LandingPage,
+  type Offer,
+} from "@/lib/landing";
+import { updatePage } from "@/lib/pages/store";
+import { addOrder, createOrderId } from "./store";
+import type { Order, OrderInput } from "./types";
+
+export interface PlaceOrderOptions {
+  content: LandingPage;
+  product: string;
+  source: string;
+  pageId?: string;
+}
+
+const orderVariant = (offer: Offer, variantId: string | undefined) => {
+  const variant = offer.variants.find((v) => v.id === variantId);
+  if (hasVariants(offer) && !variant) throw new Error('يرجى اختيار نوع المنتج');
+  if (!isInStock(offer, variant)) throw new Error('نفدت الكمية المتاحة من هذا المنتج');
+  return variant;
+};
+
+export const placeOrder = async (input: OrderInput, { content, product, source, pageId }: PlaceOrderOptions): Promise<Order> => {
+  const { offer } = content;
+  const variant = orderVariant(offer, input.variantId);
+
+  const order: Order = {
+    id: createOrderId(),
+    pageId,
+    customerName: input.fullName.trim(),
+    phone: input.phone.trim(),
+    address: input.address.trim(),
+    notes: input.notes.trim() || undefined,
+    product: product || findSection(content, 'hero')?.headline || '',
+    variant: variant && { id: variant.id, label: variantLabel(variant, offer.options), values: variant.values },
+    quantity: 1,
+    amount: variantPrice(offer, variant) ?? 0,
+    currency: offer.currency,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    source,
+  };
+  addOrder(order);
+
+  // Stock is operational data: it changes outside the editor's undo history,
+  // and undo, redo and restored revisions keep the current counts.
+  if (pageId) {
+    updatePage(pageId, (page) => ({
+      ...page,
+      orders: page.orders + 1,
+      content: page.content && { ...page.content, offer: decrementStock(page.content.offer, variant?.id, order.quantity) },
+    }));
+  }
+  return order;
+};
+
+export interface SendOrderOptions {
+  content: LandingPage;
+  product: string;
+  endpoint: string;
+  source: string;
+  pageId?: string;
+}
+
+// Copies an order to the orders endpoint with the payload exported pages send
+// (see landingRuntime in export/runtime.ts), so orders taken on this device
+// reach the same place as the ones from visitors.
+export const sendOrder = async (input: OrderInput, { content, product, endpoint, source, pageId }: SendOrderOptions) => {
+  if (!endpoint) throw new Error('استقبال الطلبات غير مفعل لهذه الصفحة');
+  const { offer } = content;
+  const variant = orderVariant(offer, input.variantId);
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        pageId,
+        product,
+        variant: variant && { id: variant.id, label: variantLabel(variant, offer.options), values: variant.values },
+        fullName: input.fullName.trim(),
+        phone: input.phone.trim(),
+        address: input.address.trim(),
+        notes: input.notes.trim(),
+        quantity: 1,
+        amount: variantPrice(offer, variant),
+        currency: offer.currency,
+        createdAt: new Date().toISOString(),
+        source,
+      }),
+    });
+  } catch {
+    throw new Error('تعذر إرسال الطلب، حاول مرة أخرى');
+  }
+  if (!response.ok) throw new Error('تعذر إرسال الطلب، حاول مرة أخرى');
+};
@@ -0,0 +1,142 @@
+import { readJson, writeJson } from "@/lib/storage";
+import type { Order } from "./types";
+
+const STORAGE_KEY = "arabiflow.orders";
+
+type Action =
+  | { type: "ADD_ORDER"; order: Order }
+  | { type: "UPDATE_ORDER"; id: string; update: Partial<Order> };
+
+export interface OrdersState {
+  orders: Order[];
+}
+
+const seedOrders: Order[] = [
+  {
+    id: 'ORD-001',
+    customerName: 'أحمد محمد العلي',
+    phone: '0551234567',
+    product: 'ساعة ذكية متقدمة',
+    address: 'الرياض، حي النخيل، شارع الملك فهد',
+    status: 'pending',
+    quantity: 1,
+    amount: 899,
+    currency: 'SAR',
+    createdAt: '2024-01-15',
+    source: 'صفحة الهبوط 1',
+  },
+  {
+    id: 'ORD-002',
+    customerName: 'فاطمة أحمد السالم',
+    phone: '0559876543',
+    product: 'سماعات لاسلكية عالية الجودة',
+    address: 'جدة، حي الزهراء، طريق الملك عبدالعزيز',
+    status: 'confirmed',
+    quantity: 1,
+    amount: 299,
+    currency: 'SAR',
+    createdAt: '2024-01-14',
+    source: 'صفحة الهبوط 2',
+  },
+  {
+    id: 'ORD-003',
+    customerName: 'محمد عبدالله الحربي',
+    phone: '0554567890',
+    product: 'جهاز لوحي للأعمال',
+    address: 'الدمام، حي الشاطئ، شارع الخليج العربي',
+    status: 'shipped',
+    quantity: 1,
+    amount: 1299,
+    currency: 'SAR',
+    createdAt: '2024-01-13',
+    source: 'صفحة الهبوط 3',
+  },
+  {
+    id: 'ORD-004',
+    customerName: 'نورا سالم القحطاني',
+    phone: '0556789012',
+    product: 'ساعة ذكية متقدمة',
+    address: 'مكة المكرمة، حي العزيزية، طريق الحرم',
+    status: 'delivered',
+    quantity: 1,
+    amount: 899,
+    currency: 'SAR',
+    createdAt: '2024-01-12',
+    source: 'صفحة الهبوط 1',
+  },
+  {
+    id: 'ORD-005',
+    customerName: 'خالد إبراهيم الناصر',
+    phone: '0553456789',
+    product: 'سماعات لاسلكية عالية الجودة',
+    address: 'المدينة المنورة، حي الحرة الشرقية، شارع النبوي',
+    status: 'cancelled',
+    quantity: 1,
+    amount: 299,
+    currency: 'SAR',
+    createdAt: '2024-01-11',
+    source: 'صفحة الهبوط 2',
+  },
+];
+
+// Unset or corrupt storage falls back to the seed data.
+const load = (): OrdersState => {
+  const stored = readJson(STORAGE_KEY);
+  return { orders: Array.isArray(stored) ? (stored as Order[]) : seedOrders };
+};
+
+export const reducer = (state: OrdersState, action: Action): OrdersState => {
+  switch (action.type) {
+    case "ADD_ORDER":
+      return { orders: [action.order, ...state.orders] };
+    case "UPDATE_ORDER":
+      return {
+        orders: state.orders.map((o) => (o.id === action.id ? { ...o, ...action.update } : o)),
+      };
+  }
+};
+
+const listeners: Array<(state: OrdersState) => void> = [];
+
+let memoryState: OrdersState = load();
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  // A rejected write keeps the in-memory state usable.
+  writeJson(STORAGE_KEY, memoryState.orders);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Other tabs of the app add and update orders too; pick them up instead of
+// overwriting them with this tab's copy on the next write.
+window.addEventListener('storage', (event) => {
+  if (event.key !== STORAGE_KEY) return;
+  memoryState = load();
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+});
+
+export const getOrdersState = () => memoryState;
+
+export const subscribe = (listener: (state: OrdersState) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export const addOrder = (order: Order) => dispatch({ type: "ADD_ORDER", order });
+
+export const updateOrder = (id: string, update: Partial<Order>) => dispatch({ type: "UPDATE_ORDER", id, update });
+
+// Sequential, human-readable numbers continuing from the highest existing one.
+export const createOrderId = () => {
+  const highest = Math.max(0, ...memoryState.orders.map((o) => Number(o.id.replace(/^ORD-/, '')) || 0));
+  return `ORD-${String(highest + 1).padStart(3, '0')}`;
+};
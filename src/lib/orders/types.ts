@@ -0,0 +1,33 @@
+export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderVariant {
+  id: string;
+  label: string;
+  values: Record<string, string>;
+}
+
+export interface Order {
+  id: string;
+  pageId?: string;
+  customerName: string;
+  phone: string;
+  address: string;
+  notes?: string;
+  product: string;
+  variant?: OrderVariant;
+  quantity: number;
+  amount: number;
+  currency: string;
+  status: OrderStatus;
+  createdAt: string;
+  source: string;
+}
+
+// What the COD form collects; the rest of the order comes from the page.
+export interface OrderInput {
+  fullName: string;
+  phone: string;
+  address: string;
+  notes: string;
+  variantId?: string;
+}
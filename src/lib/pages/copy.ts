@@ -0,0 +1,89 @@
+import {
+  generateLandingCopy,
+  generateSectionCopy,
+  landingCopyTemplate,
+  templateTag,
+  type CopySection,
+  type CopyVoice,
+  type FaqItem,
+  type LandingCopy,
+} from "@/lib/copy";
+import { DEFAULT_VOICE } from "@/lib/copy/voice";
+import { readCopySection, writeCopySection } from "@/lib/landing";
+import { storeFaq } from "./faq";
+import { editPage } from "./revisions";
+import { getPage } from "./store";
+import type { CopyHistory, GeneratedPage, SectionHistory } from "./types";
+
+export const COPY_SECTIONS: CopySection[] = ['headline', 'description', 'features', 'faq'];
+
+export const SECTION_LABELS: Record<CopySection, string> = {
+  headline: 'العنوان',
+  description: 'الوصف',
+  features: 'المميزات',
+  faq: 'الأسئلة الشائعة',
+};
+
+const MAX_VARIANTS = 20;
+
+// The value on screen before any regeneration becomes variant 1, so it can always be restored.
+const sectionHistory = <S extends CopySection>(page: GeneratedPage, section: S): SectionHistory<S> =>
+  (page.history?.[section] as SectionHistory<S>) ?? {
+    variants: [{ value: readCopySection(page.content, section), createdAt: page.createdAt }],
+    active: 0,
+  };
+
+const pushVariant = <S extends CopySection>(page: GeneratedPage, section: S, value: LandingCopy[S]): GeneratedPage => {
+  const history = sectionHistory(page, section);
+  const variants = [...history.variants, { value, createdAt: new Date().toISOString() }].slice(-MAX_VARIANTS);
+  return {
+    ...page,
+    content: writeCopySection(page.content, section, value),
+    history: { ...page.history, [section]: { variants, active: variants.length - 1 } } as CopyHistory,
+  };
+};
+
+export const regenerateSection = async (pageId: string, section: CopySection) => {
+  const page = getPage(pageId);
+  if (!page?.product || !page.content) throw new Error('لا توجد بيانات منتج لإعادة التوليد');
+
+  const history = sectionHistory(page, section);
+  const generated = await generateSectionCopy(
+    page.product,
+    section,
+    readCopySection(page.content, section),
+    history.variants.length,
+    page.voice ?? DEFAULT_VOICE
+  );
+  const value = (section === 'faq' ? storeFaq(generated as FaqItem[], page.content.offer.currency) : generated) as LandingCopy[typeof section];
+  editPage(pageId, `إعادة توليد ${SECTION_LABELS[section]}`, (current) => pushVariant(current, section, value));
+};
+
+export const selectSectionVariant = (pageId: string, section: CopySection, index: number) =>
+  editPage(pageId, 'اختيار نسخة سابقة', (page) => {
+    const history = sectionHistory(page, section);
+    const variant = history.variants[index];
+    if (!variant) return page;
+    return {
+      ...page,
+      content: writeCopySection(page.content, section, variant.value),
+      history: { ...page.history, [section]: { ...history, active: index } } as CopyHistory,
+    };
+  });
+
+// Rewrites the page copy in the given voice and keeps that voice on the page,
+// so later regenerations stay consistent.
+export const regeneratePageCopy = async (pageId: string, voice: CopyVoice) => {
+  const page = getPage(pageId);
+  if (!page?.product) throw new Error('لا توجد بيانات منتج لإعادة التوليد');
+
+  const generated = await generateLandingCopy(page.product, voice);
+  const copy = { ...generated, faq: storeFaq(generated.faq, page.content?.offer.currency) };
+  editPage(pageId, 'إعادة توليد النص', (current) => {
+    let next: GeneratedPage = { ...current, voice, content: { ...current.content, copyVersion: templateTag(landingCopyTemplate) } };
+    for (const section of COPY_SECTIONS) {
+      next = pushVariant(next, section, copy[section]);
+    }
+    return next;
+  });
+};
@@ -0,0 +1,23 @@
+import { readJson, writeJson } from "@/lib/storage";
+
+const STORAGE_KEY = "arabiflow.drafts";
+
+// Pending form edits per page, kept across reloads until saved or discarded.
+type Drafts = Record<string, { savedAt: string; values: unknown }>;
+
+const readDrafts = (): Drafts => (readJson(STORAGE_KEY) ?? {}) as Drafts;
+
+// A rejected write only loses the autosave, not the edit on screen.
+const writeDrafts = (drafts: Drafts) => writeJson(STORAGE_KEY, drafts);
+
+export const loadDraft = <T,>(pageId: string) => readDrafts()[pageId] as { savedAt: string; values: T } | undefined;
+
+export const saveDraft = (pageId: string, values: unknown) =>
+  writeDrafts({ ...readDrafts(), [pageId]: { savedAt: new Date().toISOString(), values } });
+
+export const clearDraft = (pageId: string) => {
+  const drafts = readDrafts();
+  if (!(pageId in drafts)) return;
+  delete drafts[pageId];
+  writeDrafts(drafts);
+};
@@ -0,0 +1,13 @@
+import type { FaqItem } from "@/lib/copy/schema";
+import { getCodPolicy } from "@/lib/cod-policy";
+import { createSection, findSection, insertSection, policyFaq, updateSection, withPolicyFaq } from "@/lib/landing";
+import { editContent } from "./revisions";
+
+// Generated FAQs always carry the store's current COD policy answers.
+export const storeFaq = (items: FaqItem[], currency?: string) => withPolicyFaq(items, policyFaq(getCodPolicy(), currency));
+
+export const refreshPolicyFaq = (pageId: string) =>
+  editContent(pageId, 'تحديث أسئلة سياسة الدفع', (content) => {
+    const target = findSection(content, 'faq') ? content : insertSection(content, createSection('faq'));
+    return updateSection(target, 'faq', (section) => ({ ...section, items: storeFaq(section.items, content.offer.currency) }));
+  });
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { LANDING_SCHEMA_VERSION, type LandingPage } from "@/lib/landing";
+import { publishHosted, unpublishHosted } from "./hosting";
+import { publishPageToWordPress } from "./publish";
+import { addPage, getPage } from "./store";
+
+const content = {
+  schemaVersion: LANDING_SCHEMA_VERSION,
+  template: 'classic',
+  offer: { price: 199, currency: 'SAR', options: [], variants: [] },
+  sections: [{ id: 'hero-1', type: 'hero', hidden: false, badge: '', headline: 'ساعة ذكية' }],
+} as LandingPage;
+
+const connection = { siteUrl: 'https://shop.example.com', username: 'admin', applicationPassword: 'secret' };
+const wordpress = vi.fn(async () => Response.json({ id: 42, link: 'https://shop.example.com/watch/' }));
+
+describe("hosted visibility", () => {
+  it("is not turned on by publishing to a CMS", async () => {
+    addPage({ id: 'cms', url: '', title: 'Smart watch', status: 'completed', createdAt: '', orders: 0, content });
+
+    await publishPageToWordPress('cms', connection, { fetch: wordpress });
+
+    expect(getPage('cms').status).toBe('published');
+    expect(getPage('cms').slug).toBeUndefined();
+    expect(getPage('cms').hosted).toBeFalsy();
+  });
+
+  it("turns off without unpublishing the page from a CMS", async () => {
+    addPage({ id: 'both', url: '', title: 'Smart watch', status: 'completed', createdAt: '', orders: 0, content });
+    await publishPageToWordPress('both', connection, { fetch: wordpress });
+
+    publishHosted('both');
+    expect(getPage('both')).toMatchObject({ hosted: true, status: 'published', slug: expect.any(String) });
+
+    unpublishHosted('both');
+    expect(getPage('both')).toMatchObject({ hosted: false, status: 'published' });
+  });
+
+  it("does not publish a page that is only on this device", () => {
+    addPage({ id: 'hosted', url: '', title: 'Smart watch', status: 'completed', createdAt: '', orders: 0, content });
+
+    publishHosted('hosted');
+    expect(getPage('hosted')).toMatchObject({ hosted: true, status: 'completed' });
+
+    unpublishHosted('hosted');
+    expect(getPage('hosted')).toMatchObject({ hosted: false, status: 'completed' });
+  });
+});
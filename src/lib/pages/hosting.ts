@@ -0,0 +1,42 @@
+import { isValidSlug, slugify, uniqueSlug } from "@/lib/slug";
+import { getPagesState, updatePage } from "./store";
+import type { GeneratedPage } from "./types";
+
+export const orderPagePath = (slug: string) => `/p/${slug}`;
+
+// Slugs other pages use now or used before, so old links never change target.
+const isSlugTaken = (slug: string, pageId?: string) =>
+  getPagesState().pages.some(
+    (page) => page.id !== pageId && (page.slug === slug || page.previousSlugs?.includes(slug))
+  );
+
+export const suggestSlug = (page: GeneratedPage) => uniqueSlug(slugify(page.title), (slug) => isSlugTaken(slug, page.id));
+
+export const slugError = (slug: string, pageId?: string) => {
+  if (!isValidSlug(slug)) return 'استخدم أحرفاً لاتينية صغيرة وأرقاماً وشرطات فقط';
+  if (isSlugTaken(slug, pageId)) return 'هذا الرابط مستخدم لصفحة أخرى';
+  return null;
+};
+
+// Pages get a slug the first time their order page is turned on.
+export const withSlug = (page: GeneratedPage): GeneratedPage => (page.slug ? page : { ...page, slug: suggestSlug(page) });
+
+export const setPageSlug = (pageId: string, slug: string) => {
+  const error = slugError(slug, pageId);
+  if (error) throw new Error(error);
+  updatePage(pageId, (page) => {
+    if (page.slug === slug) return page;
+    const previous = (page.previousSlugs ?? []).filter((s) => s !== slug);
+    return { ...page, slug, previousSlugs: page.slug ? [...previous, page.slug] : previous };
+  });
+};
+
+// The order page only opens in this browser, so it leaves the status alone:
+// only publishing to WordPress or Shopify makes a page 'published'.
+export const publishHosted = (pageId: string) => updatePage(pageId, (page) => ({ ...withSlug(page), hosted: true }));
+
+export const unpublishHosted = (pageId: string) => updatePage(pageId, (page) => ({ ...page, hosted: false }));
+
+// A match on an earlier slug means the caller should redirect to `page.slug`.
+export const findPageBySlug = (pages: GeneratedPage[], slug: string) =>
+  pages.find((page) => page.slug === slug) ?? pages.find((page) => page.previousSlugs?.includes(slug));
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { buildLandingPage, readCopy } from "@/lib/landing";
+import { applyAllLintFixes, lintLandingPage } from "./lint";
+
+const page = (headline: string, description: string, features: string[] = []) =>
+  buildLandingPage({ headline, description, features, images: [], offer: { price: 199 } });
+
+describe("lintLandingPage", () => {
+  it("converts minority digits but leaves allowed terms and their model numbers", () => {
+    const content = page('جوال iPhone 15 بسعر ١٩٩ ريال', 'بطارية تدوم ٢٤ ساعة، وشاشة 6 بوصات، ومنفذ USB 3.0');
+
+    const issues = lintLandingPage(content);
+    const fixed = readCopy(applyAllLintFixes(content, issues));
+
+    expect(issues.filter((issue) => issue.rule === 'mixed-digits')).toHaveLength(1);
+    expect(fixed.headline).toBe('جوال iPhone 15 بسعر ١٩٩ ريال');
+    expect(fixed.description).toBe('بطارية تدوم ٢٤ ساعة، وشاشة ٦ بوصات، ومنفذ USB 3.0');
+  });
+
+  it("keeps merchant terms with digits as written", () => {
+    const content = page('سماعة Galaxy Buds2 بسعر ١٩٩', 'صوت نقي لمدة ٨ ساعات');
+
+    expect(lintLandingPage(content, { allowedTerms: ['Galaxy Buds2'] }).map((issue) => issue.rule)).not.toContain('mixed-digits');
+  });
+
+  it("does not treat commas grouping Arabic-Indic digits as Latin punctuation", () => {
+    const content = page('ساعة ذكية بسعر ١,٥٠٠ ريال', 'مقاومة للماء, وخفيفة الوزن');
+
+    const issues = lintLandingPage(content).filter((issue) => issue.rule === 'latin-punctuation');
+    const fixed = readCopy(applyAllLintFixes(content, issues));
+
+    expect(issues.map((issue) => issue.field.key)).toEqual(['description']);
+    expect(fixed.headline).toBe('ساعة ذكية بسعر ١,٥٠٠ ريال');
+    expect(fixed.description).toBe('مقاومة للماء، وخفيفة الوزن');
+  });
+});
@@ -0,0 +1,312 @@
+import type { CopySection } from "@/lib/copy/prompts";
+import { readCopy, readCopySection, writeCopySection, type LandingPage } from "@/lib/landing";
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'latin-text'
+  | 'mixed-digits'
+  | 'length'
+  | 'repeated-phrase'
+  | 'duplicate-item'
+  | 'latin-punctuation'
+  | 'space-before-punctuation'
+  | 'unbalanced-brackets'
+  | 'bidi-control';
+
+export interface FieldRef {
+  section: CopySection;
+  key: 'title' | 'description' | 'features' | 'faq';
+  index?: number;
+  part?: 'question' | 'answer';
+}
+
+export interface LintIssue {
+  id: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  field: FieldRef;
+  message: string;
+  excerpt: string;
+  fix?: { label: string; apply: (text: string) => string | null };
+}
+
+export interface LintOptions {
+  allowedTerms?: string[];
+}
+
+const ARABIC = /[؀-ۿ]/;
+const ARABIC_INDIC = /[٠-٩]/;
+const WESTERN = /[0-9]/;
+const LATIN_WORD = /[A-Za-z][A-Za-z'-]{2,}/g;
+const BIDI_CONTROLS = /[‎‏‪-‮⁦-⁩]/g;
+
+// Acronyms that Arabic shoppers read in Latin script anyway.
+const COMMON_TERMS = ['GPS', 'USB', 'LED', 'LCD', 'HD', 'WiFi', 'Wi-Fi', 'Bluetooth', 'iPhone', 'Android', 'mAh', 'SIM', 'AI'];
+
+const LENGTH_LIMITS: Record<string, { warn: number; error: number }> = {
+  title: { warn: 70, error: 120 },
+  description: { warn: 600, error: 1200 },
+  features: { warn: 80, error: 160 },
+  question: { warn: 100, error: 200 },
+  answer: { warn: 300, error: 600 },
+};
+
+export const FIELD_KEY_LABELS: Record<FieldRef['key'], string> = {
+  title: 'العنوان',
+  description: 'الوصف',
+  features: 'الميزة',
+  faq: 'السؤال',
+};
+
+export const fieldLabel = ({ key, index, part }: FieldRef) => {
+  if (key === 'features') return `${FIELD_KEY_LABELS.features} ${index + 1}`;
+  if (key === 'faq') return `${part === 'answer' ? 'إجابة' : 'سؤال'} ${index + 1}`;
+  return FIELD_KEY_LABELS[key];
+};
+
+const fieldsOf = (content: LandingPage): { field: FieldRef; text: string }[] => {
+  const copy = readCopy(content);
+  return [
+    { field: { section: 'headline', key: 'title' }, text: copy.headline },
+    { field: { section: 'description', key: 'description' }, text: copy.description },
+    ...copy.features.map((text, index) => ({
+      field: { section: 'features' as const, key: 'features' as const, index },
+      text,
+    })),
+    ...copy.faq.flatMap((item, index) =>
+      (['question', 'answer'] as const).map((part) => ({
+        field: { section: 'faq' as const, key: 'faq' as const, index, part },
+        text: item[part],
+      }))
+    ),
+  ];
+};
+
+const fieldId = ({ key, index, part }: FieldRef) => [key, index, part].filter((v) => v !== undefined).join('.');
+
+export const readField = (content: LandingPage, { section, index, part }: FieldRef): string => {
+  if (section === 'features') return readCopySection(content, 'features')[index] ?? '';
+  if (section === 'faq') return readCopySection(content, 'faq')[index]?.[part] ?? '';
+  return readCopySection(content, section);
+};
+
+// A null value removes list items (duplicate features); text fields become empty.
+export const writeField = (content: LandingPage, { section, index, part }: FieldRef, value: string | null): LandingPage => {
+  if (section === 'features') {
+    const features = readCopySection(content, 'features');
+    return writeCopySection(content, 'features', value === null
+      ? features.filter((_, i) => i !== index)
+      : features.map((f, i) => (i === index ? value : f)));
+  }
+  if (section === 'faq') {
+    return writeCopySection(content, 'faq', readCopySection(content, 'faq').map((item, i) =>
+      (i === index ? { ...item, [part]: value ?? '' } : item)
+    ));
+  }
+  return writeCopySection(content, section, value ?? '');
+};
+
+const toArabicDigits = (text: string) => text.replace(/[0-9]/g, (d) => '٠١٢٣٤٥٦٧٨٩'[Number(d)]);
+const toWesternDigits = (text: string) => text.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660));
+
+// Allowed terms and the model number that follows them ("iPhone 15", "USB 3.0")
+// keep their digits; the capture group makes split() return them at odd indexes.
+const termPattern = (terms: string[]) =>
+  new RegExp(
+    `((?<![A-Za-z])(?:${terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?:\\s*[0-9][0-9.]*)?(?![A-Za-z]))`,
+    'gi'
+  );
+
+const outsideTerms = (text: string, terms: RegExp, convert: (part: string) => string) =>
+  text.split(terms).map((part, i) => (i % 2 ? part : convert(part))).join('');
+
+const searchOutsideTerms = (text: string, terms: RegExp, pattern: RegExp) => {
+  let offset = 0;
+  for (const [i, part] of text.split(terms).entries()) {
+    if (i % 2 === 0 && pattern.test(part)) return offset + part.search(pattern);
+    offset += part.length;
+  }
+  return -1;
+};
+
+// Commas between digits group thousands ("١,٥٠٠") and are not punctuation.
+const LATIN_PUNCTUATION = /([؀-ۿ]\s*)([?;]|(?<![٠-٩۰-۹]),|,(?![٠-٩۰-۹]))/g;
+
+const excerptAround = (text: string, index: number, length = 30) =>
+  `${index > length ? '…' : ''}${text.slice(Math.max(0, index - length), index + length)}${index + length < text.length ? '…' : ''}`;
+
+export const lintLandingPage = (content: LandingPage, { allowedTerms = [] }: LintOptions = {}): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const fields = fieldsOf(content).filter(({ text }) => text);
+  const allowed = new Set([...COMMON_TERMS, ...allowedTerms].flatMap((term) => term.toLowerCase().split(/\s+/)));
+  const terms = termPattern([...COMMON_TERMS, ...allowedTerms].filter((term) => term.trim()));
+  const withoutTerms = (text: string) => text.replace(terms, '');
+  const push = (issue: Omit<LintIssue, 'id'>) =>
+    issues.push({ ...issue, id: `${issue.rule}:${fieldId(issue.field)}:${issues.length}` });
+
+  // Digits are judged across the whole page so every field follows the majority style.
+  let arabicIndicCount = 0;
+  let westernCount = 0;
+  for (const { text } of fields) {
+    arabicIndicCount += (withoutTerms(text).match(/[٠-٩]/g) || []).length;
+    westernCount += (withoutTerms(text).match(/[0-9]/g) || []).length;
+  }
+  const preferArabicDigits = arabicIndicCount > westernCount;
+
+  const seenFeatures = new Map<string, number>();
+
+  for (const { field, text } of fields) {
+    const latin = (text.match(LATIN_WORD) || []).filter((word) => !allowed.has(word.toLowerCase()));
+    if (latin.length && ARABIC.test(text)) {
+      push({
+        rule: 'latin-text',
+        severity: 'warning',
+        field,
+        message: `نص إنجليزي غير مترجم: ${Array.from(new Set(latin)).slice(0, 5).join('، ')}`,
+        excerpt: excerptAround(text, text.indexOf(latin[0])),
+      });
+    } else if (latin.length && !ARABIC.test(text)) {
+      push({
+        rule: 'latin-text',
+        severity: 'error',
+        field,
+        message: 'النص غير مترجم إلى العربية',
+        excerpt: excerptAround(text, 0),
+      });
+    }
+
+    const mixedDigit = searchOutsideTerms(text, terms, preferArabicDigits ? WESTERN : ARABIC_INDIC);
+    if (arabicIndicCount && westernCount && mixedDigit > -1) {
+      const convert = preferArabicDigits ? toArabicDigits : toWesternDigits;
+      push({
+        rule: 'mixed-digits',
+        severity: 'warning',
+        field,
+        message: preferArabicDigits
+          ? 'أرقام غربية في صفحة تستخدم الأرقام العربية الهندية'
+          : 'أرقام عربية هندية في صفحة تستخدم الأرقام الغربية',
+        excerpt: excerptAround(text, mixedDigit),
+        fix: {
+          label: preferArabicDigits ? 'تحويل إلى ٠١٢' : 'تحويل إلى 012',
+          apply: (value) => outsideTerms(value, terms, convert),
+        },
+      });
+    }
+
+    const limits = LENGTH_LIMITS[field.part ?? field.key];
+    if (limits && text.length > limits.warn) {
+      push({
+        rule: 'length',
+        severity: text.length > limits.error ? 'error' : 'warning',
+        field,
+        message: `النص طويل (${text.length} حرفاً، الحد المقترح ${limits.warn})`,
+        excerpt: excerptAround(text, limits.warn),
+      });
+    }
+
+    const punctuationMatch = text.search(LATIN_PUNCTUATION);
+    if (punctuationMatch > -1) {
+      push({
+        rule: 'latin-punctuation',
+        severity: 'info',
+        field,
+        message: 'علامات ترقيم لاتينية في نص عربي',
+        excerpt: excerptAround(text, punctuationMatch),
+        fix: {
+          label: 'استبدال بـ ، ؟ ؛',
+          apply: (value) =>
+            value.replace(LATIN_PUNCTUATION, (_, before: string, mark: string) =>
+              `${before}${{ ',': '،', '?': '؟', ';': '؛' }[mark]}`
+            ),
+        },
+      });
+    }
+
+    const spaceBefore = text.search(/\s+[،؛؟!.:,?;]/);
+    if (spaceBefore > -1) {
+      push({
+        rule: 'space-before-punctuation',
+        severity: 'info',
+        field,
+        message: 'مسافة قبل علامة الترقيم تسبب انفصالها عند التفاف السطر',
+        excerpt: excerptAround(text, spaceBefore),
+        fix: { label: 'حذف المسافة', apply: (value) => value.replace(/\s+([،؛؟!.:,?;])/g, '$1') },
+      });
+    }
+
+    const bidiIndex = text.search(BIDI_CONTROLS);
+    if (bidiIndex > -1) {
+      push({
+        rule: 'bidi-control',
+        severity: 'warning',
+        field,
+        message: 'محارف تحكم خفية في اتجاه النص',
+        excerpt: excerptAround(text.replace(BIDI_CONTROLS, '⁞'), bidiIndex),
+        fix: { label: 'حذف المحارف الخفية', apply: (value) => value.replace(BIDI_CONTROLS, '') },
+      });
+    }
+
+    for (const [open, close] of [['(', ')'], ['[', ']'], ['«', '»']]) {
+      if (text.split(open).length !== text.split(close).length) {
+        push({
+          rule: 'unbalanced-brackets',
+          severity: 'warning',
+          field,
+          message: `أقواس غير متوازنة ${open}${close} تنعكس بشكل خاطئ في النص من اليمين إلى اليسار`,
+          excerpt: excerptAround(text, Math.max(text.indexOf(open), text.indexOf(close))),
+        });
+      }
+    }
+
+    if (field.key === 'features') {
+      const normalized = text.replace(/\s+/g, ' ').trim();
+      if (seenFeatures.has(normalized)) {
+        push({
+          rule: 'duplicate-item',
+          severity: 'warning',
+          field,
+          message: `ميزة مكررة (مطابقة للميزة ${seenFeatures.get(normalized) + 1})`,
+          excerpt: text,
+          fix: { label: 'حذف المكرر', apply: () => null },
+        });
+      } else {
+        seenFeatures.set(normalized, field.index);
+      }
+    }
+  }
+
+  // Repeated three-word phrases across the page read as filler.
+  const phrases = new Map<string, FieldRef[]>();
+  for (const { field, text } of fields) {
+    const words = text.split(/[\s،,.!؟?:؛]+/).filter((w) => w.length > 1);
+    for (let i = 0; i + 3 <= words.length; i++) {
+      const phrase = words.slice(i, i + 3).join(' ');
+      phrases.set(phrase, [...(phrases.get(phrase) || []), field]);
+    }
+  }
+  for (const [phrase, refs] of phrases) {
+    if (refs.length >= 3) {
+      push({
+        rule: 'repeated-phrase',
+        severity: 'info',
+        field: refs[refs.length - 1],
+        message: `العبارة «${phrase}» مكررة ${refs.length} مرات`,
+        excerpt: phrase,
+      });
+    }
+  }
+
+  return issues;
+};
+
+export const applyLintFix = (content: LandingPage, issue: LintIssue): LandingPage =>
+  issue.fix ? writeField(content, issue.field, issue.fix.apply(readField(content, issue.field))) : content;
+
+// Fixes run from the last list item backwards so removals do not shift the
+// indexes of issues that are still pending.
+export const applyAllLintFixes = (content: LandingPage, issues: LintIssue[]) =>
+  [...issues]
+    .filter((issue) => issue.fix)
+    .sort((a, b) => (b.field.index ?? -1) - (a.field.index ?? -1))
+    .reduce((current, issue) => applyLintFix(current, issue), content);
@@ -0,0 +1,80 @@
+import { getExportSettings, type ExportSource } from "@/lib/export";
+import {
+  publishToShopify,
+  publishToWordPress,
+  type FetchLike,
+  type Publication,
+  type PublishPlatform,
+  type PublishResource,
+  type ShopifyConnection,
+  type WordPressConnection,
+} from "@/lib/publish";
+import { getPage, updatePage } from "./store";
+import type { GeneratedPage } from "./types";
+
+interface PublishPageOptions {
+  fetch?: FetchLike;
+  signal?: AbortSignal;
+}
+
+const sameTarget = (publication: Publication, platform: PublishPlatform, site: string | undefined, resource: PublishResource) =>
+  publication.platform === platform &&
+  (site === undefined || publication.site === site) &&
+  (publication.resource ?? 'page') === resource;
+
+// Remote IDs are tracked per platform, site and resource, so one page can be
+// live on several stores at once. Without a site this finds the latest
+// publication on any of them.
+export const findPublication = (
+  page: GeneratedPage,
+  platform: PublishPlatform,
+  site: string | undefined,
+  resource: PublishResource = 'page'
+) => page.publications?.filter((publication) => sameTarget(publication, platform, site, resource)).pop();
+
+const recordPublication = (pageId: string, publication: Publication) =>
+  updatePage(pageId, (page) => ({
+    ...page,
+    status: 'published',
+    publications: [
+      ...(page.publications ?? []).filter(
+        (p) => !sameTarget(p, publication.platform, publication.site, publication.resource ?? 'page')
+      ),
+      publication,
+    ],
+  }));
+
+// Publishing is not a content edit, so it records no revision.
+const publishPage = async (
+  pageId: string,
+  publish: (source: ExportSource, page: GeneratedPage, ordersEndpoint: string) => Promise<Publication>
+) => {
+  const page = getPage(pageId);
+  if (!page?.content) throw new Error('الصفحة لم تكتمل بعد');
+
+  const publication = await publish(
+    { id: page.id, title: page.title, content: page.content },
+    page,
+    getExportSettings().ordersEndpoint
+  );
+  recordPublication(pageId, publication);
+  return publication;
+};
+
+export const publishPageToWordPress = (pageId: string, connection: WordPressConnection, options: PublishPageOptions = {}) =>
+  publishPage(pageId, (source, page, ordersEndpoint) =>
+    publishToWordPress(source, connection, {
+      ...options,
+      ordersEndpoint,
+      previous: findPublication(page, 'wordpress', connection.siteUrl),
+    })
+  );
+
+export const publishPageToShopify = (pageId: string, connection: ShopifyConnection, options: PublishPageOptions = {}) =>
+  publishPage(pageId, (source, page, ordersEndpoint) =>
+    publishToShopify(source, connection, {
+      ...options,
+      ordersEndpoint,
+      previous: (shopDomain) => findPublication(page, 'shopify', shopDomain, connection.resource),
+    })
+  );
@@ -0,0 +1,33 @@
+import { assetRef, importImage, isAssetRef } from "@/lib/assets";
+import { importProduct } from "@/lib/importer";
+import { findSection, mergeReviews, reviewsFromImport, updateReviews } from "@/lib/landing";
+import { editContent } from "./revisions";
+import { getPage } from "./store";
+
+const localizePhotos = async (photos: string[], signal?: AbortSignal) => {
+  const refs: string[] = [];
+  for (const src of photos) {
+    try {
+      refs.push(isAssetRef(src) ? src : assetRef((await importImage(src, signal)).id));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+    }
+  }
+  return refs;
+};
+
+// Fetches the source product page again and queues reviews the page does not
+// have yet. Resolves to the number of new reviews.
+export const importReviews = async (pageId: string, signal?: AbortSignal) => {
+  const page = getPage(pageId);
+  if (!page?.content || page.source === 'manual') throw new Error('لا يوجد رابط منتج لاستيراد التقييمات منه');
+
+  const { product } = await importProduct(page.url, signal);
+  const current = findSection(page.content, 'reviews')?.items ?? [];
+  const incoming = mergeReviews(current, reviewsFromImport(product.reviews)).slice(current.length);
+  for (const review of incoming) review.photos = await localizePhotos(review.photos, signal);
+  if (!incoming.length) return 0;
+
+  editContent(pageId, 'استيراد التقييمات', (content) => updateReviews(content, (items) => mergeReviews(items, incoming)));
+  return incoming.length;
+};
@@ -0,0 +1,127 @@
+import { getEditorName } from "@/lib/editor";
+import { withCurrentStock, type LandingPage } from "@/lib/landing";
+import { getPage, updatePage } from "./store";
+import type { GeneratedPage, PageRevision } from "./types";
+
+// Revisions are full copies of the content and share the localStorage quota
+// with every other page, so only the latest few are kept.
+const MAX_REVISIONS = 20;
+// Bursts of the same edit (dragging, typing fixes) collapse into one revision.
+const COALESCE_MS = 60_000;
+
+interface UndoStack {
+  past: LandingPage[];
+  future: LandingPage[];
+}
+
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// Undo history lives for the session only; revisions are the persisted record.
+const stacks = new Map<string, UndoStack>();
+const listeners: Array<() => void> = [];
+
+const stackFor = (pageId: string) => {
+  if (!stacks.has(pageId)) stacks.set(pageId, { past: [], future: [] });
+  return stacks.get(pageId);
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeUndo = (listener: () => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export const getUndoState = (pageId: string): UndoState => {
+  const stack = stacks.get(pageId);
+  return { canUndo: !!stack?.past.length, canRedo: !!stack?.future.length };
+};
+
+const createRevisionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// The first edit also records the generated content, so it can always be restored.
+const recordRevision = (previous: GeneratedPage, next: GeneratedPage, label: string): GeneratedPage => {
+  const author = getEditorName();
+  const revisions: PageRevision[] = previous.revisions?.length
+    ? previous.revisions
+    : [{ id: 'initial', createdAt: previous.createdAt, author: 'التوليد التلقائي', label: 'النسخة الأولى', content: previous.content }];
+  const last = revisions[revisions.length - 1];
+  const coalesce = last.id !== 'initial' && last.author === author && last.label === label
+    && Date.now() - Date.parse(last.createdAt) < COALESCE_MS;
+
+  const revision: PageRevision = {
+    id: coalesce ? last.id : createRevisionId(),
+    createdAt: new Date().toISOString(),
+    author,
+    label,
+    content: next.content,
+  };
+  return {
+    ...next,
+    revisions: [...(coalesce ? revisions.slice(0, -1) : revisions), revision].slice(-MAX_REVISIONS),
+  };
+};
+
+const commit = (pageId: string, label: string, update: (page: GeneratedPage) => GeneratedPage) => {
+  updatePage(pageId, (page) => {
+    const next = update(page);
+    return page.content && next.content !== page.content ? recordRevision(page, next, label) : next;
+  });
+};
+
+// Every editor change to page content goes through here so it can be undone
+// and shows up in the revision list.
+export const editPage = (pageId: string, label: string, update: (page: GeneratedPage) => GeneratedPage) => {
+  const before = getPage(pageId)?.content;
+  commit(pageId, label, update);
+  const after = getPage(pageId)?.content;
+  if (!before || after === before) return;
+
+  const stack = stackFor(pageId);
+  stack.past.push(before);
+  stack.future = [];
+  notify();
+};
+
+export const editContent = (pageId: string, label: string, update: (content: LandingPage) => LandingPage) =>
+  editPage(pageId, label, (page) => ({ ...page, content: update(page.content) }));
+
+// Orders move stock after a snapshot was taken, so snapshots keep the current counts.
+const applySnapshot = (content: LandingPage, snapshot: LandingPage): LandingPage => ({
+  ...snapshot,
+  offer: withCurrentStock(snapshot.offer, content.offer),
+});
+
+export const undo = (pageId: string) => {
+  const stack = stackFor(pageId);
+  const previous = stack.past.pop();
+  const current = getPage(pageId)?.content;
+  if (!previous || !current) return;
+  stack.future.push(current);
+  commit(pageId, 'تراجع', (page) => ({ ...page, content: applySnapshot(page.content, previous) }));
+  notify();
+};
+
+export const redo = (pageId: string) => {
+  const stack = stackFor(pageId);
+  const next = stack.future.pop();
+  const current = getPage(pageId)?.content;
+  if (!next || !current) return;
+  stack.past.push(current);
+  commit(pageId, 'إعادة', (page) => ({ ...page, content: applySnapshot(page.content, next) }));
+  notify();
+};
+
+export const restoreRevision = (pageId: string, revisionId: string) => {
+  const revision = getPage(pageId)?.revisions?.find((r) => r.id === revisionId);
+  if (!revision) return;
+  editContent(pageId, 'استعادة نسخة', (content) => applySnapshot(content, revision.content));
+};
@@ -0,0 +1,153 @@
+import { migrateLandingPage } from "@/lib/landing";
+import { readJson, writeJson } from "@/lib/storage";
+import type { GeneratedPage } from "./types";
+
+const STORAGE_KEY = "arabiflow.pages";
+
+type Action =
+  | { type: "ADD_PAGE"; page: GeneratedPage }
+  | { type: "UPDATE_PAGE"; id: string; update: (page: GeneratedPage) => GeneratedPage }
+  | { type: "REMOVE_PAGE"; id: string };
+
+export interface PagesState {
+  pages: GeneratedPage[];
+  // The last write to localStorage failed, usually on a full quota.
+  saveFailed?: boolean;
+}
+
+const seedPages: GeneratedPage[] = [
+  {
+    id: '1',
+    url: 'https://example.com/product-1',
+    title: 'ساعة ذكية متقدمة',
+    status: 'completed',
+    createdAt: '2024-01-15',
+    orders: 12
+  },
+  {
+    id: '2',
+    url: 'https://example.com/product-2',
+    title: 'سماعات لاسلكية عالية الجودة',
+    status: 'published',
+    createdAt: '2024-01-14',
+    orders: 28
+  },
+];
+
+// A job cannot survive a reload, so anything still "generating" was interrupted.
+const recoverInterrupted = (page: GeneratedPage): GeneratedPage =>
+  page.status === 'generating' && page.job
+    ? {
+        ...page,
+        status: 'failed',
+        job: {
+          ...page.job,
+          status: 'failed',
+          error: 'توقف الإنشاء قبل اكتماله',
+          stages: page.job.stages.map((s) => (s.status === 'running' ? { ...s, status: 'pending' } : s)),
+        },
+      }
+    : page;
+
+// Stored pages may predate the current landing page schema; they are upgraded
+// on load so the rest of the app only ever sees the latest version. Content
+// that fails to upgrade is set aside on the page rather than dropped, and
+// retried on every load.
+const migrateContent = (page: GeneratedPage): GeneratedPage => {
+  const stored = page.unmigrated ?? (page.content && { content: page.content, revisions: page.revisions });
+  if (!stored) return page;
+  try {
+    return {
+      ...page,
+      content: migrateLandingPage(stored.content),
+      revisions: stored.revisions?.map((revision) => ({ ...revision, content: migrateLandingPage(revision.content) })),
+      unmigrated: undefined,
+    };
+  } catch (error) {
+    return {
+      ...page,
+      content: undefined,
+      revisions: undefined,
+      unmigrated: { ...stored, error: error instanceof Error ? error.message : String(error) },
+    };
+  }
+};
+
+// Unset or corrupt storage falls back to the seed data.
+const load = (): PagesState => {
+  const stored = readJson(STORAGE_KEY);
+  if (!Array.isArray(stored)) return { pages: seedPages };
+  return { pages: (stored as GeneratedPage[]).map(migrateContent).map(recoverInterrupted) };
+};
+
+export const reducer = (state: PagesState, action: Action): PagesState => {
+  switch (action.type) {
+    case "ADD_PAGE":
+      return { pages: [action.page, ...state.pages] };
+    case "UPDATE_PAGE":
+      return {
+        pages: state.pages.map((p) => (p.id === action.id ? action.update(p) : p)),
+      };
+    case "REMOVE_PAGE":
+      return { pages: state.pages.filter((p) => p.id !== action.id) };
+  }
+};
+
+const listeners: Array<(state: PagesState) => void> = [];
+
+let memoryState: PagesState = load();
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  // The in-memory state stays usable; the editor warns that changes are not saved.
+  if (!writeJson(STORAGE_KEY, memoryState.pages)) memoryState = { ...memoryState, saveFailed: true };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+// Other tabs of the app change pages too, including order counts and stock
+// when they take orders. Pages this tab is still generating keep their
+// in-memory state.
+window.addEventListener('storage', (event) => {
+  if (event.key !== STORAGE_KEY) return;
+  const stored = readJson(STORAGE_KEY);
+  if (!Array.isArray(stored)) return;
+  memoryState = {
+    ...memoryState,
+    pages: (stored as GeneratedPage[])
+      .map(migrateContent)
+      .map((page) => memoryState.pages.find((p) => p.id === page.id && p.status === 'generating') ?? page),
+  };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+});
+
+export const getPagesState = () => memoryState;
+
+export const getPage = (id: string) => memoryState.pages.find((p) => p.id === id);
+
+export const subscribe = (listener: (state: PagesState) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+export const addPage = (page: GeneratedPage) => dispatch({ type: "ADD_PAGE", page });
+
+export const updatePage = (id: string, update: Partial<GeneratedPage> | ((page: GeneratedPage) => GeneratedPage)) =>
+  dispatch({
+    type: "UPDATE_PAGE",
+    id,
+    update: typeof update === 'function' ? update : (page) => ({ ...page, ...update }),
+  });
+
+export const removePage = (id: string) => dispatch({ type: "REMOVE_PAGE", id });
+
+export const createPageId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,76 @@
+import type { CopySection } from "@/lib/copy/prompts";
+import type { LandingCopy } from "@/lib/copy/schema";
+import type { CopyVoice } from "@/lib/copy/voice";
+import type { GenerationJob } from "@/lib/jobs/types";
+import type { ImportedProduct, PlatformId, ProductField } from "@/lib/importer";
+import type { LandingPage } from "@/lib/landing";
+import type { Publication } from "@/lib/publish";
+
+export interface SectionVariant<S extends CopySection = CopySection> {
+  value: LandingCopy[S];
+  createdAt: string;
+}
+
+export interface SectionHistory<S extends CopySection = CopySection> {
+  variants: SectionVariant<S>[];
+  active: number;
+}
+
+export type CopyHistory = { [S in CopySection]?: SectionHistory<S> };
+
+export interface PageRevision {
+  id: string;
+  createdAt: string;
+  author: string;
+  label: string;
+  content: LandingPage;
+}
+
+export interface PageOverrides {
+  price?: number;
+  cost?: number;
+}
+
+export interface ManualProductInput {
+  title: string;
+  price?: number;
+  currency: string;
+  notes: string;
+  images: string[];
+}
+
+// Stored content that could not be upgraded to the current schema. It is kept
+// verbatim so a later version of the app can still migrate it.
+export interface UnmigratedContent {
+  error: string;
+  content: unknown;
+  revisions?: PageRevision[];
+}
+
+export interface GeneratedPage {
+  id: string;
+  url: string;
+  source?: 'url' | 'manual';
+  title: string;
+  status: 'generating' | 'completed' | 'published' | 'failed' | 'cancelled';
+  createdAt: string;
+  orders: number;
+  job?: GenerationJob;
+  overrides?: PageOverrides;
+  voice?: CopyVoice;
+  platform?: PlatformId;
+  missing?: ProductField[];
+  product?: ImportedProduct;
+  content?: LandingPage;
+  unmigrated?: UnmigratedContent;
+  history?: CopyHistory;
+  revisions?: PageRevision[];
+  publications?: Publication[];
+  // Address of the order page under /p/; earlier slugs keep redirecting to the
+  // current one.
+  slug?: string;
+  previousSlugs?: string[];
+  // Whether /p/:slug shows the page for taking orders on this device. Kept
+  // apart from status, which only publishing to WordPress or Shopify changes.
+  hosted?: boolean;
+}
@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./settings";
+export * from "./media";
+export * from "./wordpress";
+export * from "./shopify";
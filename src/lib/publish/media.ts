@@ -0,0 +1,15 @@
+import { sha256 } from "@/lib/assets";
+import { imageExtension, type ImageWriter } from "@/lib/export";
+
+const HASH_LENGTH = 16;
+
+// Uploads each distinct image once per site. `media` holds the uploads of
+// earlier publishes and is filled in with new ones.
+export const mediaUploader = (
+  media: Record<string, string>,
+  upload: (blob: Blob, filename: string) => Promise<string>
+): ImageWriter => async (blob) => {
+  const hash = (await sha256(await blob.arrayBuffer())).slice(0, HASH_LENGTH);
+  media[hash] ??= await upload(blob, `${hash}.${imageExtension(blob)}`);
+  return media[hash];
+};
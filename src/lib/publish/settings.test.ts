@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getConnection, setConnection } from "./settings";
+
+const wordpress = { siteUrl: 'https://shop.example.com', username: 'admin', applicationPassword: 'abcd efgh ijkl' };
+
+afterEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+});
+
+describe("publish connections", () => {
+  it("keeps the application password out of localStorage", () => {
+    setConnection('wordpress', wordpress);
+
+    expect(localStorage.getItem('arabiflow.publish')).not.toContain('abcd');
+    expect(getConnection('wordpress')).toEqual(wordpress);
+  });
+
+  it("asks for the password again once the session is over", () => {
+    setConnection('wordpress', wordpress);
+    sessionStorage.clear();
+
+    expect(getConnection('wordpress')).toEqual({ siteUrl: 'https://shop.example.com', username: 'admin' });
+  });
+
+  it("moves passwords saved in localStorage by earlier versions into the session", () => {
+    localStorage.setItem('arabiflow.publish', JSON.stringify({ wordpress }));
+
+    expect(getConnection('wordpress')).toEqual(wordpress);
+    expect(localStorage.getItem('arabiflow.publish')).not.toContain('abcd');
+  });
+});
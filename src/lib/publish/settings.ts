@@ -0,0 +1,34 @@
+import { readJson, writeJson, type StorageArea } from "@/lib/storage";
+import type { PublishPlatform } from "./types";
+
+const STORAGE_KEY = "arabiflow.publish";
+
+// Connections stay in this browser only; there is no server to hold them.
+// Credentials go to sessionStorage, so they are asked for again once the tab
+// is closed instead of sitting in localStorage.
+const SECRET_FIELDS: Partial<Record<PublishPlatform, string[]>> = {
+  wordpress: ['applicationPassword'],
+};
+
+type Connections = Record<string, Record<string, unknown>>;
+
+const readConnections = (area: StorageArea) => (readJson(STORAGE_KEY, area) ?? {}) as Connections;
+
+const isSecret = (platform: PublishPlatform, key: string) => SECRET_FIELDS[platform]?.includes(key) ?? false;
+
+export const setConnection = <T,>(platform: PublishPlatform, connection: T) => {
+  const fields = (secret: boolean) =>
+    Object.fromEntries(Object.entries(connection as object).filter(([key]) => isSecret(platform, key) === secret));
+  writeJson(STORAGE_KEY, { ...readConnections('local'), [platform]: fields(false) });
+  writeJson(STORAGE_KEY, { ...readConnections('session'), [platform]: fields(true) }, 'session');
+};
+
+// The saved fields, unvalidated: after the session ends the secrets are
+// missing and the form asks for them again.
+export const getConnection = (platform: PublishPlatform): Record<string, unknown> => {
+  const saved = readConnections('local')[platform] ?? {};
+  const connection = { ...saved, ...readConnections('session')[platform] };
+  // Connections saved before secrets moved out of localStorage.
+  if (Object.keys(saved).some((key) => isSecret(platform, key))) setConnection(platform, connection);
+  return connection;
+};
@@ -0,0 +1,240 @@
+import { describe, expect, it, vi } from "vitest";
+import { LANDING_SCHEMA_VERSION, type LandingPage, type Offer } from "@/lib/landing";
+import { publishToShopify, shopifyConnectionSchema } from "./shopify";
+import { PublishError, type Publication } from "./types";
+
+vi.mock("@/lib/assets");
+
+const ADMIN = '/api/shopify/admin/api/2024-07/';
+
+const connection = (resource: 'page' | 'product') => shopifyConnectionSchema.parse({ resource });
+
+// The earlier publish, as publishPageToShopify finds it for the proxied store.
+const previousOn = (publication: Publication) => (shopDomain: string) =>
+  publication.site === shopDomain ? publication : undefined;
+
+const source = (offer: Partial<Offer> = {}) => ({
+  id: 'page-1',
+  title: 'حقيبة جلدية',
+  content: {
+    schemaVersion: LANDING_SCHEMA_VERSION,
+    template: 'classic',
+    offer: { price: 24.5, originalPrice: 32, currency: 'KWD', options: [], variants: [], ...offer },
+    sections: [
+      { id: 'hero-1', type: 'hero', hidden: false, badge: '', headline: 'حقيبة جلدية فاخرة' },
+      { id: 'gallery-1', type: 'gallery', hidden: false, images: ['asset:bag'] },
+    ],
+  } as LandingPage,
+});
+
+const colours: Partial<Offer> = {
+  options: [{ name: 'اللون', values: ['بني', 'أسود'] }],
+  variants: [
+    { id: 'brown', values: { 'اللون': 'بني' } },
+    { id: 'black', values: { 'اللون': 'أسود' }, price: 26 },
+  ],
+};
+
+// A local stand-in for the proxied Admin REST API that keeps pages, products
+// and theme assets in memory, like a store would between publishes.
+const stubShopify = ({ status }: { status?: number } = {}) => {
+  const store = {
+    pages: new Map<number, { id: number; handle: string; body_html: string }>(),
+    products: new Map<number, { id: number; handle: string; variants: Array<Record<string, unknown>> }>(),
+    assets: new Map<string, string>(),
+  };
+  let nextId = 100;
+  const requests: Array<{ method: string; path: string; headers: Record<string, string>; body?: Record<string, Record<string, unknown>> }> = [];
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    const path = url.startsWith(ADMIN) ? url.slice(ADMIN.length) : url;
+    const body = init.body ? JSON.parse(String(init.body)) : undefined;
+    requests.push({ method, path, headers: init.headers as Record<string, string>, body });
+    if (status) return Response.json({ errors: '[API] Invalid API key or access token' }, { status });
+
+    const route = `${method} ${path.replace(/\d+/g, ':id')}`;
+    const id = Number(path.match(/\d+/)?.[0]);
+    switch (route) {
+      case 'GET shop.json':
+        return Response.json({ shop: { myshopify_domain: 'anaqa.myshopify.com' } });
+      case 'GET themes.json?role=main':
+        return Response.json({ themes: [{ id: 7, role: 'main' }] });
+      case 'PUT themes/:id/assets.json':
+        store.assets.set(body.asset.key, body.asset.value ?? body.asset.attachment);
+        return Response.json({ asset: { key: body.asset.key, public_url: `https://cdn.shopify.com/s/files/${body.asset.key}` } });
+      case 'POST pages.json': {
+        const page = { ...body.page, id: nextId++, handle: 'bag' };
+        store.pages.set(page.id, page);
+        return Response.json({ page }, { status: 201 });
+      }
+      case 'PUT pages/:id.json':
+        if (!store.pages.has(id)) return Response.json({ errors: 'Not Found' }, { status: 404 });
+        store.pages.set(id, { ...store.pages.get(id), ...body.page });
+        return Response.json({ page: store.pages.get(id) });
+      case 'POST products.json': {
+        const variants = body.product.variants.map((variant: object) => ({ option2: null, option3: null, ...variant, id: nextId++ }));
+        const product = { ...body.product, variants, id: nextId++, handle: 'leather-bag' };
+        store.products.set(product.id, product);
+        return Response.json({ product }, { status: 201 });
+      }
+      case 'GET products/:id.json':
+        if (!store.products.has(id)) return Response.json({ errors: 'Not Found' }, { status: 404 });
+        return Response.json({ product: store.products.get(id) });
+      case 'PUT products/:id.json': {
+        // Like Shopify: variants without an id replace the old ones.
+        const variants = body.product.variants.map((variant: { id?: number }) => ({ ...variant, id: variant.id ?? nextId++ }));
+        store.products.set(id, { ...store.products.get(id), ...body.product, variants });
+        return Response.json({ product: store.products.get(id) });
+      }
+    }
+    return Response.json({ errors: 'Not Found' }, { status: 404 });
+  });
+
+  const routes = () => requests.map(({ method, path }) => `${method} ${path}`);
+  return { fetchMock, requests, routes, store };
+};
+
+describe("publishToShopify", () => {
+  it("publishes a store page to the proxied store with theme asset images and no token", async () => {
+    const { fetchMock, requests, routes, store } = stubShopify();
+
+    const publication = await publishToShopify(source(), connection('page'), { fetch: fetchMock });
+
+    expect(routes()).toEqual(['GET shop.json', 'GET themes.json?role=main', 'PUT themes/7/assets.json', 'POST pages.json']);
+    expect(requests.every(({ headers }) => Object.keys(headers).join() === 'Content-Type')).toBe(true);
+    expect(requests[3].body.page).toMatchObject({ title: 'حقيبة جلدية فاخرة', published: true });
+    expect(store.pages.get(100).body_html).toContain('https://cdn.shopify.com/s/files/assets/arabiflow-');
+    expect(store.pages.get(100).body_html).not.toContain('data:');
+    expect(publication).toMatchObject({
+      platform: 'shopify',
+      site: 'anaqa.myshopify.com',
+      resource: 'page',
+      remoteId: '100',
+      url: 'https://anaqa.myshopify.com/pages/bag',
+    });
+  });
+
+  it("updates the same page, and recreates it when it was deleted in the store", async () => {
+    const { fetchMock, routes, store } = stubShopify();
+    const first = await publishToShopify(source(), connection('page'), { fetch: fetchMock });
+
+    await publishToShopify(source(), connection('page'), { previous: previousOn(first), fetch: fetchMock });
+    store.pages.clear();
+    const recreated = await publishToShopify(source(), connection('page'), { previous: previousOn(first), fetch: fetchMock });
+
+    expect(routes().filter((route) => route.includes('pages'))).toEqual([
+      'POST pages.json', 'PUT pages/100.json', 'PUT pages/100.json', 'POST pages.json',
+    ]);
+    expect(routes().filter((route) => route.startsWith('PUT themes'))).toHaveLength(1);
+    expect(recreated.remoteId).toBe('101');
+  });
+
+  it("does not update a page published to another store", async () => {
+    const { fetchMock, routes } = stubShopify();
+    const elsewhere: Publication = { platform: 'shopify', site: 'other.myshopify.com', resource: 'page', remoteId: '100', publishedAt: '' };
+
+    const publication = await publishToShopify(source(), connection('page'), { previous: previousOn(elsewhere), fetch: fetchMock });
+
+    expect(routes()).toContain('POST pages.json');
+    expect(routes()).not.toContain('PUT pages/100.json');
+    expect(publication.site).toBe('anaqa.myshopify.com');
+  });
+
+  it("publishes a product with the page template, theme asset images and its variants", async () => {
+    const { fetchMock, requests, routes, store } = stubShopify();
+
+    const publication = await publishToShopify(source(colours), connection('product'), { fetch: fetchMock });
+
+    expect(routes()).toEqual([
+      'GET shop.json',
+      'GET themes.json?role=main',
+      'PUT themes/7/assets.json',
+      'PUT themes/7/assets.json',
+      'POST products.json',
+    ]);
+    expect([...store.assets.keys()]).toEqual([
+      expect.stringMatching(/^assets\/arabiflow-[0-9a-f]{16}\.webp$/),
+      'templates/product.arabiflow.liquid',
+    ]);
+    const { product } = requests[4].body;
+    expect(product).toMatchObject({
+      title: 'حقيبة جلدية',
+      template_suffix: 'arabiflow',
+      status: 'active',
+      options: [{ name: 'اللون' }],
+      variants: [
+        { option1: 'بني', price: '24.50', compare_at_price: '32.00' },
+        { option1: 'أسود', price: '26.00', compare_at_price: '32.00' },
+      ],
+    });
+    expect(product.body_html).toContain('https://cdn.shopify.com/s/files/assets/arabiflow-');
+    expect(publication).toMatchObject({ resource: 'product', url: 'https://anaqa.myshopify.com/products/leather-bag' });
+  });
+
+  it("keeps the IDs of existing variants when the product is published again", async () => {
+    const { fetchMock, requests, store } = stubShopify();
+    const first = await publishToShopify(source(colours), connection('product'), { fetch: fetchMock });
+    const before = store.products.get(Number(first.remoteId)).variants.map((variant) => variant.id);
+
+    const withRed: Partial<Offer> = {
+      options: [{ name: 'اللون', values: ['بني', 'أسود', 'أحمر'] }],
+      variants: [...colours.variants, { id: 'red', values: { 'اللون': 'أحمر' } }],
+    };
+    await publishToShopify(source(withRed), connection('product'), { previous: previousOn(first), fetch: fetchMock });
+
+    const update = requests.find(({ method, path }) => method === 'PUT' && path.startsWith('products/'));
+    expect((update.body.product.variants as Array<{ id?: number }>).map((variant) => variant.id)).toEqual([...before, undefined]);
+    expect(store.products.get(Number(first.remoteId)).variants.slice(0, 2).map((variant) => variant.id)).toEqual(before);
+  });
+
+  it("keeps the default variant of a product without options", async () => {
+    const { fetchMock, requests, store } = stubShopify();
+    const first = await publishToShopify(source(), connection('product'), { fetch: fetchMock });
+    const [{ id }] = store.products.get(Number(first.remoteId)).variants;
+
+    await publishToShopify(source({ price: 22 }), connection('product'), { previous: previousOn(first), fetch: fetchMock });
+
+    const update = requests.find(({ method, path }) => method === 'PUT' && path.startsWith('products/'));
+    expect(update.body.product.variants).toEqual([{ id, price: '22.00', compare_at_price: '32.00' }]);
+  });
+
+  it("shows no discount on variants priced at or above the original price", async () => {
+    const { fetchMock, requests } = stubShopify();
+    const pricey: Partial<Offer> = {
+      ...colours,
+      variants: [colours.variants[0], { ...colours.variants[1], price: 32 }, { id: 'gold', values: { 'اللون': 'ذهبي' }, price: 40 }],
+    };
+
+    await publishToShopify(source(pricey), connection('product'), { fetch: fetchMock });
+
+    const create = requests.find(({ method, path }) => method === 'POST' && path === 'products.json');
+    expect(create.body.product.variants).toEqual([
+      expect.objectContaining({ price: '24.50', compare_at_price: '32.00' }),
+      { option1: 'أسود', price: '32.00' },
+      { option1: 'ذهبي', price: '40.00' },
+    ]);
+  });
+
+  it("reports a proxy that is not configured instead of parsing the app's own page", async () => {
+    const fetchMock = vi.fn(async () => new Response('<!doctype html><div id="root"></div>', { headers: { 'Content-Type': 'text/html' } }));
+
+    const error = await publishToShopify(source(), connection('page'), { fetch: fetchMock }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error).toMatchObject({ platform: 'shopify', code: 'http', status: 200 });
+    expect((error as PublishError).message).toContain('SHOPIFY_SHOP_DOMAIN');
+  });
+
+  it.each([401, 403])("reports a rejected token (%i) as an auth error", async (status) => {
+    const { fetchMock, routes } = stubShopify({ status });
+    const previous: Publication = { platform: 'shopify', site: 'anaqa.myshopify.com', resource: 'page', remoteId: '100', publishedAt: '' };
+
+    const error = await publishToShopify(source(), connection('page'), { previous: previousOn(previous), fetch: fetchMock }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error).toMatchObject({ platform: 'shopify', code: 'auth', status });
+    expect((error as PublishError).message).toContain('Invalid API key or access token');
+    expect(routes()).toEqual(['GET shop.json']);
+  });
+});
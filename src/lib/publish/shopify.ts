@@ -0,0 +1,265 @@
+import { z } from "zod";
+import { blobToDataUrl, exportFragment, renderExport, type ExportSource } from "@/lib/export";
+import type { Offer } from "@/lib/landing";
+import { mediaUploader } from "./media";
+import { PublishError, type FetchLike, type Publication } from "./types";
+
+const API_VERSION = '2024-07';
+
+// Installed into the store's live theme so products can show the page in place
+// of the theme's product layout.
+const TEMPLATE_SUFFIX = 'arabiflow';
+const PRODUCT_TEMPLATE = `templates/product.${TEMPLATE_SUFFIX}.liquid`;
+const PRODUCT_TEMPLATE_SOURCE = '{{ product.description }}\n';
+
+// The store itself is set on the server with its token, see ADMIN_PROXY.
+export const shopifyConnectionSchema = z.object({
+  resource: z.enum(['page', 'product']).default('page'),
+});
+
+export type ShopifyConnection = z.infer<typeof shopifyConnectionSchema>;
+
+interface ShopifyShop {
+  myshopify_domain: string;
+}
+
+interface ShopifyPage {
+  id: number;
+  handle: string;
+}
+
+interface ShopifyVariant {
+  id: number;
+  option1: string | null;
+  option2: string | null;
+  option3: string | null;
+}
+
+interface ShopifyProduct {
+  id: number;
+  handle: string;
+  variants: ShopifyVariant[];
+}
+
+interface ShopifyTheme {
+  id: number;
+  role: string;
+}
+
+interface ShopifyAsset {
+  key: string;
+  public_url?: string;
+}
+
+interface ShopifyErrorBody {
+  errors?: string | string[] | Record<string, string[] | string>;
+}
+
+export interface ShopifyPageInput {
+  title: string;
+  body_html: string;
+  published: boolean;
+}
+
+export interface ShopifyVariantInput {
+  id?: number;
+  option1?: string;
+  option2?: string;
+  option3?: string;
+  price?: string;
+  compare_at_price?: string;
+}
+
+export interface ShopifyProductInput {
+  title: string;
+  body_html: string;
+  template_suffix: string;
+  status: 'active' | 'draft';
+  options?: { name: string }[];
+  variants: ShopifyVariantInput[];
+}
+
+// The Admin API sends no CORS headers and its access token must not reach the
+// browser, so requests go through the proxy in vite.config.ts, which forwards
+// to the store configured there and adds the token. The proxy runs under
+// `vite` and `vite preview`; other hosts must serve /api/shopify the same way.
+const ADMIN_PROXY = '/api/shopify';
+
+// Shopify reports errors as a string, a list, or messages per field.
+const errorDetail = (body: ShopifyErrorBody | null) => {
+  const errors = body?.errors;
+  if (!errors) return '';
+  if (typeof errors === 'string') return errors;
+  if (Array.isArray(errors)) return errors.join('، ');
+  return Object.entries(errors)
+    .map(([field, messages]) => `${field} ${Array.isArray(messages) ? messages.join('، ') : messages}`)
+    .join('؛ ');
+};
+
+const shopifyError = (status: number, body: ShopifyErrorBody | null) => {
+  const detail = errorDetail(body) ? `: ${errorDetail(body)}` : '';
+  if (status === 401 || status === 403) {
+    return new PublishError('shopify', 'auth', `رفض Shopify مفتاح الوصول أو صلاحياته${detail}`, status);
+  }
+  if (status === 404) return new PublishError('shopify', 'not_found', `العنصر غير موجود في المتجر${detail}`, status);
+  if (status === 429) return new PublishError('shopify', 'http', 'تجاوزت حد طلبات Shopify، حاول بعد قليل', status);
+  return new PublishError('shopify', 'http', `أعاد Shopify الحالة ${status}${detail}`, status);
+};
+
+// A thin client for the Admin REST API of the store behind the proxy.
+export const createShopifyClient = (fetchImpl: FetchLike = fetch, signal?: AbortSignal) => {
+  const request = async <T,>(method: string, path: string, body?: unknown): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${ADMIN_PROXY}/admin/api/${API_VERSION}/${path}`, {
+        method,
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new PublishError('shopify', 'network', 'تعذر الوصول إلى متجر Shopify');
+    }
+    const data = await response.json().catch(() => undefined);
+    if (!response.ok) throw shopifyError(response.status, data ?? null);
+    // Without the proxy the app's own server answers, typically with index.html.
+    if (data === undefined) {
+      throw new PublishError('shopify', 'http', 'وسيط Shopify غير مضبوط على الخادم (SHOPIFY_SHOP_DOMAIN)', response.status);
+    }
+    return data as T;
+  };
+
+  return {
+    shop: async () => (await request<{ shop: ShopifyShop }>('GET', 'shop.json')).shop,
+    mainTheme: async () => {
+      const { themes } = await request<{ themes: ShopifyTheme[] }>('GET', 'themes.json?role=main');
+      const theme = themes.find((t) => t.role === 'main');
+      if (!theme) throw new PublishError('shopify', 'not_found', 'لا يوجد قالب منشور في المتجر');
+      return theme;
+    },
+    putAsset: async (themeId: number, asset: { key: string; value?: string; attachment?: string }) =>
+      (await request<{ asset: ShopifyAsset }>('PUT', `themes/${themeId}/assets.json`, { asset })).asset,
+    createPage: async (page: ShopifyPageInput) => (await request<{ page: ShopifyPage }>('POST', 'pages.json', { page })).page,
+    updatePage: async (id: string, page: ShopifyPageInput) =>
+      (await request<{ page: ShopifyPage }>('PUT', `pages/${id}.json`, { page: { id: Number(id), ...page } })).page,
+    getProduct: async (id: string) => (await request<{ product: ShopifyProduct }>('GET', `products/${id}.json`)).product,
+    createProduct: async (product: ShopifyProductInput) =>
+      (await request<{ product: ShopifyProduct }>('POST', 'products.json', { product })).product,
+    updateProduct: async (id: string, product: ShopifyProductInput) =>
+      (await request<{ product: ShopifyProduct }>('PUT', `products/${id}.json`, { product: { id: Number(id), ...product } })).product,
+  };
+};
+
+const money = (amount: number | undefined) => (amount === undefined ? undefined : amount.toFixed(2));
+
+// Shopify allows three options; variants map their values onto option1..3.
+// Variants priced at or above the original price show no discount.
+const productVariants = (offer: Offer): Pick<ShopifyProductInput, 'options' | 'variants'> => {
+  const pricing = (price: number) => ({
+    price: money(price),
+    compare_at_price: offer.originalPrice > price ? money(offer.originalPrice) : undefined,
+  });
+  if (!offer.variants.length) return { variants: [pricing(offer.price)] };
+  const options = offer.options.slice(0, 3);
+  return {
+    options: options.map((option) => ({ name: option.name })),
+    variants: offer.variants.map((variant) => ({
+      option1: variant.values[options[0]?.name],
+      option2: options[1] && variant.values[options[1].name],
+      option3: options[2] && variant.values[options[2].name],
+      ...pricing(variant.price ?? offer.price),
+    })),
+  };
+};
+
+const OPTION_KEYS = ['option1', 'option2', 'option3'] as const;
+
+// Variants sent without an id replace the product's variants, which gives them
+// new IDs and drops their inventory and links from orders. Each variant keeps
+// the id of the remote one with the same option values; a product without
+// options keeps its single default variant.
+const withVariantIds = (variants: ShopifyVariantInput[], existing: ShopifyVariant[]) =>
+  variants.map((variant) => {
+    const match = !variant.option1 && variants.length === 1 && existing.length === 1
+      ? existing[0]
+      : existing.find((remote) => OPTION_KEYS.every((key) => (remote[key] ?? undefined) === variant[key]));
+    return match ? { id: match.id, ...variant } : variant;
+  });
+
+export interface ShopifyPublishOptions {
+  ordersEndpoint?: string;
+  // The earlier publish to the given store, which is only known once the proxy
+  // reports it.
+  previous?: (shopDomain: string) => Publication | undefined;
+  fetch?: FetchLike;
+  signal?: AbortSignal;
+}
+
+// Publishes the page as a store page, or as a product shown through the
+// installed product template. Images are uploaded as assets of the live theme
+// either way, so the body stays small.
+export const publishToShopify = async (
+  source: ExportSource,
+  connection: ShopifyConnection,
+  { ordersEndpoint, previous: findPrevious, fetch: fetchImpl, signal }: ShopifyPublishOptions = {}
+): Promise<Publication> => {
+  const client = createShopifyClient(fetchImpl, signal);
+  const { myshopify_domain: shopDomain } = await client.shop();
+  const previous = findPrevious?.(shopDomain);
+  const theme = await client.mainTheme();
+  const media = { ...previous?.media };
+  const rendered = await renderExport(
+    source,
+    { ordersEndpoint },
+    mediaUploader(media, async (blob, filename) => {
+      const attachment = (await blobToDataUrl(blob)).split(',')[1];
+      const asset = await client.putAsset(theme.id, { key: `assets/${TEMPLATE_SUFFIX}-${filename}`, attachment });
+      return asset.public_url;
+    })
+  );
+  const html = exportFragment(rendered);
+
+  // Recreates the remote item when it was deleted in Shopify since the last publish.
+  const save = async <T,>(update: (id: string) => Promise<T>, create: () => Promise<T>) => {
+    if (!previous) return create();
+    try {
+      return await update(previous.remoteId);
+    } catch (error) {
+      if (!(error instanceof PublishError && error.code === 'not_found')) throw error;
+      return create();
+    }
+  };
+
+  let remote: { id: number; handle: string };
+  if (connection.resource === 'product') {
+    await client.putAsset(theme.id, { key: PRODUCT_TEMPLATE, value: PRODUCT_TEMPLATE_SOURCE });
+    const product: ShopifyProductInput = {
+      title: source.title,
+      body_html: html,
+      template_suffix: TEMPLATE_SUFFIX,
+      status: 'active',
+      ...productVariants(source.content.offer),
+    };
+    remote = await save(
+      async (id) => {
+        const { variants } = await client.getProduct(id);
+        return client.updateProduct(id, { ...product, variants: withVariantIds(product.variants, variants) });
+      },
+      () => client.createProduct(product)
+    );
+  } else {
+    const page: ShopifyPageInput = { title: rendered.title, body_html: html, published: true };
+    remote = await save((id) => client.updatePage(id, page), () => client.createPage(page));
+  }
+
+  return {
+    platform: 'shopify',
+    site: shopDomain,
+    resource: connection.resource,
+    remoteId: String(remote.id),
+    url: `https://${shopDomain}/${connection.resource === 'product' ? 'products' : 'pages'}/${remote.handle}`,
+    publishedAt: new Date().toISOString(),
+    media,
+  };
+};
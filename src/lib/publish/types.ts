@@ -0,0 +1,42 @@
+export type PublishPlatform = 'wordpress' | 'shopify';
+
+export const PUBLISH_PLATFORM_LABELS: Record<PublishPlatform, string> = {
+  wordpress: 'WordPress',
+  shopify: 'Shopify',
+};
+
+export type PublishResource = 'page' | 'product';
+
+// Where a page was published. Publishing again to the same site updates the
+// remote page or product instead of creating another one.
+export interface Publication {
+  platform: PublishPlatform;
+  site: string;
+  // Unset means a page.
+  resource?: PublishResource;
+  remoteId: string;
+  url?: string;
+  publishedAt: string;
+  // Content hash of each uploaded image → its remote URL, so unchanged images
+  // are not uploaded again.
+  media?: Record<string, string>;
+}
+
+// Adapters take the fetch to use, so they can run against a local mock server.
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type PublishErrorCode = 'auth' | 'network' | 'not_found' | 'http';
+
+export class PublishError extends Error {
+  platform: PublishPlatform;
+  code: PublishErrorCode;
+  status?: number;
+
+  constructor(platform: PublishPlatform, code: PublishErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'PublishError';
+    this.platform = platform;
+    this.code = code;
+    this.status = status;
+  }
+}
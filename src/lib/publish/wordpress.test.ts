@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { assetImages } from "@/lib/assets/__mocks__";
+import { LANDING_SCHEMA_VERSION, type LandingPage } from "@/lib/landing";
+import { PublishError, type Publication } from "./types";
+import { publishToWordPress, wordpressConnectionSchema } from "./wordpress";
+
+vi.mock("@/lib/assets");
+
+// Two assets whose renditions are the same image, and one other image.
+Object.assign(assetImages, { first: 'same-bytes', copy: 'same-bytes', other: 'other-bytes' });
+
+const connection = wordpressConnectionSchema.parse({
+  siteUrl: 'https://shop.example.com/',
+  username: 'admin',
+  applicationPassword: 'abcd efgh ijkl',
+});
+
+const source = (images: string[]) => ({
+  id: 'page-1',
+  title: 'ساعة ذكية',
+  content: {
+    schemaVersion: LANDING_SCHEMA_VERSION,
+    template: 'classic',
+    offer: { price: 199, currency: 'SAR', options: [], variants: [] },
+    sections: [
+      { id: 'hero-1', type: 'hero', hidden: false, badge: '', headline: 'ساعة ذكية' },
+      { id: 'gallery-1', type: 'gallery', hidden: false, images },
+    ],
+  } as LandingPage,
+});
+
+type Route = (request: { method: string; url: string; init: RequestInit }) => Response | undefined;
+
+// A local stand-in for the WP REST API: routes answer by method and path,
+// anything else is a 404 like WordPress gives for unknown routes.
+const stubWordPress = (route: Route) => {
+  const requests: Array<{ method: string; path: string; init: RequestInit }> = [];
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    requests.push({ method, path: url.replace(`${connection.siteUrl}/wp-json/wp/v2/`, ''), init });
+    return route({ method, url, init }) ?? Response.json({ code: 'rest_no_route', message: 'No route' }, { status: 404 });
+  });
+  return { fetchMock, requests };
+};
+
+let nextMedia = 0;
+const mediaRoute: Route = ({ method, url }) =>
+  method === 'POST' && url.endsWith('/media')
+    ? Response.json({ id: ++nextMedia, source_url: `https://shop.example.com/uploads/${nextMedia}.webp` }, { status: 201 })
+    : undefined;
+
+const pageBody = (request: { init: RequestInit }) => JSON.parse(String(request.init.body));
+
+afterEach(() => {
+  nextMedia = 0;
+});
+
+describe("publishToWordPress", () => {
+  it("creates a page with the landing page in a Custom HTML block", async () => {
+    const { fetchMock, requests } = stubWordPress((request) =>
+      request.method === 'POST' && request.url.endsWith('/pages')
+        ? Response.json({ id: 42, link: 'https://shop.example.com/watch/' }, { status: 201 })
+        : undefined
+    );
+
+    const publication = await publishToWordPress(source([]), connection, { fetch: fetchMock });
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST pages']);
+    expect(requests[0].init.headers).toMatchObject({
+      Authorization: `Basic ${btoa('admin:abcd efgh ijkl')}`,
+      'Content-Type': 'application/json',
+    });
+    const body = pageBody(requests[0]);
+    expect(body).toMatchObject({ title: 'ساعة ذكية', status: 'publish' });
+    expect(body.content).toMatch(/^<!-- wp:html -->\n[\s\S]*data-landing-page[\s\S]*\n<!-- \/wp:html -->$/);
+    expect(publication).toMatchObject({
+      platform: 'wordpress',
+      site: 'https://shop.example.com',
+      resource: 'page',
+      remoteId: '42',
+      url: 'https://shop.example.com/watch/',
+      media: {},
+    });
+  });
+
+  it("updates the page of an earlier publication", async () => {
+    const previous: Publication = {
+      platform: 'wordpress',
+      site: connection.siteUrl,
+      resource: 'page',
+      remoteId: '42',
+      publishedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const { fetchMock, requests } = stubWordPress((request) =>
+      request.method === 'POST' && request.url.endsWith('/pages/42')
+        ? Response.json({ id: 42, link: 'https://shop.example.com/watch/' })
+        : undefined
+    );
+
+    const publication = await publishToWordPress(source([]), connection, { previous, fetch: fetchMock });
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST pages/42']);
+    expect(publication.remoteId).toBe('42');
+  });
+
+  it("creates the page again when it was deleted on WordPress", async () => {
+    const previous: Publication = { platform: 'wordpress', site: connection.siteUrl, remoteId: '42', publishedAt: '' };
+    const { fetchMock, requests } = stubWordPress((request) => {
+      if (request.url.endsWith('/pages/42')) {
+        return Response.json({ code: 'rest_post_invalid_id', message: 'Invalid post ID.' }, { status: 404 });
+      }
+      if (request.url.endsWith('/pages')) return Response.json({ id: 43, link: 'https://shop.example.com/watch-2/' });
+    });
+
+    const publication = await publishToWordPress(source([]), connection, { previous, fetch: fetchMock });
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST pages/42', 'POST pages']);
+    expect(publication).toMatchObject({ remoteId: '43', url: 'https://shop.example.com/watch-2/' });
+  });
+
+  it("uploads each distinct image once and reuses earlier uploads", async () => {
+    const { fetchMock, requests } = stubWordPress((request) =>
+      mediaRoute(request) ?? (/\/pages(\/42)?$/.test(request.url) ? Response.json({ id: 42, link: '' }) : undefined)
+    );
+
+    const first = await publishToWordPress(source(['asset:first', 'asset:copy']), connection, { fetch: fetchMock });
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST media', 'POST pages']);
+    expect(requests[0].init.headers).toMatchObject({ 'Content-Type': 'image/webp' });
+    expect(Object.values(first.media)).toEqual(['https://shop.example.com/uploads/1.webp']);
+    expect(pageBody(requests[1]).content).toContain('https://shop.example.com/uploads/1.webp');
+
+    requests.length = 0;
+    const second = await publishToWordPress(source(['asset:first', 'asset:other']), connection, { previous: first, fetch: fetchMock });
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST media', 'POST pages/42']);
+    expect(Object.values(second.media)).toEqual([
+      'https://shop.example.com/uploads/1.webp',
+      'https://shop.example.com/uploads/2.webp',
+    ]);
+  });
+
+  it.each([401, 403])("reports rejected credentials (%i) as an auth error", async (status) => {
+    const { fetchMock } = stubWordPress(() =>
+      Response.json({ code: 'rest_cannot_create', message: 'Sorry, you are not allowed to do that.' }, { status })
+    );
+
+    const error = await publishToWordPress(source([]), connection, { fetch: fetchMock }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PublishError);
+    expect(error).toMatchObject({ platform: 'wordpress', code: 'auth', status });
+    expect((error as PublishError).message).toContain('Sorry, you are not allowed to do that.');
+  });
+
+  it("does not fall back to creating a page after an auth error", async () => {
+    const previous: Publication = { platform: 'wordpress', site: connection.siteUrl, remoteId: '42', publishedAt: '' };
+    const { fetchMock, requests } = stubWordPress(() => Response.json({}, { status: 401 }));
+
+    await expect(publishToWordPress(source([]), connection, { previous, fetch: fetchMock })).rejects.toMatchObject({ code: 'auth' });
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { exportFragment, renderExport, type ExportSource } from "@/lib/export";
+import { mediaUploader } from "./media";
+import { PublishError, type FetchLike, type Publication } from "./types";
+
+export const wordpressConnectionSchema = z.object({
+  siteUrl: z.string().trim().url().transform((url) => url.replace(/\/+$/, '')),
+  username: z.string().trim().min(1),
+  // Created under Users → Profile → Application Passwords; the spaces WordPress shows are fine.
+  applicationPassword: z.string().trim().min(1),
+});
+
+export type WordPressConnection = z.infer<typeof wordpressConnectionSchema>;
+
+interface WordPressMedia {
+  id: number;
+  source_url: string;
+}
+
+interface WordPressPage {
+  id: number;
+  link: string;
+}
+
+interface WordPressErrorBody {
+  code?: string;
+  message?: string;
+}
+
+export interface WordPressPageInput {
+  title: string;
+  content: string;
+  status: 'publish' | 'draft';
+}
+
+const basicAuth = (username: string, password: string) =>
+  `Basic ${btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`)))}`;
+
+const wordpressError = (status: number, body: WordPressErrorBody | null) => {
+  const detail = body?.message ? `: ${body.message}` : '';
+  if (status === 401 || status === 403) {
+    return new PublishError('wordpress', 'auth', `رفض ووردبريس بيانات الدخول${detail}`, status);
+  }
+  if (status === 404) return new PublishError('wordpress', 'not_found', `الصفحة غير موجودة على ووردبريس${detail}`, status);
+  return new PublishError('wordpress', 'http', `أعاد ووردبريس الحالة ${status}${detail}`, status);
+};
+
+// A thin client for the WP REST API (wp/v2) authenticated with an application password.
+export const createWordPressClient = (connection: WordPressConnection, fetchImpl: FetchLike = fetch, signal?: AbortSignal) => {
+  const authorization = basicAuth(connection.username, connection.applicationPassword);
+
+  const request = async <T,>(path: string, init: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${connection.siteUrl}/wp-json/wp/v2/${path}`, {
+        ...init,
+        signal,
+        headers: { Authorization: authorization, ...init.headers },
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new PublishError('wordpress', 'network', 'تعذر الوصول إلى موقع ووردبريس');
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) throw wordpressError(response.status, body);
+    return body as T;
+  };
+
+  const json = (body: unknown): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  return {
+    uploadMedia: (blob: Blob, filename: string) =>
+      request<WordPressMedia>('media', {
+        method: 'POST',
+        headers: { 'Content-Type': blob.type, 'Content-Disposition': `attachment; filename="${filename}"` },
+        body: blob,
+      }),
+    createPage: (page: WordPressPageInput) => request<WordPressPage>('pages', json(page)),
+    updatePage: (id: string, page: WordPressPageInput) => request<WordPressPage>(`pages/${id}`, json(page)),
+  };
+};
+
+export interface WordPressPublishOptions {
+  ordersEndpoint?: string;
+  previous?: Publication;
+  fetch?: FetchLike;
+  signal?: AbortSignal;
+}
+
+// The page goes in a Custom HTML block so WordPress renders it untouched
+// instead of running it through wpautop.
+const htmlBlock = (html: string) => `<!-- wp:html -->\n${html}\n<!-- /wp:html -->`;
+
+export const publishToWordPress = async (
+  source: ExportSource,
+  connection: WordPressConnection,
+  { ordersEndpoint, previous, fetch: fetchImpl, signal }: WordPressPublishOptions = {}
+): Promise<Publication> => {
+  const client = createWordPressClient(connection, fetchImpl, signal);
+  const media = { ...previous?.media };
+  const rendered = await renderExport(
+    source,
+    { ordersEndpoint },
+    mediaUploader(media, async (blob, filename) => (await client.uploadMedia(blob, filename)).source_url)
+  );
+  const input: WordPressPageInput = { title: rendered.title, content: htmlBlock(exportFragment(rendered)), status: 'publish' };
+
+  let page: WordPressPage;
+  try {
+    page = previous ? await client.updatePage(previous.remoteId, input) : await client.createPage(input);
+  } catch (error) {
+    // Deleted on the WordPress side since the last publish.
+    if (!previous || !(error instanceof PublishError && error.code === 'not_found')) throw error;
+    page = await client.createPage(input);
+  }
+
+  return {
+    platform: 'wordpress',
+    site: connection.siteUrl,
+    resource: 'page',
+    remoteId: String(page.id),
+    url: page.link,
+    publishedAt: new Date().toISOString(),
+    media,
+  };
+};
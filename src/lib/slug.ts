@@ -0,0 +1,43 @@
+const MAX_SLUG_LENGTH = 60;
+const FALLBACK_SLUG = 'page';
+
+// A simple, readable romanization rather than a scholarly one: no diacritics,
+// and letters without a Latin counterpart (ء, ع) are dropped.
+const ARABIC_TO_LATIN: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ء': '', 'ؤ': 'u', 'ئ': 'i',
+  'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh',
+  'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh',
+  'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh',
+  'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n',
+  'ه': 'h', 'و': 'w', 'ي': 'y', 'ى': 'a', 'ة': 'a', 'ـ': '',
+  'پ': 'p', 'چ': 'ch', 'گ': 'g', 'ڤ': 'v', 'ی': 'y', 'ک': 'k',
+  '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4', '٥': '5', '٦': '6', '٧': '7', '٨': '8', '٩': '9',
+};
+
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670]/g;
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const isValidSlug = (slug: string) => slug.length <= MAX_SLUG_LENGTH && SLUG_PATTERN.test(slug);
+
+export const transliterate = (text: string) =>
+  Array.from(text.normalize('NFKC').replace(ARABIC_DIACRITICS, ''), (char) => ARABIC_TO_LATIN[char] ?? char).join('');
+
+export const slugify = (text: string) =>
+  transliterate(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(.)\1{2,}/g, '$1$1')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '') || FALLBACK_SLUG;
+
+// Appends -2, -3, … until the slug is free.
+export const uniqueSlug = (slug: string, isTaken: (slug: string) => boolean) => {
+  if (!isTaken(slug)) return slug;
+  const base = slug.slice(0, MAX_SLUG_LENGTH - 4).replace(/-+$/, '');
+  let n = 2;
+  while (isTaken(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
@@ -0,0 +1,38 @@
+// Settings kept in this browser's localStorage, or sessionStorage for values
+// that must not outlive the tab. Storage that is unavailable or holds
+// something unparsable reads as unset.
+
+export type StorageArea = 'local' | 'session';
+
+const storageArea = (area: StorageArea) => (area === 'session' ? sessionStorage : localStorage);
+
+export const readStorage = (key: string, area: StorageArea = 'local'): string | null => {
+  try {
+    return storageArea(area).getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+// False when the write was rejected (private browsing, a full quota); callers
+// keep the value they have.
+export const writeStorage = (key: string, value: string, area: StorageArea = 'local') => {
+  try {
+    storageArea(area).setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Unset keys read as null, unparsable ones as undefined.
+export const readJson = (key: string, area: StorageArea = 'local'): unknown => {
+  try {
+    return JSON.parse(readStorage(key, area) ?? 'null');
+  } catch {
+    return undefined;
+  }
+};
+
+export const writeJson = (key: string, value: unknown, area: StorageArea = 'local') =>
+  writeStorage(key, JSON.stringify(value), area);
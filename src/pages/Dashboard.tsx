@@ -4,51 +4,29 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Globe, Zap, TrendingUp, ArrowRight, Link, Clock, CheckCircle } from "lucide-react";
+import { Globe, Zap, TrendingUp, ArrowRight, Link, Clock, CheckCircle, AlertCircle, RotateCcw, X, XCircle, ExternalLink } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePages } from "@/hooks/use-pages";
 import Navigation from "@/components/Navigation";
-
-interface GeneratedPage {
-  id: string;
-  url: string;
-  title: string;
-  status: 'generating' | 'completed' | 'published';
-  createdAt: string;
-  orders: number;
-}
+import BulkGenerator from "@/components/BulkGenerator";
+import ManualProductForm from "@/components/ManualProductForm";
+import VoiceSettings from "@/components/VoiceSettings";
+import { DEFAULT_VOICE, type CopyVoice } from "@/lib/copy/voice";
+import { ImportError, FIELD_LABELS } from "@/lib/importer";
+import { cancelJob, currentStage, jobProgress, retryJob, startGeneration, startManualGeneration } from "@/lib/jobs/pipeline";
+import { STAGE_LABELS } from "@/lib/jobs/types";
+import type { GeneratedPage, ManualProductInput } from "@/lib/pages/types";
+import { orderPagePath } from "@/lib/pages/hosting";
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [url, setUrl] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [recentPages] = useState<GeneratedPage[]>([
-    {
-      id: '1',
-      url: 'https://example.com/product-1',
-      title: 'ساعة ذكية متقدمة',
-      status: 'completed',
-      createdAt: '2024-01-15',
-      orders: 12
-    },
-    {
-      id: '2', 
-      url: 'https://example.com/product-2',
-      title: 'سماعات لاسلكية عالية الجودة',
-      status: 'published',
-      createdAt: '2024-01-14',
-      orders: 28
-    },
-    {
-      id: '3',
-      url: 'https://example.com/product-3', 
-      title: 'جهاز لوحي للأعمال',
-      status: 'generating',
-      createdAt: '2024-01-13',
-      orders: 0
-    }
-  ]);
+  const [voice, setVoice] = useState<CopyVoice>(DEFAULT_VOICE);
+  const recentPages = usePages();
 
   const handleGenerate = async () => {
     if (!url.trim()) {
@@ -60,17 +38,51 @@ const Dashboard = () => {
       return;
     }
 
+    await runGeneration(() => startGeneration(url, { voice }));
+  };
+
+  const handleManualGenerate = (input: ManualProductInput) =>
+    runGeneration(() => startManualGeneration(input, voice));
+
+  const runGeneration = async (start: () => { done: Promise<GeneratedPage> }) => {
     setIsGenerating(true);
-    
-    // Simulate API call
-    setTimeout(() => {
+
+    try {
+      const page = await start().done;
+      if (page.status === 'completed') {
+        toast({
+          title: "تم إنشاء الصفحة بنجاح",
+          description: page.missing?.length
+            ? `لم يتم العثور على: ${page.missing.map((field) => FIELD_LABELS[field]).join('، ')}`
+            : "تم إنشاء صفحة الهبوط باللغة العربية",
+        });
+        navigate(`/preview/${page.id}`);
+      } else {
+        toast({
+          title: "تعذر إنشاء الصفحة",
+          description: page.job?.error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "تعذر استيراد المنتج",
+        description: error instanceof ImportError ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
       setIsGenerating(false);
+    }
+  };
+
+  const handleRetry = async (page: GeneratedPage) => {
+    const result = await retryJob(page.id);
+    if (result?.status === 'completed') {
       toast({
         title: "تم إنشاء الصفحة بنجاح",
-        description: "تم إنشاء صفحة الهبوط باللغة العربية",
+        description: result.title,
       });
-      navigate('/preview', { state: { url } });
-    }, 3000);
+    }
   };
 
   const getStatusIcon = (status: string) => {
@@ -81,6 +93,10 @@ const Dashboard = () => {
         return <CheckCircle className="h-4 w-4" />;
       case 'published':
         return <Globe className="h-4 w-4" />;
+      case 'failed':
+        return <AlertCircle className="h-4 w-4" />;
+      case 'cancelled':
+        return <XCircle className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
     }
@@ -94,6 +110,10 @@ const Dashboard = () => {
         return 'bg-success';
       case 'published':
         return 'bg-primary';
+      case 'failed':
+        return 'bg-destructive';
+      case 'cancelled':
+        return 'bg-muted-foreground';
       default:
         return 'bg-muted';
     }
@@ -126,32 +146,48 @@ const Dashboard = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                placeholder="https://example.com/product"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                className="flex-1"
-                dir="ltr"
-              />
-              <Button 
-                onClick={handleGenerate}
-                disabled={isGenerating}
-                className="px-6 gradient-saas hover:opacity-90"
-              >
-                {isGenerating ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    جاري الإنشاء...
-                  </>
-                ) : (
-                  <>
-                    إنشاء الصفحة
-                    <ArrowRight className="h-4 w-4 mr-2" />
-                  </>
-                )}
-              </Button>
-            </div>
+            <VoiceSettings value={voice} onChange={setVoice} />
+            <Tabs defaultValue="single" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="single">رابط واحد</TabsTrigger>
+                <TabsTrigger value="bulk">عدة روابط</TabsTrigger>
+                <TabsTrigger value="manual">إدخال يدوي</TabsTrigger>
+              </TabsList>
+              <TabsContent value="single" className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="https://example.com/product"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    className="flex-1"
+                    dir="ltr"
+                  />
+                  <Button 
+                    onClick={handleGenerate}
+                    disabled={isGenerating}
+                    className="px-6 gradient-saas hover:opacity-90"
+                  >
+                    {isGenerating ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                        جاري الإنشاء...
+                      </>
+                    ) : (
+                      <>
+                        إنشاء الصفحة
+                        <ArrowRight className="h-4 w-4 mr-2" />
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </TabsContent>
+              <TabsContent value="bulk">
+                <BulkGenerator voice={voice} />
+              </TabsContent>
+              <TabsContent value="manual">
+                <ManualProductForm isGenerating={isGenerating} onSubmit={handleManualGenerate} />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
 
@@ -212,8 +248,25 @@ const Dashboard = () => {
                       <h3 className="font-medium">{page.title}</h3>
                       <p className="text-sm text-muted-foreground flex items-center gap-1">
                         <Link className="h-3 w-3" />
-                        {page.url}
+                        {page.source === 'manual' ? 'إدخال يدوي' : page.url}
                       </p>
+                      {page.status === 'generating' && page.job && (
+                        <div className="mt-2 w-64 space-y-1">
+                          <Progress value={jobProgress(page.job)} className="h-2" />
+                          <p className="text-xs text-muted-foreground">
+                            {page.job.status === 'queued' ? 'في الانتظار' : STAGE_LABELS[currentStage(page.job)?.id ?? 'fetch']} - {jobProgress(page.job)}%
+                          </p>
+                        </div>
+                      )}
+                      {page.unmigrated && (
+                        <p className="mt-1 text-xs text-destructive">تعذر تحميل محتوى الصفحة، افتحها للتفاصيل</p>
+                      )}
+                      {page.status === 'failed' && page.job?.error && (
+                        <p className="mt-1 text-xs text-destructive">
+                          {currentStage(page.job) && `${STAGE_LABELS[currentStage(page.job).id]}: `}
+                          {page.job.error}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-4">
@@ -221,13 +274,36 @@ const Dashboard = () => {
                       <p className="text-sm font-medium">{page.orders}</p>
                       <p className="text-xs text-muted-foreground">طلبات</p>
                     </div>
-                    <Badge variant={page.status === 'published' ? 'default' : 'secondary'}>
+                    <Badge variant={page.status === 'published' ? 'default' : page.status === 'failed' ? 'destructive' : 'secondary'}>
                       {page.status === 'generating' ? 'جاري الإنشاء' : 
-                       page.status === 'completed' ? 'مكتمل' : 'منشور'}
+                       page.status === 'completed' ? 'مكتمل' :
+                       page.status === 'failed' ? 'فشل' :
+                       page.status === 'cancelled' ? 'ملغى' : 'منشور'}
                     </Badge>
-                    <Button variant="ghost" size="sm" onClick={() => navigate('/preview')}>
-                      عرض
-                    </Button>
+                    {page.status === 'generating' ? (
+                      <Button variant="ghost" size="sm" onClick={() => cancelJob(page.id)}>
+                        <X className="h-4 w-4" />
+                        إلغاء
+                      </Button>
+                    ) : page.status === 'failed' || page.status === 'cancelled' ? (
+                      <Button variant="outline" size="sm" onClick={() => handleRetry(page)}>
+                        <RotateCcw className="h-4 w-4" />
+                        إعادة المحاولة
+                      </Button>
+                    ) : (
+                      <>
+                        {page.hosted && page.slug && (
+                          <Button variant="ghost" size="sm" asChild title="صفحة الطلب على هذا الجهاز">
+                            <a href={orderPagePath(page.slug)} target="_blank" rel="noreferrer">
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => navigate(`/preview/${page.id}`)}>
+                          عرض
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { Navigate, useParams } from "react-router-dom";
+import LandingPageView from "@/components/landing/LandingPageView";
+import { usePages } from "@/hooks/use-pages";
+import { readCopySection } from "@/lib/landing";
+import { getExportSettings } from "@/lib/export";
+import { placeOrder, sendOrder } from "@/lib/orders/place";
+import type { OrderInput } from "@/lib/orders/types";
+import { findPageBySlug, orderPagePath } from "@/lib/pages/hosting";
+import NotFound from "./NotFound";
+
+// The landing page without dashboard chrome, for taking orders on this device
+// (e.g. over the phone). Pages live in this browser, so it opens nowhere else;
+// visitors get the exported or CMS-published page.
+const OrderPage = () => {
+  const { slug } = useParams();
+  const pages = usePages();
+  const page = slug ? findPageBySlug(pages, slug) : undefined;
+  const isLive = !!page?.hosted && !!page.content;
+  const title = isLive ? readCopySection(page.content, 'headline') || page.title : '';
+
+  useEffect(() => {
+    if (title) document.title = title;
+  }, [title]);
+
+  if (!isLive) return <NotFound />;
+  if (page.slug !== slug) return <Navigate to={orderPagePath(page.slug)} replace />;
+
+  // Orders go to the Orders screen with their variant, and take stock off the
+  // page. A copy also goes to the orders endpoint when one is set; the order is
+  // already taken, so a failed copy is not reported. Both check the stock the
+  // page showed.
+  const handleOrder = async (order: OrderInput) => {
+    const options = { content: page.content, product: page.title, source: window.location.href, pageId: page.id };
+    await placeOrder(order, options);
+    const { ordersEndpoint } = getExportSettings();
+    if (ordersEndpoint) await sendOrder(order, { ...options, endpoint: ordersEndpoint }).catch(() => undefined);
+  };
+
+  return <LandingPageView page={page.content} onOrder={handleOrder} />;
+};
+
+export default OrderPage;
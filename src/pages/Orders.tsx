@@ -8,79 +8,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Download, Search, Eye, Phone, MapPin, Calendar, Package, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import Navigation from "@/components/Navigation";
-
-interface Order {
-  id: string;
-  customerName: string;
-  phone: string;
-  product: string;
-  address: string;
-  status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
-  amount: string;
-  date: string;
-  source: string;
-}
+import { useOrders } from "@/hooks/use-orders";
+import { formatPrice } from "@/lib/format";
 
 const Orders = () => {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
-  const [orders] = useState<Order[]>([
-    {
-      id: 'ORD-001',
-      customerName: 'أحمد محمد العلي',
-      phone: '0551234567',
-      product: 'ساعة ذكية متقدمة',
-      address: 'الرياض، حي النخيل، شارع الملك فهد',
-      status: 'pending',
-      amount: '899 ريال',
-      date: '2024-01-15',
-      source: 'صفحة الهبوط 1'
-    },
-    {
-      id: 'ORD-002', 
-      customerName: 'فاطمة أحمد السالم',
-      phone: '0559876543',
-      product: 'سماعات لاسلكية عالية الجودة',
-      address: 'جدة، حي الزهراء، طريق الملك عبدالعزيز',
-      status: 'confirmed',
-      amount: '299 ريال',
-      date: '2024-01-14',
-      source: 'صفحة الهبوط 2'
-    },
-    {
-      id: 'ORD-003',
-      customerName: 'محمد عبدالله الحربي',
-      phone: '0554567890',
-      product: 'جهاز لوحي للأعمال',
-      address: 'الدمام، حي الشاطئ، شارع الخليج العربي',
-      status: 'shipped',
-      amount: '1,299 ريال',
-      date: '2024-01-13',
-      source: 'صفحة الهبوط 3'
-    },
-    {
-      id: 'ORD-004',
-      customerName: 'نورا سالم القحطاني',
-      phone: '0556789012',
-      product: 'ساعة ذكية متقدمة',
-      address: 'مكة المكرمة، حي العزيزية، طريق الحرم',
-      status: 'delivered',
-      amount: '899 ريال',
-      date: '2024-01-12',
-      source: 'صفحة الهبوط 1'
-    },
-    {
-      id: 'ORD-005',
-      customerName: 'خالد إبراهيم الناصر',
-      phone: '0553456789',
-      product: 'سماعات لاسلكية عالية الجودة',
-      address: 'المدينة المنورة، حي الحرة الشرقية، شارع النبوي',
-      status: 'cancelled',
-      amount: '299 ريال',
-      date: '2024-01-11',
-      source: 'صفحة الهبوط 2'
-    }
-  ]);
+  const orders = useOrders();
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -265,9 +199,16 @@ const Orders = () => {
                           {order.phone}
                         </div>
                       </TableCell>
-                      <TableCell>{order.product}</TableCell>
+                      <TableCell>
+                        <div>
+                          <p>{order.product}</p>
+                          {order.variant && (
+                            <p className="text-sm text-muted-foreground">{order.variant.label}</p>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell className="font-medium text-green-600">
-                        {order.amount}
+                        {formatPrice(order.amount, order.currency)}
                       </TableCell>
                       <TableCell>
                         <Badge 
@@ -280,7 +221,7 @@ const Orders = () => {
                       <TableCell>
                         <div className="flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          {order.date}
+                          {order.createdAt.slice(0, 10)}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -1,53 +1,129 @@
-import { useState } from "react";
-import { useLocation, useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Download, Globe, Share, Star, Shield, Truck, Phone } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, ArrowLeft, Download, Globe, Monitor, Redo2, Share, Smartphone, Sparkles, Tablet, Undo2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import Navigation from "@/components/Navigation";
-import CODForm from "@/components/CODForm";
+import VoiceSettings from "@/components/VoiceSettings";
+import SectionControls from "@/components/SectionControls";
+import ImageEditor from "@/components/ImageEditor";
+import LandingPageView from "@/components/landing/LandingPageView";
+import DeviceFrame from "@/components/DeviceFrame";
+import CopyLintPanel from "@/components/CopyLintPanel";
+import SectionBuilder from "@/components/SectionBuilder";
+import TemplatePicker from "@/components/TemplatePicker";
+import PageSettingsForm from "@/components/PageSettingsForm";
+import UnsavedChangesDialog from "@/components/UnsavedChangesDialog";
+import RevisionHistory from "@/components/RevisionHistory";
+import ReviewsManager from "@/components/ReviewsManager";
+import CodPolicySettings from "@/components/CodPolicySettings";
+import VariantsEditor from "@/components/VariantsEditor";
+import ExportDialog from "@/components/ExportDialog";
+import PublishDialog from "@/components/PublishDialog";
+import OrderPageSettings from "@/components/OrderPageSettings";
+import { usePage, usePagesState } from "@/hooks/use-pages";
+import { useUnsavedChanges } from "@/hooks/use-unsaved-changes";
+import { useUndo } from "@/hooks/use-undo";
+import { DEFAULT_VOICE, type CopyVoice } from "@/lib/copy/voice";
+import { regeneratePageCopy } from "@/lib/pages/copy";
+import { editContent, redo, undo } from "@/lib/pages/revisions";
+import { applySettings, demoLandingPage, readCopySection, type PageSettings } from "@/lib/landing";
+import { DEVICES, type DeviceId } from "@/lib/devices";
+import type { PublishPlatform } from "@/lib/publish";
+
+const DEVICE_ICONS = {
+  mobile: Smartphone,
+  tablet: Tablet,
+  desktop: Monitor,
+};
 
 const Preview = () => {
-  const location = useLocation();
+  const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   
-  // Mock landing page data
-  const pageData = {
-    title: "ساعة ذكية متقدمة - Apple Watch Series 9",
-    originalPrice: "1,299 ريال",
-    salePrice: "899 ريال",
-    discount: "31%",
-    description: "ساعة ذكية متطورة مع أحدث التقنيات لمراقبة الصحة واللياقة البدنية. تصميم أنيق ومقاوم للماء مع بطارية تدوم طوال اليوم.",
-    features: [
-      "شاشة عرض عالية الدقة",
-      "مقاومة للماء حتى 50 متر",
-      "مراقبة معدل ضربات القلب",
-      "نظام GPS مدمج",
-      "بطارية تدوم 18 ساعة"
-    ],
-    images: [
-      "https://images.unsplash.com/photo-1546868871-7041f2a55e12?w=500&h=500&fit=crop",
-      "https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=500&h=500&fit=crop"
-    ]
+  const page = usePage(id);
+  const { saveFailed } = usePagesState();
+  const content = page?.content;
+  const [voiceDraft, setVoiceDraft] = useState<CopyVoice>();
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [editingImage, setEditingImage] = useState<{ sectionId: string; index: number } | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [publishing, setPublishing] = useState<PublishPlatform | null>(null);
+  const voice = voiceDraft ?? page?.voice ?? DEFAULT_VOICE;
+
+  const [device, setDevice] = useState<DeviceId>('mobile');
+  const [settingsDraft, setSettingsDraft] = useState<PageSettings | null>(null);
+  const blocker = useUnsavedChanges(settingsDraft !== null);
+  const { canUndo, canRedo } = useUndo(page?.content ? page.id : undefined);
+
+  // Ctrl+Z / Ctrl+Shift+Z outside text fields, which keep their native undo.
+  useEffect(() => {
+    if (!page?.content) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, [contenteditable]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo(page.id);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo(page.id);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [page?.id, page?.content]);
+
+  const landing = content ? (settingsDraft ? applySettings(content, settingsDraft) : content) : demoLandingPage;
+  const editingSection = editingImage && landing.sections.find((s) => s.id === editingImage.sectionId);
+
+  const handlePublish = (platform: 'WordPress' | 'Shopify') => {
+    if (!page?.content) {
+      toast({
+        title: "لا يمكن نشر الصفحة التجريبية",
+        description: "أنشئ صفحة من لوحة التحكم أولاً",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPublishing(platform === 'Shopify' ? 'shopify' : 'wordpress');
   };
 
-  const handlePublish = (platform: string) => {
-    toast({
-      title: "تم النشر بنجاح",
-      description: `تم نشر الصفحة على ${platform}`,
-    });
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      await regeneratePageCopy(page.id, voice);
+      setVoiceDraft(undefined);
+      toast({
+        title: "تم تحديث النص",
+        description: "تمت إعادة كتابة محتوى الصفحة بالأسلوب المختار",
+      });
+    } catch (error) {
+      toast({
+        title: "تعذر إعادة التوليد",
+        description: error instanceof Error ? error.message : "حدث خطأ غير متوقع",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRegenerating(false);
+    }
   };
 
-  const handleDownload = () => {
-    toast({
-      title: "تم التحميل",
-      description: "تم تحميل ملف HTML بنجاح",
-    });
+  const handleImageSave = (ref: string) => {
+    editContent(page.id, 'تعديل صورة', (current) => ({
+      ...current,
+      sections: current.sections.map((section) =>
+        section.id === editingImage?.sectionId && section.type === 'gallery'
+          ? { ...section, images: section.images.map((image, index) => (index === editingImage.index ? ref : image)) }
+          : section
+      ),
+    }));
+    setEditingImage(null);
   };
 
   return (
@@ -70,7 +146,17 @@ const Preview = () => {
           
           {/* Action Buttons */}
           <div className="flex gap-2">
-            <Button variant="outline" onClick={handleDownload}>
+            {page?.content && (
+              <>
+                <Button variant="ghost" size="icon" onClick={() => undo(page.id)} disabled={!canUndo} title="تراجع">
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => redo(page.id)} disabled={!canRedo} title="إعادة">
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={() => setIsExportOpen(true)}>
               <Download className="h-4 w-4 mr-2" />
               تحميل HTML
             </Button>
@@ -88,101 +174,98 @@ const Preview = () => {
         {/* Preview Container */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Landing Page Preview */}
-          <div className="lg:col-span-2">
-            <Card className="shadow-saas-lg overflow-hidden">
-              <div className="bg-gradient-to-b from-slate-50 to-white p-8 rtl font-arabic">
-                {/* Header */}
-                <div className="text-center mb-8">
-                  <Badge className="mb-4 bg-red-500 text-white">
-                    خصم حصري {pageData.discount}
-                  </Badge>
-                  <h1 className="text-3xl font-bold mb-4 text-gray-900">
-                    {pageData.title}
-                  </h1>
-                  <div className="flex items-center justify-center gap-4 mb-6">
-                    <span className="text-3xl font-bold text-green-600">
-                      {pageData.salePrice}
-                    </span>
-                    <span className="text-xl text-gray-500 line-through">
-                      {pageData.originalPrice}
-                    </span>
-                  </div>
-                </div>
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex items-center justify-between">
+              <ToggleGroup type="single" value={device} onValueChange={(value) => value && setDevice(value as DeviceId)}>
+                {(Object.keys(DEVICES) as DeviceId[]).map((id) => {
+                  const Icon = DEVICE_ICONS[id];
+                  return (
+                    <ToggleGroupItem key={id} value={id} size="sm" title={DEVICES[id].label}>
+                      <Icon className="h-4 w-4 mr-2" />
+                      {DEVICES[id].label}
+                    </ToggleGroupItem>
+                  );
+                })}
+              </ToggleGroup>
+              <span className="text-sm text-muted-foreground" dir="ltr">
+                {DEVICES[device].width} × {DEVICES[device].height}
+              </span>
+            </div>
+            <DeviceFrame device={device} title={readCopySection(landing, 'headline')}>
+              <LandingPageView
+                page={landing}
+                controls={page?.content ? (section) => <SectionControls page={page} section={section} /> : undefined}
+                onEditImage={page?.content ? (sectionId, index) => setEditingImage({ sectionId, index }) : undefined}
+                showEmpty={!!page?.content}
+              />
+            </DeviceFrame>
+          </div>
 
-                {/* Product Images */}
-                <div className="grid grid-cols-2 gap-4 mb-8">
-                  {pageData.images.map((image, index) => (
-                    <img
-                      key={index}
-                      src={image}
-                      alt={`صورة المنتج ${index + 1}`}
-                      className="w-full h-48 object-cover rounded-lg shadow-md"
-                    />
-                  ))}
-                </div>
+          {/* Settings Panel */}
+          <div className="space-y-6">
+            {saveFailed && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>تعذر حفظ التغييرات</AlertTitle>
+                <AlertDescription>
+                  مساحة التخزين في هذا المتصفح ممتلئة، لذا تبقى آخر التعديلات مفتوحة في هذه النافذة فقط. احذف صفحات لا تحتاجها ثم عدّل الصفحة مجدداً ليتم حفظها.
+                </AlertDescription>
+              </Alert>
+            )}
 
-                {/* Product Description */}
-                <div className="mb-8">
-                  <h2 className="text-2xl font-bold mb-4">وصف المنتج</h2>
-                  <p className="text-gray-700 leading-relaxed mb-6">
-                    {pageData.description}
-                  </p>
-                  
-                  <h3 className="text-xl font-bold mb-4">المميزات الرئيسية</h3>
-                  <ul className="space-y-2">
-                    {pageData.features.map((feature, index) => (
-                      <li key={index} className="flex items-center gap-2">
-                        <Star className="h-5 w-5 text-yellow-500" />
-                        <span>{feature}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+            {page?.unmigrated && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>تعذر تحميل محتوى هذه الصفحة</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>المحتوى محفوظ كما هو ولم يُحذف، ويُحمَّل تلقائياً عند فتح الصفحة بإصدار من التطبيق يدعمه.</p>
+                  <p className="text-xs" dir="ltr">{page.unmigrated.error}</p>
+                </AlertDescription>
+              </Alert>
+            )}
 
-                {/* Trust Indicators */}
-                <div className="grid grid-cols-3 gap-4 mb-8">
-                  <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                    <Shield className="h-8 w-8 text-green-500 mx-auto mb-2" />
-                    <p className="text-sm font-medium">ضمان المنتج</p>
-                  </div>
-                  <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                    <Truck className="h-8 w-8 text-blue-500 mx-auto mb-2" />
-                    <p className="text-sm font-medium">شحن مجاني</p>
-                  </div>
-                  <div className="text-center p-4 bg-white rounded-lg shadow-sm">
-                    <Phone className="h-8 w-8 text-purple-500 mx-auto mb-2" />
-                    <p className="text-sm font-medium">دعم 24/7</p>
-                  </div>
-                </div>
+            {page?.content ? (
+              <PageSettingsForm key={page.id} page={page} onDraftChange={setSettingsDraft} />
+            ) : !page?.unmigrated && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>إعدادات الصفحة</CardTitle>
+                  <CardDescription>هذه صفحة تجريبية، أنشئ صفحة من لوحة التحكم لتعديل محتواها</CardDescription>
+                </CardHeader>
+              </Card>
+            )}
 
-                {/* COD Form */}
-                <CODForm />
-              </div>
-            </Card>
-          </div>
+            {page?.content && <OrderPageSettings key={page.id} page={page} />}
+
+            {page?.content && <VariantsEditor page={page} />}
+
+            {page?.content && <TemplatePicker page={page} />}
+
+            {page?.content && <SectionBuilder page={page} />}
+
+            {page?.content && <ReviewsManager page={page} />}
+
+            {page?.content && <CodPolicySettings page={page} />}
+
+            {page?.content && <CopyLintPanel page={page} />}
+
+            {page?.content && <RevisionHistory page={page} />}
 
-          {/* Settings Panel */}
-          <div className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>إعدادات الصفحة</CardTitle>
-                <CardDescription>تخصيص محتوى الصفحة</CardDescription>
+                <CardTitle>أسلوب الكتابة</CardTitle>
+                <CardDescription>يُحفظ مع الصفحة ويُستخدم عند إعادة التوليد</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div>
-                  <Label htmlFor="title">عنوان المنتج</Label>
-                  <Input id="title" defaultValue={pageData.title} />
-                </div>
-                <div>
-                  <Label htmlFor="price">السعر</Label>
-                  <Input id="price" defaultValue={pageData.salePrice} />
-                </div>
-                <div>
-                  <Label htmlFor="description">الوصف</Label>
-                  <Textarea id="description" defaultValue={pageData.description} rows={4} />
-                </div>
-                <Button className="w-full">
-                  تحديث المعاينة
+                <VoiceSettings value={voice} onChange={setVoiceDraft} />
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleRegenerate}
+                  disabled={!page?.product || isRegenerating}
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  {isRegenerating ? 'جاري إعادة التوليد...' : 'إعادة توليد النص'}
                 </Button>
               </CardContent>
             </Card>
@@ -211,6 +294,23 @@ const Preview = () => {
           </div>
         </div>
       </main>
+
+      <ImageEditor
+        imageRef={editingSection?.type === 'gallery' ? editingSection.images[editingImage.index] : null}
+        onClose={() => setEditingImage(null)}
+        onSave={handleImageSave}
+      />
+      <ExportDialog
+        source={
+          page?.content
+            ? { id: page.id, revision: page.revisions?.[page.revisions.length - 1]?.id, title: page.title, content: page.content }
+            : { title: readCopySection(landing, 'headline'), content: landing }
+        }
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+      />
+      {page?.content && <PublishDialog page={page} platform={publishing} onClose={() => setPublishing(null)} />}
+      <UnsavedChangesDialog blocker={blocker} />
     </div>
   );
 };
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_IMPORT_PROXY_URL?: string;
+  readonly VITE_AI_PROVIDER?: 'mock' | 'http';
+  readonly VITE_AI_ENDPOINT?: string;
+  readonly VITE_AI_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
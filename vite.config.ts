@@ -1,22 +1,97 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest" />
+import { defineConfig, loadEnv, type Plugin, type ProxyOptions } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
-// https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+// The LLM key stays on the server: the app posts to /api/ai and this proxy
+// forwards to AI_API_URL with AI_API_KEY attached. Neither variable has the
+// VITE_ prefix, so they are never compiled into the client bundle. The proxy is
+// dev-only tooling: production builds use the mock provider unless
+// VITE_AI_ENDPOINT is set (e.g. to /api/ai under `vite preview`).
+const aiProxy = (env: Record<string, string>): Record<string, ProxyOptions> => {
+  if (!env.AI_API_URL) return {};
+  const target = new URL(env.AI_API_URL);
+  return {
+    "/api/ai": {
+      target: target.origin,
+      changeOrigin: true,
+      rewrite: () => `${target.pathname}${target.search}`,
+      headers: env.AI_API_KEY ? { Authorization: `Bearer ${env.AI_API_KEY}` } : {},
+    },
+  };
+};
+
+// Same for Shopify: /api/shopify/admin/api/... goes to SHOPIFY_SHOP_DOMAIN with
+// SHOPIFY_ACCESS_TOKEN attached: a custom app's Admin API token with the pages
+// and themes scopes, plus products to publish products. The app publishes to
+// this one store and asks it for its domain. Other paths get a 404, so it is
+// not an open proxy.
+const shopifyProxy = (env: Record<string, string>): Record<string, ProxyOptions> => {
+  if (!env.SHOPIFY_SHOP_DOMAIN) return {};
+  const prefix = "/api/shopify";
+  return {
+    [prefix]: {
+      target: `https://${env.SHOPIFY_SHOP_DOMAIN}`,
+      changeOrigin: true,
+      bypass: (req) => (req.url?.startsWith(`${prefix}/admin/api/`) ? undefined : false),
+      rewrite: (url) => url.slice(prefix.length),
+      headers: env.SHOPIFY_ACCESS_TOKEN ? { "X-Shopify-Access-Token": env.SHOPIFY_ACCESS_TOKEN } : {},
     },
+  };
+};
+
+// Product pages and their images, fetched on the server because storefronts
+// rarely send CORS headers: /api/import?url=<page>. Dev server only; builds
+// use VITE_IMPORT_PROXY_URL.
+const importProxy = (): Plugin => ({
+  name: "import-proxy",
+  configureServer: (server) => {
+    server.middlewares.use("/api/import", async (req, res) => {
+      const target = new URL(req.url ?? "", "http://localhost").searchParams.get("url") ?? "";
+      if (!/^https?:\/\//.test(target)) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+      try {
+        const response = await fetch(target, { headers: { Accept: req.headers.accept ?? "*/*" } });
+        res.statusCode = response.status;
+        res.setHeader("Content-Type", response.headers.get("content-type") ?? "application/octet-stream");
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch {
+        res.statusCode = 502;
+        res.end();
+      }
+    });
   },
-}));
+});
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: { ...aiProxy(env), ...shopifyProxy(env) },
+    },
+    preview: {
+      proxy: { ...aiProxy(env), ...shopifyProxy(env) },
+    },
+    plugins: [
+      react(),
+      importProxy(),
+      mode === 'development' &&
+      componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+    test: {
+      environment: "jsdom",
+    },
+  };
+});